@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import {
+  PROXY_TARGET_HEADER,
+  FORWARDED_REQUEST_HEADERS,
+  parseAllowedHosts,
+  buildProxyTargetUrl,
+} from '@/utils/dgraphProxy';
+
+interface RouteContext {
+  params: Promise<{ path: string[] }>;
+}
+
+async function forward(request: Request, context: RouteContext) {
+  const { path } = await context.params;
+  const url = new URL(request.url);
+
+  const target = buildProxyTargetUrl(
+    request.headers.get(PROXY_TARGET_HEADER),
+    path.join('/'),
+    url.search,
+    parseAllowedHosts(process.env.DGRAPH_PROXY_ALLOWED_HOSTS)
+  );
+
+  if ('error' in target) {
+    return NextResponse.json({ errors: [{ message: target.error }] }, { status: target.status });
+  }
+
+  const headers: Record<string, string> = {};
+  FORWARDED_REQUEST_HEADERS.forEach(name => {
+    const value = request.headers.get(name);
+    if (value) {
+      headers[name] = value;
+    }
+  });
+
+  try {
+    const upstream = await fetch(target.url, {
+      method: request.method,
+      headers,
+      body: request.method === 'GET' ? undefined : await request.text(),
+      cache: 'no-store',
+      // A followed redirect could lead to a host outside the allow-list
+      redirect: 'manual',
+    });
+
+    if (upstream.status >= 300 && upstream.status < 400) {
+      return NextResponse.json(
+        { errors: [{ message: `Dgraph redirected the request (${upstream.status}); redirects are not followed through the proxy` }] },
+        { status: 502 }
+      );
+    }
+
+    return new NextResponse(await upstream.text(), {
+      status: upstream.status,
+      headers: {
+        'Content-Type': upstream.headers.get('content-type') || 'application/json',
+      },
+    });
+  } catch (error) {
+    console.error('Error proxying Dgraph request:', error);
+    return NextResponse.json(
+      { errors: [{ message: 'Failed to reach Dgraph through the proxy' }] },
+      { status: 502 }
+    );
+  }
+}
+
+export async function GET(request: Request, context: RouteContext) {
+  return forward(request, context);
+}
+
+export async function POST(request: Request, context: RouteContext) {
+  return forward(request, context);
+}
@@ -0,0 +1,357 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useDgraph } from '@/context/DgraphContext';
+import AdminService, { AdminResponse, ExportFormat } from '@/services/adminService';
+import {
+  Box,
+  Card,
+  Heading,
+  Field,
+  Input,
+  Button,
+  Text,
+  Alert,
+  VStack,
+  HStack,
+  Badge,
+  SimpleGrid,
+} from '@chakra-ui/react';
+import { Icons } from '@/components/ui/icons';
+
+interface AdminTask {
+  id: string;
+  operation: string;
+  startedAt: number;
+  response?: AdminResponse;
+  // Background task status from the task query (export, backup)
+  status?: string;
+  error?: string;
+}
+
+// Task statuses after which polling stops
+const FINISHED_TASK_STATUSES = ['Success', 'Failed', 'Unknown'];
+
+// How often running background tasks are polled
+const TASK_POLL_INTERVAL = 5000;
+
+const selectStyle = {
+  width: '100%',
+  height: '40px',
+  padding: '0 12px',
+  borderRadius: '8px',
+  border: '1px solid var(--chakra-colors-border-primary)',
+  backgroundColor: 'var(--chakra-colors-bg-primary)',
+  fontSize: '14px',
+  outline: 'none'
+};
+
+export default function AdminPanel() {
+  const { dgraphService } = useDgraph();
+  const adminService = useMemo(
+    () => (dgraphService ? new AdminService(dgraphService) : null),
+    [dgraphService]
+  );
+  const [tasks, setTasks] = useState<AdminTask[]>([]);
+  const [runningOperation, setRunningOperation] = useState<string | null>(null);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('rdf');
+  const [exportDestination, setExportDestination] = useState('');
+  const [backupDestination, setBackupDestination] = useState('');
+  const [backupForceFull, setBackupForceFull] = useState(false);
+  const [cacheMb, setCacheMb] = useState('');
+  const [logDQLRequest, setLogDQLRequest] = useState(false);
+
+  // Load the current cache size so the config form starts from the live value
+  useEffect(() => {
+    if (!adminService) return;
+    adminService.getConfig()
+      .then(config => {
+        if (config.cacheMb !== undefined) {
+          setCacheMb(String(config.cacheMb));
+        }
+      })
+      .catch(err => console.warn('Failed to load admin config:', err));
+  }, [adminService]);
+
+  // Poll background tasks until they finish
+  useEffect(() => {
+    if (!adminService) return;
+
+    const pending = tasks.filter(task =>
+      task.response?.taskId && !FINISHED_TASK_STATUSES.includes(task.status || '')
+    );
+    if (pending.length === 0) return;
+
+    const timer = setTimeout(async () => {
+      const updates = await Promise.all(pending.map(async task => {
+        try {
+          const status = await adminService.getTask(task.response!.taskId!);
+          return { id: task.id, status: status.status };
+        } catch (err: any) {
+          return { id: task.id, status: 'Unknown', error: err.message };
+        }
+      }));
+
+      setTasks(current => current.map(task => {
+        const update = updates.find(u => u.id === task.id);
+        return update ? { ...task, ...update } : task;
+      }));
+    }, TASK_POLL_INTERVAL);
+
+    return () => clearTimeout(timer);
+  }, [tasks, adminService]);
+
+  const runOperation = async (operation: string, action: (service: AdminService) => Promise<AdminResponse>) => {
+    if (!adminService) return;
+
+    const task: AdminTask = {
+      id: `${Date.now()}-${operation}`,
+      operation,
+      startedAt: Date.now(),
+    };
+    setRunningOperation(operation);
+
+    try {
+      const response = await action(adminService);
+      task.response = response;
+      task.status = response.taskId ? 'Queued' : response.code;
+    } catch (err: any) {
+      console.error(`Admin ${operation} error:`, err);
+      task.error = err.response?.data?.errors?.[0]?.message || err.message || `Failed to run ${operation}`;
+      task.status = 'Failed';
+    } finally {
+      setTasks(current => [task, ...current]);
+      setRunningOperation(null);
+    }
+  };
+
+  const handleShutdown = () => {
+    if (!window.confirm('Shut down the connected Dgraph alpha? It will stop serving requests until restarted.')) {
+      return;
+    }
+    runOperation('Shutdown', service => service.shutdown());
+  };
+
+  const handleUpdateConfig = () => {
+    const input: { cacheMb?: number; logDQLRequest: boolean } = { logDQLRequest };
+    if (cacheMb.trim() !== '') {
+      input.cacheMb = Number(cacheMb);
+    }
+    runOperation('Config', service => service.updateConfig(input));
+  };
+
+  const statusColor = (task: AdminTask) => {
+    if (task.error || task.status === 'Failed') return 'red';
+    if (task.status === 'Success') return 'green';
+    return 'blue';
+  };
+
+  if (!adminService) {
+    return null;
+  }
+
+  return (
+    <VStack gap={6} align="stretch">
+      <SimpleGrid columns={{ base: 1, lg: 2 }} gap={4}>
+        {/* Export */}
+        <Card.Root variant="elevated" p={4}>
+          <VStack align="stretch" gap={3}>
+            <HStack gap={2}>
+              <Icons.download size={16} />
+              <Heading textStyle="heading.card">Export</Heading>
+            </HStack>
+            <Field.Root>
+              <Field.Label textStyle="label">Format</Field.Label>
+              <select
+                value={exportFormat}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setExportFormat(e.target.value as ExportFormat)}
+                style={selectStyle}
+              >
+                <option value="rdf">RDF</option>
+                <option value="json">JSON</option>
+              </select>
+            </Field.Root>
+            <Field.Root>
+              <Field.Label textStyle="label">Destination (optional)</Field.Label>
+              <Input
+                value={exportDestination}
+                onChange={(e) => setExportDestination(e.target.value)}
+                placeholder="s3:///bucket/folder or /local/path"
+                size="sm"
+              />
+              <Field.HelperText textStyle="helper">
+                Defaults to the alpha&apos;s export directory
+              </Field.HelperText>
+            </Field.Root>
+            <Button
+              size="sm"
+              colorPalette="blue"
+              loading={runningOperation === 'Export'}
+              onClick={() => runOperation('Export', service => service.export({
+                format: exportFormat,
+                destination: exportDestination.trim() || undefined,
+              }))}
+            >
+              Start Export
+            </Button>
+          </VStack>
+        </Card.Root>
+
+        {/* Backup */}
+        <Card.Root variant="elevated" p={4}>
+          <VStack align="stretch" gap={3}>
+            <HStack gap={2}>
+              <Icons.upload size={16} />
+              <Heading textStyle="heading.card">Backup</Heading>
+            </HStack>
+            <Field.Root required>
+              <Field.Label textStyle="label">Destination</Field.Label>
+              <Input
+                value={backupDestination}
+                onChange={(e) => setBackupDestination(e.target.value)}
+                placeholder="s3:///bucket/backups or /local/path"
+                size="sm"
+              />
+            </Field.Root>
+            <HStack as="label" gap={2}>
+              <input
+                type="checkbox"
+                checked={backupForceFull}
+                onChange={(e) => setBackupForceFull(e.target.checked)}
+              />
+              <Text textStyle="body.small">Force a full backup</Text>
+            </HStack>
+            <Button
+              size="sm"
+              colorPalette="blue"
+              disabled={!backupDestination.trim()}
+              loading={runningOperation === 'Backup'}
+              onClick={() => runOperation('Backup', service => service.backup({
+                destination: backupDestination.trim(),
+                forceFull: backupForceFull,
+              }))}
+            >
+              Start Backup
+            </Button>
+          </VStack>
+        </Card.Root>
+
+        {/* Config */}
+        <Card.Root variant="elevated" p={4}>
+          <VStack align="stretch" gap={3}>
+            <HStack gap={2}>
+              <Icons.settings size={16} />
+              <Heading textStyle="heading.card">Config</Heading>
+            </HStack>
+            <Field.Root>
+              <Field.Label textStyle="label">Cache size (MB)</Field.Label>
+              <Input
+                type="number"
+                value={cacheMb}
+                onChange={(e) => setCacheMb(e.target.value)}
+                size="sm"
+              />
+            </Field.Root>
+            <HStack as="label" gap={2}>
+              <input
+                type="checkbox"
+                checked={logDQLRequest}
+                onChange={(e) => setLogDQLRequest(e.target.checked)}
+              />
+              <Text textStyle="body.small">Log DQL requests</Text>
+            </HStack>
+            <Button
+              size="sm"
+              colorPalette="blue"
+              loading={runningOperation === 'Config'}
+              onClick={handleUpdateConfig}
+            >
+              Apply Config
+            </Button>
+          </VStack>
+        </Card.Root>
+
+        {/* Draining & shutdown */}
+        <Card.Root variant="elevated" p={4}>
+          <VStack align="stretch" gap={3}>
+            <HStack gap={2}>
+              <Icons.warning size={16} />
+              <Heading textStyle="heading.card">Availability</Heading>
+            </HStack>
+            <Text textStyle="body.small">
+              Draining mode makes the alpha reject new queries and mutations, e.g. before maintenance.
+            </Text>
+            <HStack gap={2}>
+              <Button
+                size="sm"
+                variant="outline"
+                loading={runningOperation === 'Enable draining'}
+                onClick={() => runOperation('Enable draining', service => service.setDraining(true))}
+              >
+                Enable Draining
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                loading={runningOperation === 'Disable draining'}
+                onClick={() => runOperation('Disable draining', service => service.setDraining(false))}
+              >
+                Disable Draining
+              </Button>
+            </HStack>
+            <Button
+              size="sm"
+              colorPalette="red"
+              loading={runningOperation === 'Shutdown'}
+              onClick={handleShutdown}
+            >
+              Shut Down Alpha
+            </Button>
+          </VStack>
+        </Card.Root>
+      </SimpleGrid>
+
+      {/* Task status and results */}
+      <Card.Root variant="elevated" p={4}>
+        <VStack align="stretch" gap={3}>
+          <Heading textStyle="heading.card">Tasks</Heading>
+          {tasks.length === 0 ? (
+            <Text textStyle="body.small">
+              No admin operations run yet. Export and backup tasks are tracked here until they finish.
+            </Text>
+          ) : (
+            tasks.map(task => (
+              <Box key={task.id} border="1px" borderColor="border.secondary" borderRadius="md" p={3}>
+                <HStack justify="space-between" align="start">
+                  <VStack align="start" gap={1}>
+                    <HStack gap={2}>
+                      <Text fontWeight="semibold" fontSize="sm">{task.operation}</Text>
+                      <Badge colorPalette={statusColor(task)} variant="subtle">
+                        {task.status || 'Running'}
+                      </Badge>
+                    </HStack>
+                    {task.response?.message && (
+                      <Text textStyle="body.small">{task.response.message}</Text>
+                    )}
+                    {task.response?.taskId && (
+                      <Text textStyle="helper">{`Task ID: ${task.response.taskId}`}</Text>
+                    )}
+                    {task.error && (
+                      <Alert.Root status="error" variant="subtle" borderRadius="md" py={1}>
+                        <Alert.Indicator />
+                        <Alert.Content>
+                          <Text textStyle="body.small">{task.error}</Text>
+                        </Alert.Content>
+                      </Alert.Root>
+                    )}
+                  </VStack>
+                  <Text textStyle="helper">{new Date(task.startedAt).toLocaleTimeString()}</Text>
+                </HStack>
+              </Box>
+            ))
+          )}
+        </VStack>
+      </Card.Root>
+    </VStack>
+  );
+}
@@ -0,0 +1,230 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useDgraph } from '@/context/DgraphContext';
+import {
+  ClusterState,
+  ClusterInstanceHealth,
+  ClusterMember,
+  parseClusterState,
+  parseClusterHealth,
+  formatBytes,
+} from '@/utils/clusterState';
+import {
+  Box,
+  Card,
+  Heading,
+  Button,
+  Text,
+  Alert,
+  VStack,
+  HStack,
+  Badge,
+  Flex,
+  SimpleGrid,
+} from '@chakra-ui/react';
+import { Icons } from '@/components/ui/icons';
+
+// Number of tablets shown in the size chart
+const CHART_TABLET_LIMIT = 20;
+
+function MemberRow({ member, health }: { member: ClusterMember; health?: ClusterInstanceHealth }) {
+  return (
+    <HStack justify="space-between" fontSize="sm">
+      <HStack gap={2}>
+        <Text fontFamily="mono">{member.addr || `#${member.id}`}</Text>
+        {member.leader && <Badge colorPalette="blue" variant="subtle" size="sm">Leader</Badge>}
+        {member.amDead && <Badge colorPalette="red" variant="subtle" size="sm">Dead</Badge>}
+      </HStack>
+      {health && (
+        <HStack gap={2}>
+          <Text fontSize="xs" color="fg.muted">{health.version}</Text>
+          <Badge colorPalette={health.status === 'healthy' ? 'green' : 'orange'} variant="subtle" size="sm">
+            {health.status}
+          </Badge>
+        </HStack>
+      )}
+    </HStack>
+  );
+}
+
+export default function ClusterPanel() {
+  const { dgraphService } = useDgraph();
+  const [clusterState, setClusterState] = useState<ClusterState | null>(null);
+  const [health, setHealth] = useState<ClusterInstanceHealth[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+
+  const loadCluster = useCallback(async () => {
+    if (!dgraphService) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      // /health?all is informational; a failure there shouldn't hide the state
+      const [stateResult, healthResult] = await Promise.allSettled([
+        dgraphService.getClusterState(),
+        dgraphService.getClusterHealth(),
+      ]);
+
+      if (stateResult.status === 'rejected') {
+        throw stateResult.reason;
+      }
+      setClusterState(parseClusterState(stateResult.value));
+      setHealth(healthResult.status === 'fulfilled' ? parseClusterHealth(healthResult.value) : []);
+      setLastUpdated(new Date());
+    } catch (err: any) {
+      console.error('Cluster state error:', err);
+      setError(err.response?.data?.errors?.[0]?.message || err.message || 'Failed to load cluster state');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [dgraphService]);
+
+  useEffect(() => {
+    loadCluster();
+  }, [loadCluster]);
+
+  if (!dgraphService) {
+    return null;
+  }
+
+  // /health reports addresses the same way /state does, so match on address
+  const healthFor = (member: ClusterMember) => health.find(entry => entry.address === member.addr);
+
+  const chartTablets = clusterState?.tablets.slice(0, CHART_TABLET_LIMIT) || [];
+  const maxTabletBytes = Math.max(1, ...chartTablets.map(tablet => tablet.onDiskBytes));
+
+  return (
+    <VStack gap={6} align="stretch">
+      <HStack justify="space-between">
+        <HStack gap={2}>
+          {clusterState && (
+            <>
+              <Badge variant="subtle" size="sm">{`${clusterState.groups.length} groups`}</Badge>
+              <Badge variant="subtle" size="sm">{`${clusterState.tablets.length} tablets`}</Badge>
+              <Badge variant="subtle" size="sm">{formatBytes(clusterState.totalBytes)}</Badge>
+            </>
+          )}
+          {lastUpdated && (
+            <Text textStyle="helper">{`Updated ${lastUpdated.toLocaleTimeString()}`}</Text>
+          )}
+        </HStack>
+        <Button size="sm" variant="outline" onClick={loadCluster} loading={isLoading} gap={2}>
+          <Icons.history size={14} />
+          Refresh
+        </Button>
+      </HStack>
+
+      {error && (
+        <Alert.Root status="error" variant="subtle" borderRadius="lg">
+          <Alert.Indicator />
+          <Alert.Content>
+            <Text textStyle="body.medium">{error}</Text>
+          </Alert.Content>
+        </Alert.Root>
+      )}
+
+      {clusterState && (
+        <>
+          <SimpleGrid columns={{ base: 1, lg: 2 }} gap={4}>
+            {/* Zeros */}
+            <Card.Root variant="elevated" p={4}>
+              <VStack align="stretch" gap={3}>
+                <Heading textStyle="heading.card">Zeros</Heading>
+                {clusterState.zeros.length === 0 ? (
+                  <Text textStyle="body.small">No zeros reported</Text>
+                ) : (
+                  clusterState.zeros.map(zero => (
+                    <MemberRow key={zero.id} member={zero} health={healthFor(zero)} />
+                  ))
+                )}
+                {(clusterState.maxUID || clusterState.maxTxnTs) && (
+                  <HStack gap={4} fontSize="xs" color="fg.muted">
+                    {clusterState.maxUID && <Text>{`Max UID: ${clusterState.maxUID}`}</Text>}
+                    {clusterState.maxTxnTs && <Text>{`Max txn ts: ${clusterState.maxTxnTs}`}</Text>}
+                  </HStack>
+                )}
+              </VStack>
+            </Card.Root>
+
+            {/* Alpha groups */}
+            {clusterState.groups.map(group => (
+              <Card.Root key={group.id} variant="elevated" p={4}>
+                <VStack align="stretch" gap={3}>
+                  <HStack justify="space-between">
+                    <Heading textStyle="heading.card">{`Group ${group.id}`}</Heading>
+                    <Text fontSize="sm" color="fg.muted">
+                      {`${group.tablets.length} tablets · ${formatBytes(group.totalBytes)}`}
+                    </Text>
+                  </HStack>
+                  {group.members.map(member => (
+                    <MemberRow key={member.id} member={member} health={healthFor(member)} />
+                  ))}
+                  {group.tablets.length > 0 && (
+                    <HStack gap={1} wrap="wrap">
+                      {group.tablets.map(tablet => (
+                        <Badge
+                          key={tablet.predicate}
+                          variant="subtle"
+                          size="sm"
+                          colorPalette={tablet.hot ? 'red' : 'gray'}
+                          title={`${tablet.predicate}: ${formatBytes(tablet.onDiskBytes)} on disk`}
+                        >
+                          {tablet.predicate}
+                        </Badge>
+                      ))}
+                    </HStack>
+                  )}
+                </VStack>
+              </Card.Root>
+            ))}
+          </SimpleGrid>
+
+          {/* Tablet sizes */}
+          <Card.Root variant="elevated" p={4}>
+            <VStack align="stretch" gap={3}>
+              <HStack justify="space-between">
+                <Heading textStyle="heading.card">Tablet Sizes</Heading>
+                {clusterState.tablets.length > CHART_TABLET_LIMIT && (
+                  <Text textStyle="helper">{`Largest ${CHART_TABLET_LIMIT} of ${clusterState.tablets.length}`}</Text>
+                )}
+              </HStack>
+              {chartTablets.length === 0 ? (
+                <Text textStyle="body.small">No tablets reported</Text>
+              ) : (
+                <VStack gap={1} align="stretch">
+                  {chartTablets.map(tablet => (
+                    <Flex key={tablet.predicate} align="center" gap={3}>
+                      <Text fontSize="xs" minW="160px" fontFamily="mono" title={tablet.predicate}>
+                        {tablet.predicate.length > 24 ? tablet.predicate.substring(0, 24) + '...' : tablet.predicate}
+                      </Text>
+                      <Badge variant="outline" size="sm" minW="36px" justifyContent="center">
+                        {`G${tablet.groupId}`}
+                      </Badge>
+                      <Box flex={1} height="18px" bg="bg.muted" borderRadius="2px" overflow="hidden">
+                        <Box
+                          height="100%"
+                          bg={tablet.hot ? 'red.400' : 'blue.500'}
+                          width={`${(tablet.onDiskBytes / maxTabletBytes) * 100}%`}
+                          transition="width 0.3s ease"
+                        />
+                      </Box>
+                      <Text fontSize="xs" minW="110px" textAlign="right">
+                        {`${formatBytes(tablet.onDiskBytes)} · ${(tablet.share * 100).toFixed(1)}%`}
+                      </Text>
+                    </Flex>
+                  ))}
+                </VStack>
+              )}
+              <Text textStyle="helper">
+                Red tablets hold a disproportionate share of the data and may be worth moving to another group
+              </Text>
+            </VStack>
+          </Card.Root>
+        </>
+      )}
+    </VStack>
+  );
+}
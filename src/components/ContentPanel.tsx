@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   Box,
   VStack,
@@ -14,33 +14,122 @@ import ConnectionForm from './ConnectionForm';
 import SchemaEditor from './SchemaEditor';
 import GuidesTab from './GuidesTab';
 import QueryEditor from './QueryEditor';
+import QueryWorkspaceTabs from './QueryWorkspaceTabs';
 import TextToDqlTab from './TextToDqlTab';
 import VectorSearchPanel from './VectorSearchPanel';
 import ResizableContainer from './ResizableContainer';
 import GraphVisualization from './GraphVisualization';
 import GeoVisualization from './GeoVisualization';
 import GeospatialTab from './GeospatialTab';
+import AdminPanel from './AdminPanel';
+import ClusterPanel from './ClusterPanel';
 import { hasGeoData } from '@/utils/geoUtils';
+import { IndexFix } from '@/utils/dqlIndexLint';
 import { useDgraph } from '@/context/DgraphContext';
+import {
+  QueryWorkspace,
+  WorkspaceTab,
+  createWorkspace,
+  createWorkspaceTab,
+  closeWorkspaceTab,
+  getWorkspaceStorageKey,
+  parseWorkspace,
+  serializeWorkspace,
+} from '@/utils/queryWorkspace';
 import { Icons } from '@/components/ui/icons';
 
 interface ContentPanelProps {
-  activeSection: 'connection' | 'schema' | 'guides' | 'query' | 'text-to-dql' | 'geospatial';
+  activeSection: 'connection' | 'schema' | 'guides' | 'query' | 'text-to-dql' | 'geospatial' | 'admin' | 'cluster';
   isSidebarOpen: boolean;
   isMobile?: boolean;
   isTablet?: boolean;
+  onSectionChange?: (section: ContentPanelProps['activeSection']) => void;
 }
 
 export default function ContentPanel({ 
   activeSection, 
   isSidebarOpen, 
   isMobile, 
-  isTablet 
+  isTablet,
+  onSectionChange
 }: ContentPanelProps) {
-  const { connected } = useDgraph();
-  const [queryResult, setQueryResult] = useState<any>(null);
+  const { connected, activeProfile } = useDgraph();
   const [showVectorSearch, setShowVectorSearch] = useState(false);
   const queryEditorRef = React.useRef<any>(null);
+  // Index quick fix from the query editor, handed to the schema editor
+  const [pendingIndex, setPendingIndex] = useState<IndexFix | null>(null);
+
+  const handleAddIndex = (fix: IndexFix) => {
+    setPendingIndex(fix);
+    onSectionChange?.('schema');
+  };
+
+  // Query tabs of the active connection profile
+  const [workspace, setWorkspace] = useState<QueryWorkspace>(createWorkspace);
+  // Storage key the tabs were loaded from; nothing is saved before they are
+  const [loadedWorkspaceKey, setLoadedWorkspaceKey] = useState<string | null>(null);
+  const pendingSaveRef = useRef<(() => void) | null>(null);
+  const workspaceKey = getWorkspaceStorageKey(activeProfile?.id);
+
+  useEffect(() => {
+    // Keep the last edits of the previous profile's tabs
+    pendingSaveRef.current?.();
+    try {
+      setWorkspace(parseWorkspace(localStorage.getItem(workspaceKey)));
+    } catch (err) {
+      console.error('Failed to load query tabs:', err);
+      setWorkspace(createWorkspace());
+    }
+    setLoadedWorkspaceKey(workspaceKey);
+  }, [workspaceKey]);
+
+  // Save shortly after changes rather than on every keystroke
+  useEffect(() => {
+    if (loadedWorkspaceKey !== workspaceKey) return;
+
+    const save = () => {
+      pendingSaveRef.current = null;
+      try {
+        localStorage.setItem(workspaceKey, serializeWorkspace(workspace));
+      } catch {
+        // Several large results can exceed the storage quota; keep at least the query texts
+        try {
+          localStorage.setItem(workspaceKey, serializeWorkspace(workspace, false));
+        } catch (err) {
+          console.error('Failed to save query tabs:', err);
+        }
+      }
+    };
+    pendingSaveRef.current = save;
+    const timer = setTimeout(save, 500);
+    return () => clearTimeout(timer);
+  }, [workspace, loadedWorkspaceKey, workspaceKey]);
+
+  useEffect(() => () => pendingSaveRef.current?.(), []);
+
+  const activeWorkspaceTab = workspace.tabs.find(tab => tab.id === workspace.activeTabId) ?? workspace.tabs[0];
+
+  const updateWorkspaceTab = (id: string, update: (tab: WorkspaceTab) => WorkspaceTab) => {
+    setWorkspace(current => ({
+      ...current,
+      tabs: current.tabs.map(tab => (tab.id === id ? update(tab) : tab)),
+    }));
+  };
+
+  // Results go to the tab that ran, even if another tab is shown by the time they arrive
+  const handleQueryResult = (tabId: string, result: any, query?: string) => {
+    updateWorkspaceTab(tabId, tab => ({ ...tab, result, resultQuery: query, savedTexts: { ...tab.texts } }));
+  };
+
+  const handleAddTab = () => {
+    setWorkspace(current => {
+      const tab = createWorkspaceTab(current.tabs);
+      return { tabs: [...current.tabs, tab], activeTabId: tab.id };
+    });
+  };
+
+  const queryResult = activeWorkspaceTab.result;
+  const resultQuery = activeWorkspaceTab.resultQuery;
 
   const renderConnectionSection = () => (
     <VStack gap={6} align="stretch">
@@ -112,7 +201,7 @@ export default function ContentPanel({
           </VStack>
         </Card.Root>
       ) : (
-        <SchemaEditor />
+        <SchemaEditor pendingIndex={pendingIndex} onPendingIndexApplied={() => setPendingIndex(null)} />
       )}
     </VStack>
   );
@@ -197,6 +286,82 @@ export default function ContentPanel({
     </VStack>
   );
 
+  const renderAdminSection = () => (
+    <VStack gap={6} align="stretch">
+      <Box>
+        <Heading textStyle="heading.section" mb={3}>
+          Cluster Administration
+        </Heading>
+        <Text textStyle="body.medium">
+          Run export, backup, draining and config operations through Dgraph&apos;s /admin endpoint
+        </Text>
+      </Box>
+
+      {!connected ? (
+        <Card.Root variant="elevated">
+          <VStack gap={4} align="center" py={12}>
+            <Box
+              p={4}
+              borderRadius="full"
+              bg="bg.muted"
+              color="fg.tertiary"
+            >
+              <Icons.admin size={32} />
+            </Box>
+            <VStack gap={2} align="center">
+              <Text textStyle="body.medium">
+                Database Connection Required
+              </Text>
+              <Text textStyle="body.small" textAlign="center">
+                Connect to a Dgraph database to run admin operations
+              </Text>
+            </VStack>
+          </VStack>
+        </Card.Root>
+      ) : (
+        <AdminPanel />
+      )}
+    </VStack>
+  );
+
+  const renderClusterSection = () => (
+    <VStack gap={6} align="stretch">
+      <Box>
+        <Heading textStyle="heading.section" mb={3}>
+          Cluster State
+        </Heading>
+        <Text textStyle="body.medium">
+          Groups, alphas, zeros and tablet placement from Dgraph&apos;s /state and /health?all endpoints
+        </Text>
+      </Box>
+
+      {!connected ? (
+        <Card.Root variant="elevated">
+          <VStack gap={4} align="center" py={12}>
+            <Box
+              p={4}
+              borderRadius="full"
+              bg="bg.muted"
+              color="fg.tertiary"
+            >
+              <Icons.cluster size={32} />
+            </Box>
+            <VStack gap={2} align="center">
+              <Text textStyle="body.medium">
+                Database Connection Required
+              </Text>
+              <Text textStyle="body.small" textAlign="center">
+                Connect to a Dgraph database to view its cluster state
+              </Text>
+            </VStack>
+          </VStack>
+        </Card.Root>
+      ) : (
+        <ClusterPanel />
+      )}
+    </VStack>
+  );
+
   const renderQuerySection = () => {
 
     const handleVectorQueryGenerated = (generatedQuery: string, variables: Record<string, any>) => {
@@ -232,6 +397,15 @@ export default function ContentPanel({
           </Button>
         </HStack>
 
+        <QueryWorkspaceTabs
+          tabs={workspace.tabs}
+          activeTabId={activeWorkspaceTab.id}
+          onSelect={id => setWorkspace(current => ({ ...current, activeTabId: id }))}
+          onAdd={handleAddTab}
+          onRename={(id, name) => updateWorkspaceTab(id, tab => ({ ...tab, name }))}
+          onClose={id => setWorkspace(current => closeWorkspaceTab(current, id))}
+        />
+
         {/* Query interface with optional vector search panel */}
         <Box h="calc(100vh - 280px)" borderRadius="lg" overflow="hidden">
           {showVectorSearch ? (
@@ -249,12 +423,22 @@ export default function ContentPanel({
                   firstComponent={
                     <QueryEditor 
                       ref={queryEditorRef}
-                      onQueryResult={setQueryResult}
+                      onQueryResult={(result, query) => handleQueryResult(activeWorkspaceTab.id, result, query)}
+                      queryDocument={activeWorkspaceTab}
+                      onQueryDocumentChange={update => updateWorkspaceTab(activeWorkspaceTab.id, tab => ({ ...tab, ...update(tab) }))}
+                      onAddIndex={handleAddIndex}
                     />
                   }
                   secondComponent={
                     <>
-                      {queryResult && <GraphVisualization data={queryResult} />}
+                      {queryResult && (
+                        <GraphVisualization
+                          data={queryResult}
+                          query={resultQuery}
+                          viewMode={activeWorkspaceTab.viewMode}
+                          onViewModeChange={viewMode => updateWorkspaceTab(activeWorkspaceTab.id, tab => ({ ...tab, viewMode }))}
+                        />
+                      )}
                       {queryResult && hasGeoData(queryResult) && <GeoVisualization data={queryResult} />}
                       {!queryResult && (
                         <Card.Root variant="subtle" h="full" bg="bg.muted">
@@ -297,12 +481,22 @@ export default function ContentPanel({
               firstComponent={
                 <QueryEditor 
                   ref={queryEditorRef}
-                  onQueryResult={setQueryResult}
+                  onQueryResult={(result, query) => handleQueryResult(activeWorkspaceTab.id, result, query)}
+                  queryDocument={activeWorkspaceTab}
+                  onQueryDocumentChange={update => updateWorkspaceTab(activeWorkspaceTab.id, tab => ({ ...tab, ...update(tab) }))}
+                  onAddIndex={handleAddIndex}
                 />
               }
               secondComponent={
                 <>
-                  {queryResult && <GraphVisualization data={queryResult} />}
+                  {queryResult && (
+                    <GraphVisualization
+                      data={queryResult}
+                      query={resultQuery}
+                      viewMode={activeWorkspaceTab.viewMode}
+                      onViewModeChange={viewMode => updateWorkspaceTab(activeWorkspaceTab.id, tab => ({ ...tab, viewMode }))}
+                    />
+                  )}
                   {queryResult && hasGeoData(queryResult) && <GeoVisualization data={queryResult} />}
                   {!queryResult && (
                     <Card.Root variant="subtle" h="full" bg="bg.muted">
@@ -349,6 +543,10 @@ export default function ContentPanel({
         return renderTextToDqlSection();
       case 'geospatial':
         return renderGeospatialSection();
+      case 'admin':
+        return renderAdminSection();
+      case 'cluster':
+        return renderClusterSection();
       default:
         return renderConnectionSection();
     }
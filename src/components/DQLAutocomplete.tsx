@@ -2,6 +2,7 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { ParsedSchema } from '@/utils/schemaParser';
+import { getDqlCompletionContext } from '@/utils/dqlParser';
 
 interface DQLAutocompleteProps {
   editorRef: React.RefObject<HTMLDivElement | null>;
@@ -55,10 +56,12 @@ export default function DQLAutocomplete({
     // Get current word at cursor
     const currentWord = getCurrentWord(query, cursorPosition);
     // Determine contex
-    const context = getContext(query, cursorPosition);
+    const context = getDqlCompletionContext(query, cursorPosition);
     // Generate suggestions based on contex
     let newSuggestions: string[] = [];
-    if (context === 'directive') {
+    if (context === 'none') {
+      // No suggestions inside strings and comments
+    } else if (context === 'directive') {
       newSuggestions = dqlDirectives.filter(dir => dir.toLowerCase().startsWith(currentWord.toLowerCase()));
     } else if (context === 'function') {
       newSuggestions = dqlKeywords.filter(kw => kw.toLowerCase().startsWith(currentWord.toLowerCase()));
@@ -125,24 +128,6 @@ export default function DQLAutocomplete({
     return match ? match[0] : '';
   };
 
-  // Determine context based on cursor position
-  const getContext = (text: string, position: number): 'directive' | 'function' | 'predicate' => {
-    const beforeCursor = text.substring(0, position);
-
-    // Check if we're after an @ symbol
-    if (beforeCursor.match(/@[\w]*$/)) {
-      return 'directive';
-    }
-
-    // Check if we're after a colon (function context)
-    if (beforeCursor.match(/:[\w]*$/)) {
-      return 'function';
-    }
-
-    // Default to predicate contex
-    return 'predicate';
-  };
-
   // Handle suggestion selection
   const handleSelect = (suggestion: string) => {
     onSuggestionSelect(suggestion);
@@ -29,10 +29,12 @@ interface VariableData {
 
 interface DQLVariableInputsProps {
   query: string;
+  // Values keyed by $name to start from, e.g. when a workspace tab is restored
+  initialValues?: Record<string, any>;
   onChange: (variables: Record<string, any>) => void;
 }
 
-export default function DQLVariableInputs({ query, onChange }: DQLVariableInputsProps) {
+export default function DQLVariableInputs({ query, initialValues, onChange }: DQLVariableInputsProps) {
   const [variables, setVariables] = useState<VariableData[]>([]);
 
   // Color mode values
@@ -43,6 +45,11 @@ export default function DQLVariableInputs({ query, onChange }: DQLVariableInputs
   const mutedTextColor = useColorModeValue('gray.500', 'gray.400');
   const errorTextColor = useColorModeValue('red.600', 'red.400');
   
+  const getInitialValue = (name: string): string => {
+    const value = initialValues?.[`$${name}`];
+    return value === undefined || value === null ? '' : String(value);
+  };
+
   // Detect variables in the query whenever it changes
   useEffect(() => {
     // Check if this is a named query with declared variable types
@@ -54,11 +61,12 @@ export default function DQLVariableInputs({ query, onChange }: DQLVariableInputs
       const declaredVars = extractDeclaredVariables(query);
       newVariables = declaredVars.map(dv => {
         const existingVar = variables.find(v => v.name === dv.name);
+        const initialValue = getInitialValue(dv.name);
         return {
           name: dv.name,
           type: dv.type,
-          value: existingVar?.value || '',
-          isValid: existingVar ? existingVar.isValid : false
+          value: existingVar ? existingVar.value : initialValue,
+          isValid: existingVar ? existingVar.isValid : !!initialValue && validateVariableValue(dv.name, initialValue)
         };
       });
     } else {
@@ -66,10 +74,11 @@ export default function DQLVariableInputs({ query, onChange }: DQLVariableInputs
       const detectedVars = detectVariables(query);
       newVariables = detectedVars.map(name => {
         const existingVar = variables.find(v => v.name === name);
+        const initialValue = getInitialValue(name);
         return {
           name,
-          value: existingVar?.value || '',
-          isValid: existingVar ? existingVar.isValid : false
+          value: existingVar ? existingVar.value : initialValue,
+          isValid: existingVar ? existingVar.isValid : !!initialValue && validateVariableValue(name, initialValue)
         };
       });
     }
@@ -79,6 +88,8 @@ export default function DQLVariableInputs({ query, onChange }: DQLVariableInputs
     // Call onChange with the current variable values
     const varValues = buildVariablesObject(newVariables);
     onChange(varValues);
+    // Only a new query redetects variables; initial values just seed ones not seen before
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [query]);
   
   // Build a variables object from the current state
@@ -12,6 +12,9 @@ import { hasGeoData, extractGeoNodesAndEdges } from '@/utils/geoUtils';
 import '@/styles/toast.css';
 import SigmaGraph from './SigmaGraph';
 import PropertyAnalysis from './PropertyAnalysis';
+import QueryProfiler from './QueryProfiler';
+import { ProfileHistory, ProfileRun } from '@/utils/queryProfile';
+import { ResultViewMode } from '@/utils/queryWorkspace';
 import { Tabs } from '@chakra-ui/react';
 
 // // Dynamically import SigmaGraph to avoid SSR issues with WebGL
@@ -38,8 +41,16 @@ const MapView = dynamic(() => import('./MapView'), {
 
 interface GraphVisualizationProps {
   data: any;
+  // Query that produced the data; enables tracking the profile across repeated runs
+  query?: string;
+  // Controlled view, e.g. kept per workspace tab
+  viewMode?: ResultViewMode;
+  onViewModeChange?: (viewMode: ResultViewMode) => void;
 }
 
+// Profile runs per query, kept for the lifetime of the page
+const profileHistory = new ProfileHistory();
+
 // Simple Toast Notification component
 interface ToastProps {
   message: string;
@@ -85,8 +96,10 @@ function Toast({ message, type, onClose }: ToastProps) {
   );
 }
 
-export default function GraphVisualization({ data }: GraphVisualizationProps) {
-  const [viewMode, setViewMode] = useState<'graph' | 'json' | 'map' | 'analysis'>('graph');
+export default function GraphVisualization({ data, query, viewMode: controlledViewMode, onViewModeChange }: GraphVisualizationProps) {
+  const [localViewMode, setLocalViewMode] = useState<ResultViewMode>('graph');
+  const viewMode = controlledViewMode ?? localViewMode;
+  const setViewMode = onViewModeChange ?? setLocalViewMode;
   const [graph, setGraph] = useState<Graphology | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
@@ -98,6 +111,13 @@ export default function GraphVisualization({ data }: GraphVisualizationProps) {
 
   // No longer needed: options for react-graph-vis
 
+  const [profileRuns, setProfileRuns] = useState<ProfileRun[]>([]);
+
+  // Record each result's profile once it has rendered
+  useEffect(() => {
+    setProfileRuns(query ? profileHistory.record(query, data) : []);
+  }, [query, data]);
+
   // Process data for graph visualization
   useEffect(() => {
     if (data) {
@@ -399,7 +419,7 @@ export default function GraphVisualization({ data }: GraphVisualizationProps) {
           />
         </div>
         <div className="p-4 h-[calc(100vh-80px)]">
-          <GraphVisualization data={data} />
+          <GraphVisualization data={data} query={query} />
         </div>
       </div>
     );
@@ -417,12 +437,13 @@ export default function GraphVisualization({ data }: GraphVisualizationProps) {
         </div>
       </div>
 
-      <Tabs.Root value={viewMode} onValueChange={(details) => setViewMode(details.value as any)}>
+      <Tabs.Root value={viewMode} onValueChange={(details) => setViewMode(details.value as ResultViewMode)}>
         <Tabs.List>
           <Tabs.Trigger value="graph">Graph View</Tabs.Trigger>
           {hasGeo && <Tabs.Trigger value="map">Map View</Tabs.Trigger>}
           <Tabs.Trigger value="json">JSON View</Tabs.Trigger>
           <Tabs.Trigger value="analysis">Analysis</Tabs.Trigger>
+          <Tabs.Trigger value="profile">Profile</Tabs.Trigger>
         </Tabs.List>
 
         {!data ? (
@@ -541,6 +562,24 @@ export default function GraphVisualization({ data }: GraphVisualizationProps) {
                 </div>
               </div>
             </Tabs.Content>
+
+            <Tabs.Content value="profile">
+              <div
+                className={`border border-gray-300 rounded-md ${isFullscreen ? 'h-[calc(100vh-130px)]' : ''}`}
+                style={{
+                  height: isFullscreen ? undefined : "600px",
+                  minHeight: "500px",
+                  maxHeight: isFullscreen ? undefined : "600px",
+                  overflowY: "auto",
+                  overflowX: "hidden",
+                  position: "relative"
+                }}
+              >
+                <div className="p-4">
+                  <QueryProfiler data={data} runs={profileRuns} />
+                </div>
+              </div>
+            </Tabs.Content>
           </>
         )}
       </Tabs.Root>
@@ -578,6 +617,17 @@ export default function GraphVisualization({ data }: GraphVisualizationProps) {
         </div>
       )}
 
+      {viewMode === 'profile' && (
+        <div className="mt-4 p-4 bg-blue-50 border border-blue-200 rounded-md">
+          <p className="text-sm text-blue-700">
+            <strong>Tip:</strong> Timings come from Dgraph&apos;s server_latency extension and exclude network time.
+          </p>
+          <p className="text-sm text-blue-700 mt-1">
+            Run the same query again to compare its latency across runs.
+          </p>
+        </div>
+      )}
+
       {/* Toast notification */}
       {toast && (
         <Toast
@@ -0,0 +1,53 @@
+'use client';
+
+import React from 'react';
+import { Badge, HStack } from '@chakra-ui/react';
+import { useDgraph } from '@/context/DgraphContext';
+
+/**
+ * Colour badge of the active connection profile with a dropdown to switch profiles
+ */
+export default function ProfileSwitcher() {
+  const { profiles, activeProfile, switchProfile } = useDgraph();
+
+  if (profiles.length === 0) {
+    return null;
+  }
+
+  return (
+    <HStack gap={2}>
+      {activeProfile && (
+        <Badge
+          variant="solid"
+          colorPalette={activeProfile.color}
+          size="sm"
+          borderRadius="full"
+          px={3}
+          py={1}
+          title={activeProfile.settings.endpoint}
+        >
+          {activeProfile.name}
+        </Badge>
+      )}
+      <select
+        value={activeProfile?.id ?? ''}
+        onChange={(e: React.ChangeEvent<HTMLSelectElement>) => switchProfile(e.target.value || null)}
+        aria-label="Connection profile"
+        style={{
+          height: '32px',
+          padding: '0 8px',
+          borderRadius: '6px',
+          border: '1px solid var(--chakra-colors-border-primary)',
+          backgroundColor: 'var(--chakra-colors-bg-primary)',
+          fontSize: '14px',
+          outline: 'none'
+        }}
+      >
+        <option value="">No profile</option>
+        {profiles.map(profile => (
+          <option key={profile.id} value={profile.id}>{profile.name}</option>
+        ))}
+      </select>
+    </HStack>
+  );
+}
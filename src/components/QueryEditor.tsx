@@ -1,10 +1,41 @@
 'use client';
 
-import React, { useState, useRef, useEffect } from 'react';
-import CodeMirror from '@uiw/react-codemirror';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import CodeMirror, { EditorView, keymap } from '@uiw/react-codemirror';
+import { json } from '@codemirror/lang-json';
+import { Diagnostic, lintGutter, setDiagnostics } from '@codemirror/lint';
 import { useDgraph } from '@/context/DgraphContext';
+import DgraphService, { TxnContext } from '@/services/dgraphService';
+import { rdf, isRdfMutation } from '@/utils/rdfLanguage';
+import { dqlLanguage, dqlSyntax } from '@/utils/dqlLanguage';
+import { dqlHover } from '@/utils/dqlHover';
+import { IndexFix, findIndexProblems, getIndexDiagnostics } from '@/utils/dqlIndexLint';
+import { dqlSymbols, findDqlSymbols, getDqlSymbolDiagnostics } from '@/utils/dqlSymbols';
+import { UpsertSummary } from '@/utils/upsertBlock';
+import { DgraphError, getLocationRange } from '@/utils/dgraphError';
+import { diffLines } from '@/utils/lineDiff';
+import { formatDql } from '@/utils/dqlFormatter';
+import { SavedQuery, parseSavedQueries } from '@/utils/savedQueries';
+import { QueryHistoryItem, addHistoryItem, getResultSize, parseQueryHistory } from '@/utils/queryHistory';
+import {
+  QueryDocument,
+  QueryOperation,
+  DEFAULT_QUERY,
+  DEFAULT_MUTATION,
+  DEFAULT_UPSERT,
+  DEFAULT_GRAPHQL,
+  DEFAULT_TEXTS,
+} from '@/utils/queryWorkspace';
+import {
+  GraphQLSchemaInfo,
+  graphql,
+  parseIntrospection,
+  normalizeGraphQLResult,
+  getGraphQLOperationType,
+} from '@/utils/graphqlLanguage';
 import DQLAutocomplete from './DQLAutocomplete';
-import QueryHistory, { QueryHistoryItem } from './QueryHistory';
+import QueryHistory from './QueryHistory';
+import SavedQueries from './SavedQueries';
 import FullscreenToggle from './FullscreenToggle';
 import DQLVariableInputs from './DQLVariableInputs';
 import {
@@ -17,97 +48,214 @@ import {
   Text,
   Alert,
   Flex,
+  Badge,
 } from '@chakra-ui/react';
 import { Icons } from '@/components/ui/icons';
 
 interface QueryEditorProps {
-  onQueryResult: (data: any) => void;
+  // query is set for query runs so results can be profiled across repeated runs
+  onQueryResult: (data: any, query?: string) => void;
   initialQuery?: string;
   compact?: boolean;
+  // Text and variables of a workspace tab; without it the editor keeps its own
+  queryDocument?: QueryDocument;
+  onQueryDocumentChange?: (update: (document: QueryDocument) => QueryDocument) => void;
+  // Quick fix for functions whose predicate lacks the index they need
+  onAddIndex?: (fix: IndexFix) => void;
 }
 
-type TabType = 'query' | 'mutation';
+type TabType = QueryOperation;
+
+const TAB_LABELS: Record<TabType, string> = {
+  query: 'Query',
+  mutation: 'Mutation',
+  upsert: 'Upsert',
+  graphql: 'GraphQL',
+};
+
+// Whether mutations are committed immediately or held in an open transaction
+type CommitMode = 'commit-now' | 'manual';
 
 // Local storage key for query history
 const QUERY_HISTORY_KEY = 'dgraph-client-query-history';
 
-// Default query
-const DEFAULT_QUERY = `{
-  # Enter your DQL query here
-  # Example:
-  # q(func: has(name)) {
-  #   uid
-  #   name
-  # }
-}`;
-
-// Default mutation
-const DEFAULT_MUTATION = `{
-  # Enter your DQL mutation here
-  # Example:
-  # set {
-  #   _:person <name> "John Doe" .
-  #   _:person <age> "30" .
-  # }
-}`;
-
-const QueryEditor = React.forwardRef<any, QueryEditorProps>(function QueryEditor({ onQueryResult, initialQuery, compact = false }, ref) {
+// Local storage key for the saved query library
+const SAVED_QUERIES_KEY = 'dgraph-client-saved-queries';
+
+const QueryEditor = React.forwardRef<any, QueryEditorProps>(function QueryEditor({ onQueryResult, initialQuery, compact = false, queryDocument, onQueryDocumentChange, onAddIndex }, ref) {
   // Ref for DQLAutocomplete's handleInput
   const autocompleteInputRef = useRef<(() => void) | null>(null);
-  const { dgraphService, connected, parsedSchema } = useDgraph();
-  const [activeTab, setActiveTab] = useState<TabType>('query');
-  const [query, setQuery] = useState(DEFAULT_QUERY);
-  const [mutation, setMutation] = useState(DEFAULT_MUTATION);
+  const { dgraphService, connected, parsedSchema, endpoint, profiles, activeProfile } = useDgraph();
+  const [localDocument, setLocalDocument] = useState<QueryDocument>(() => ({
+    id: 'local',
+    operation: 'query',
+    texts: { ...DEFAULT_TEXTS },
+    variables: {},
+    graphqlVariables: '{}',
+    sendAsWritten: false,
+  }));
+  const currentDocument = queryDocument ?? localDocument;
+  const updateDocument = (update: (document: QueryDocument) => QueryDocument) => {
+    if (queryDocument && onQueryDocumentChange) {
+      onQueryDocumentChange(update);
+    } else {
+      setLocalDocument(update);
+    }
+  };
+  const activeTab = currentDocument.operation;
+  const { query, mutation, upsert, graphql: graphqlQuery } = currentDocument.texts;
+  const { graphqlVariables, variables: queryVariables, sendAsWritten } = currentDocument;
+  const setActiveTab = (tab: TabType) => updateDocument(document => ({ ...document, operation: tab }));
+  const setGraphqlVariables = (value: string) => updateDocument(document => ({ ...document, graphqlVariables: value }));
+  const setSendAsWritten = (value: boolean) => updateDocument(document => ({ ...document, sendAsWritten: value }));
+  const setQueryVariables = (variables: Record<string, any>) => updateDocument(document => ({ ...document, variables }));
+  // Introspected /graphql schema for completions and result conversion
+  const [graphqlSchema, setGraphqlSchema] = useState<GraphQLSchemaInfo | null>(null);
+  const [graphqlSchemaError, setGraphqlSchemaError] = useState<string | null>(null);
+  const [upsertSummary, setUpsertSummary] = useState<UpsertSummary | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Structured server error of the last run, shown as an editor diagnostic on the tab that ran
+  const [serverError, setServerError] = useState<{ tab: TabType; error: DgraphError } | null>(null);
+  const [showErrorDetails, setShowErrorDetails] = useState(false);
   const [cursorPosition, setCursorPosition] = useState(0);
   const [queryHistory, setQueryHistory] = useState<QueryHistoryItem[]>([]);
   const [showHistory, setShowHistory] = useState(false);
+  const [savedQueries, setSavedQueries] = useState<SavedQuery[]>([]);
+  const [showSavedQueries, setShowSavedQueries] = useState(false);
+  // Bumped to reset the variable inputs when a saved query brings its own values
+  const [variableInputsVersion, setVariableInputsVersion] = useState(0);
+  // Set by replay; the run starts once the editor shows the replayed operation
+  const [replayPending, setReplayPending] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
-  const [queryVariables, setQueryVariables] = useState<Record<string, any>>({});
+  const [commitMode, setCommitMode] = useState<CommitMode>('commit-now');
+  const [pendingTxn, setPendingTxn] = useState<TxnContext | null>(null);
+  const [isTxnBusy, setIsTxnBusy] = useState(false);
+  const [showQueryDiff, setShowQueryDiff] = useState(false);
   const editorRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const editorViewRef = useRef<EditorView | null>(null);
+  // Latest quick fix handler for the diagnostic actions
+  const onAddIndexRef = useRef(onAddIndex);
+  onAddIndexRef.current = onAddIndex;
+
+  // The DQL being edited, parsed for lint
+  const dqlDocument = useMemo(() => {
+    const text = activeTab === 'query' ? query : activeTab === 'upsert' && isRdfMutation(upsert) ? upsert : null;
+    return text ? { text, tree: dqlLanguage.parser.parse(text) } : null;
+  }, [activeTab, query, upsert]);
+
+  // Functions whose predicate lacks the index they need
+  const indexProblems = useMemo(
+    () => (dqlDocument ? findIndexProblems(dqlDocument.tree, dqlDocument.text, parsedSchema) : []),
+    [dqlDocument, parsedSchema]
+  );
+
+  // Variables and $params defined but unused, or used but undefined
+  const variableDiagnostics = useMemo(
+    () => (dqlDocument ? getDqlSymbolDiagnostics(findDqlSymbols(dqlDocument.tree, dqlDocument.text)) : []),
+    [dqlDocument]
+  );
 
   // Load query history from localStorage on component mount
   useEffect(() => {
-    const loadQueryHistory = () => {
-      try {
-        const savedHistory = localStorage.getItem(QUERY_HISTORY_KEY);
-        if (savedHistory) {
-          const parsedHistory = JSON.parse(savedHistory) as QueryHistoryItem[];
-          setQueryHistory(parsedHistory);
-        }
-      } catch (err) {
-        console.error('Failed to load query history:', err);
-        // If there's an error loading history, reset it
-        localStorage.removeItem(QUERY_HISTORY_KEY);
-      }
-    };
-
-    loadQueryHistory();
+    setQueryHistory(parseQueryHistory(localStorage.getItem(QUERY_HISTORY_KEY)));
+    setSavedQueries(parseSavedQueries(localStorage.getItem(SAVED_QUERIES_KEY)));
   }, []);
   
+  // Underline the reported error location, index problems and variable warnings in the editor while its tab is shown
+  useEffect(() => {
+    const view = editorViewRef.current;
+    if (!view) return;
+
+    const diagnostics: Diagnostic[] = [];
+    const location = serverError?.tab === activeTab ? serverError.error.location : undefined;
+    if (serverError && location) {
+      const { from, to } = getLocationRange(view.state.doc.toString(), location);
+      diagnostics.push({
+        from,
+        to,
+        severity: 'error',
+        source: serverError.error.code,
+        message: serverError.error.message,
+      });
+    }
+    const onAddIndexAction = onAddIndexRef.current && ((fix: IndexFix) => onAddIndexRef.current?.(fix));
+    const length = view.state.doc.length;
+    diagnostics.push(
+      ...[...getIndexDiagnostics(indexProblems, onAddIndexAction), ...variableDiagnostics].filter(diagnostic => diagnostic.to <= length)
+    );
+    view.dispatch(setDiagnostics(view.state, diagnostics));
+  }, [serverError, activeTab, indexProblems, variableDiagnostics]);
+
+  // Run output belongs to the tab that produced it
+  useEffect(() => {
+    setError(null);
+    setServerError(null);
+    setUpsertSummary(null);
+    setShowQueryDiff(false);
+  }, [currentDocument.id]);
+
+  // A pending transaction belongs to the service it was started on
+  useEffect(() => {
+    setPendingTxn(null);
+    setGraphqlSchema(null);
+    setGraphqlSchemaError(null);
+  }, [dgraphService]);
+
+  // Introspect the GraphQL schema the first time the GraphQL tab is opened
+  useEffect(() => {
+    if (activeTab !== 'graphql' || !dgraphService || !connected || graphqlSchema || graphqlSchemaError) return;
+
+    dgraphService.getGraphQLSchema()
+      .then(result => setGraphqlSchema(parseIntrospection(result)))
+      .catch((err: any) => {
+        console.error('GraphQL introspection error:', err);
+        setGraphqlSchemaError(err.message || 'Failed to load the GraphQL schema');
+      });
+  }, [activeTab, dgraphService, connected, graphqlSchema, graphqlSchemaError]);
+
   // Set initial query if provided
   useEffect(() => {
     if (initialQuery && initialQuery !== query) {
-      setQuery(initialQuery);
+      setTabText('query', initialQuery);
     }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [initialQuery, query]);
 
+  const getTabText = (tab: TabType) => {
+    if (tab === 'query') return query;
+    if (tab === 'mutation') return mutation;
+    if (tab === 'graphql') return graphqlQuery;
+    return upsert;
+  };
+
+  const setTabText = (tab: TabType, value: string) => {
+    updateDocument(document => ({ ...document, texts: { ...document.texts, [tab]: value } }));
+  };
+
   // Handle cursor position changes
   const handleEditorChange = (value: string, viewUpdate: any) => {
-    if (activeTab === 'query') {
-      setQuery(value);
-    } else {
-      setMutation(value);
-    }
+    setTabText(activeTab, value);
     setCursorPosition(viewUpdate.state.selection.main.head);
     if (autocompleteInputRef.current) autocompleteInputRef.current();
   };
 
+  // Pretty-print the DQL of the query and upsert tabs; JSON upserts are left as they are
+  const canFormat = activeTab === 'query' || (activeTab === 'upsert' && isRdfMutation(upsert));
+  const handleFormat = () => {
+    if (!canFormat) return;
+    const text = getTabText(activeTab);
+    const formatted = formatDql(text);
+    if (formatted !== text) {
+      setTabText(activeTab, formatted);
+    }
+  };
+
   // Handle suggestion selection
   const handleSuggestionSelect = (suggestion: string) => {
     // Get the current word at cursor
-    const currentText = activeTab === 'query' ? query : mutation;
+    const currentText = getTabText(activeTab);
     const beforeCursor = currentText.substring(0, cursorPosition);
     const afterCursor = currentText.substring(cursorPosition);
     const wordMatch = beforeCursor.match(/[\w]*$/);
@@ -116,11 +264,7 @@ const QueryEditor = React.forwardRef<any, QueryEditorProps>(function QueryEditor
       // Replace the current word with the suggestion
       const wordStart = cursorPosition - wordMatch[0].length;
       const newText = currentText.substring(0, wordStart) + suggestion + afterCursor;
-      if (activeTab === 'query') {
-        setQuery(newText);
-      } else {
-        setMutation(newText);
-      }
+      setTabText(activeTab, newText);
 
       // Update cursor position to end of inserted suggestion
       setCursorPosition(wordStart + suggestion.length);
@@ -136,12 +280,18 @@ const QueryEditor = React.forwardRef<any, QueryEditorProps>(function QueryEditor
     }
   };
 
-  // Add a query/mutation to history
-  const addToHistory = (text: string, type: TabType = 'query') => {
+  // Add a run to history with its outcome
+  const addToHistory = (
+    text: string,
+    type: TabType,
+    run: Pick<QueryHistoryItem, 'status' | 'error' | 'durationMs' | 'resultSize' | 'variables'>
+  ) => {
     // Don't add empty or default queries/mutations to history
     if (!text.trim() ||
         (type === 'query' && text === DEFAULT_QUERY) ||
-        (type === 'mutation' && text === DEFAULT_MUTATION)) return;
+        (type === 'mutation' && text === DEFAULT_MUTATION) ||
+        (type === 'upsert' && text === DEFAULT_UPSERT) ||
+        (type === 'graphql' && text === DEFAULT_GRAPHQL)) return;
 
     // Create a new history item
     const newItem: QueryHistoryItem = {
@@ -149,10 +299,12 @@ const QueryEditor = React.forwardRef<any, QueryEditorProps>(function QueryEditor
       query: text,
       timestamp: Date.now(),
       type: type,
+      endpoint,
+      ...run,
     };
 
-    // Add to history (most recent first) and limit to 50 items
-    const updatedHistory = [newItem, ...queryHistory].slice(0, 50);
+    // Most recent first; a repeat of the latest run updates that entry
+    const updatedHistory = addHistoryItem(queryHistory, newItem);
     setQueryHistory(updatedHistory);
     saveQueryHistory(updatedHistory);
   };
@@ -172,16 +324,61 @@ const QueryEditor = React.forwardRef<any, QueryEditorProps>(function QueryEditor
 
   // Select a query from history
   const handleSelectQuery = (item: QueryHistoryItem) => {
-    if (item.type === 'mutation') {
-      setMutation(item.query);
-      setActiveTab('mutation');
-    } else {
-      setQuery(item.query);
-      setActiveTab('query');
-    }
+    const tab: TabType = item.type ?? 'query';
+    setTabText(tab, item.query);
+    setActiveTab(tab);
     setShowHistory(false);
   };
 
+  // Load a run from history with its original variables and run it again
+  const handleReplayQuery = (item: QueryHistoryItem) => {
+    const tab: TabType = item.type ?? 'query';
+    updateDocument(document => ({
+      ...document,
+      operation: tab,
+      texts: { ...document.texts, [tab]: item.query },
+      ...(tab === 'graphql'
+        ? { graphqlVariables: JSON.stringify(item.variables ?? {}, null, 2) }
+        : { variables: item.variables ?? {} }),
+    }));
+    setVariableInputsVersion(version => version + 1);
+    setReplayPending(true);
+  };
+
+  // Update the saved query library and persist it
+  const handleSavedQueriesChange = (queries: SavedQuery[]) => {
+    setSavedQueries(queries);
+    try {
+      localStorage.setItem(SAVED_QUERIES_KEY, JSON.stringify(queries));
+    } catch (err) {
+      console.error('Failed to save the query library:', err);
+    }
+  };
+
+  // GraphQL variables panel as an object; invalid JSON saves no variables
+  const parseGraphqlVariables = (): Record<string, any> => {
+    try {
+      const parsed = JSON.parse(graphqlVariables || '{}');
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+    } catch {
+      return {};
+    }
+  };
+
+  // Open a saved query in the editor, with its variables
+  const handleLoadSavedQuery = (item: SavedQuery) => {
+    updateDocument(document => ({
+      ...document,
+      operation: item.operation,
+      texts: { ...document.texts, [item.operation]: item.text },
+      ...(item.operation === 'graphql'
+        ? { graphqlVariables: JSON.stringify(item.variables, null, 2) }
+        : { variables: item.variables }),
+    }));
+    setVariableInputsVersion(version => version + 1);
+    setShowSavedQueries(false);
+  };
+
   // Handle variable changes from DQLVariableInputs component
   const handleVariablesChange = (variables: Record<string, any>) => {
     setQueryVariables(variables);
@@ -189,9 +386,12 @@ const QueryEditor = React.forwardRef<any, QueryEditorProps>(function QueryEditor
 
   // Handle vector search query generation
   const handleVectorQueryGenerated = (generatedQuery: string, variables: Record<string, any>) => {
-    setQuery(generatedQuery);
-    setQueryVariables(variables);
-    setActiveTab('query');
+    updateDocument(document => ({
+      ...document,
+      operation: 'query',
+      texts: { ...document.texts, query: generatedQuery },
+      variables,
+    }));
   };
 
   // Expose methods through ref
@@ -199,6 +399,22 @@ const QueryEditor = React.forwardRef<any, QueryEditorProps>(function QueryEditor
     handleVectorQueryGenerated
   }));
 
+  // Predicate and function documentation on hover
+  const schemaHover = useMemo(() => dqlHover(parsedSchema), [parsedSchema]);
+  // Go to definition, usage highlighting and rename of variables
+  const variableNavigation = useMemo(() => dqlSymbols(), []);
+
+  // The query text as it will be sent, for the rewrite diff
+  const sentQuery = useMemo(
+    () => (dgraphService ? dgraphService.ensureUidAndType(query) : query),
+    [dgraphService, query]
+  );
+  const isQueryRewritten = sentQuery !== query;
+  const queryDiff = useMemo(
+    () => (showQueryDiff ? diffLines(query, sentQuery) : []),
+    [showQueryDiff, query, sentQuery]
+  );
+
   const handleRunOperation = async () => {
     if (!dgraphService || !connected) {
       setError('Not connected to Dgraph. Please connect first.');
@@ -207,32 +423,153 @@ const QueryEditor = React.forwardRef<any, QueryEditorProps>(function QueryEditor
 
     setIsLoading(true);
     setError(null);
+    setServerError(null);
+    setShowErrorDetails(false);
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const runText = getTabText(activeTab);
+    const startedAt = Date.now();
+    let runVariables: Record<string, any> | undefined;
 
     try {
       let result;
       const hasVariables = Object.keys(queryVariables).length > 0;
       if (activeTab === 'query') {
+        runVariables = hasVariables ? queryVariables : undefined;
         // Pass variables if they exist
-        result = await dgraphService.query(query, hasVariables ? queryVariables : undefined);
-        // Add successful query to history
-        addToHistory(query, 'query');
+        result = await dgraphService.query(query, hasVariables ? queryVariables : undefined, {
+          signal: controller.signal,
+          raw: sendAsWritten,
+        });
+      } else if (activeTab === 'graphql') {
+        let variables: Record<string, any> | undefined;
+        try {
+          variables = graphqlVariables.trim() ? JSON.parse(graphqlVariables) : undefined;
+        } catch {
+          setError('Variables must be a valid JSON object');
+          return;
+        }
+
+        runVariables = variables;
+        const response = await dgraphService.graphql(graphqlQuery, variables, { signal: controller.signal });
+        // Partial results: show the data and the first error
+        if (response?.errors?.length) {
+          setError(response.errors[0].message);
+        }
+        result = normalizeGraphQLResult(response, graphqlSchema, getGraphQLOperationType(graphqlQuery));
+        addToHistory(graphqlQuery, 'graphql', {
+          status: response?.errors?.length ? 'error' : 'success',
+          error: response?.errors?.[0]?.message,
+          durationMs: Date.now() - startedAt,
+          resultSize: getResultSize(response),
+          variables,
+        });
       } else {
-        // Pass variables if they exist
-        result = await dgraphService.mutate(mutation, hasVariables ? queryVariables : undefined);
-        // Add successful mutation to history
-        addToHistory(mutation, 'mutation');
+        // In manual mode keep the mutation pending in the open transaction (or start one)
+        const txn = commitMode === 'manual' ? (pendingTxn ?? dgraphService.beginTransaction()) : undefined;
+        const options = txn
+          ? { commitNow: false, txn, signal: controller.signal }
+          : { signal: controller.signal };
+
+        if (activeTab === 'upsert') {
+          const { response, summary } = await dgraphService.upsert(upsert, options);
+          result = response;
+          setUpsertSummary(summary);
+        } else {
+          result = await dgraphService.mutate(mutation, options);
+        }
+
+        if (txn) {
+          setPendingTxn({ ...txn });
+        }
+      }
+
+      if (activeTab !== 'graphql') {
+        addToHistory(runText, activeTab, {
+          status: 'success',
+          durationMs: Date.now() - startedAt,
+          resultSize: getResultSize(result),
+          variables: runVariables,
+        });
       }
 
-      onQueryResult(result);
+      onQueryResult(result, activeTab === 'query' ? query : undefined);
     } catch (err: any) {
-      console.error(`${activeTab === 'query' ? 'Query' : 'Mutation'} error:`, err);
-      setError(err.response?.data?.errors?.[0]?.message || err.message || `Failed to execute ${activeTab}`);
-      onQueryResult(null);
+      if (DgraphService.isCancelledError(err)) {
+        setError(`${TAB_LABELS[activeTab]} cancelled`);
+      } else {
+        console.error(`${TAB_LABELS[activeTab]} error:`, err);
+        const message = err.response?.data?.errors?.[0]?.message || err.message || `Failed to execute ${activeTab}`;
+        setError(message);
+        addToHistory(runText, activeTab, {
+          status: 'error',
+          error: message,
+          durationMs: Date.now() - startedAt,
+          variables: runVariables,
+        });
+        if (err instanceof DgraphError) {
+          setServerError({ tab: activeTab, error: err });
+        }
+        onQueryResult(null);
+      }
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   };
 
+  // Run a replayed operation once it is in the editor
+  useEffect(() => {
+    if (replayPending) {
+      setReplayPending(false);
+      handleRunOperation();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [replayPending]);
+
+  // Abort the running request
+  const handleCancelOperation = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleCommitTransaction = async () => {
+    if (!dgraphService || !pendingTxn) return;
+
+    setIsTxnBusy(true);
+    setError(null);
+    try {
+      const result = await dgraphService.commitTransaction(pendingTxn);
+      setPendingTxn(null);
+      if (result) {
+        onQueryResult(result);
+      }
+    } catch (err: any) {
+      console.error('Commit error:', err);
+      setError(err.response?.data?.errors?.[0]?.message || err.message || 'Failed to commit transaction');
+      // A failed commit (e.g. a conflict) aborts the transaction on the server
+      setPendingTxn(null);
+    } finally {
+      setIsTxnBusy(false);
+    }
+  };
+
+  const handleAbortTransaction = async () => {
+    if (!dgraphService || !pendingTxn) return;
+
+    setIsTxnBusy(true);
+    setError(null);
+    try {
+      await dgraphService.discardTransaction(pendingTxn);
+    } catch (err: any) {
+      console.error('Abort error:', err);
+      setError(err.response?.data?.errors?.[0]?.message || err.message || 'Failed to abort transaction');
+    } finally {
+      setPendingTxn(null);
+      setIsTxnBusy(false);
+    }
+  };
+
   return (
     <Card.Root variant="elevated" h="full">
       {/* Header */}
@@ -259,7 +596,45 @@ const QueryEditor = React.forwardRef<any, QueryEditorProps>(function QueryEditor
                 <Text>History</Text>
               </Button>
             )}
+
+            {!compact && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowSavedQueries(!showSavedQueries)}
+                gap={2}
+              >
+                <Icons.bookmark size={16} />
+                <Text>Saved</Text>
+              </Button>
+            )}
             
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleFormat}
+              disabled={!canFormat}
+              title="Format DQL (Shift+Alt+F)"
+              gap={2}
+            >
+              <Icons.zap size={16} />
+              <Text>Format</Text>
+            </Button>
+
+            {isLoading && (
+              <Button
+                onClick={handleCancelOperation}
+                variant="outline"
+                colorPalette="red"
+                size="sm"
+                gap={2}
+                borderRadius="lg"
+              >
+                <Icons.close size={16} />
+                <Text>Cancel</Text>
+              </Button>
+            )}
+
             <Button
               onClick={handleRunOperation}
               loading={isLoading}
@@ -271,7 +646,7 @@ const QueryEditor = React.forwardRef<any, QueryEditorProps>(function QueryEditor
               borderRadius="lg"
             >
               <Icons.play size={16} />
-              <Text>{`Run ${activeTab === 'query' ? 'Query' : 'Mutation'}`}</Text>
+              <Text>{`Run ${TAB_LABELS[activeTab]}`}</Text>
             </Button>
             
             {!compact && (
@@ -286,71 +661,254 @@ const QueryEditor = React.forwardRef<any, QueryEditorProps>(function QueryEditor
 
       {/* Tabs */}
       <HStack borderBottom="1px" borderColor="border.primary" gap={0} px={4}>
-        <Button
-          onClick={() => setActiveTab('query')}
-          variant="ghost"
-          size="sm"
-          color={activeTab === 'query' ? 'accent.primary' : 'fg.secondary'}
-          borderBottom="2px"
-          borderColor={activeTab === 'query' ? 'accent.primary' : 'transparent'}
-          borderRadius="0"
-          _hover={{ 
-            bg: 'transparent',
-            color: activeTab === 'query' ? 'accent.primary' : 'fg.primary'
-          }}
-          px={4}
-          py={3}
-          fontWeight="semibold"
-          gap={2}
-        >
-          <Icons.database size={14} />
-          <Text>Query</Text>
-        </Button>
-        <Button
-          onClick={() => setActiveTab('mutation')}
-          variant="ghost"
-          size="sm"
-          color={activeTab === 'mutation' ? 'accent.primary' : 'fg.secondary'}
-          borderBottom="2px"
-          borderColor={activeTab === 'mutation' ? 'accent.primary' : 'transparent'}
-          borderRadius="0"
-          _hover={{ 
-            bg: 'transparent',
-            color: activeTab === 'mutation' ? 'accent.primary' : 'fg.primary'
-          }}
-          px={4}
-          py={3}
-          fontWeight="semibold"
-          gap={2}
-        >
-          <Icons.settings size={14} />
-          <Text>Mutation</Text>
-        </Button>
+        {([
+          { key: 'query' as const, icon: Icons.database },
+          { key: 'mutation' as const, icon: Icons.settings },
+          { key: 'upsert' as const, icon: Icons.branch },
+          { key: 'graphql' as const, icon: Icons.graphql },
+        ]).map(({ key, icon: TabIcon }) => (
+          <Button
+            key={key}
+            onClick={() => setActiveTab(key)}
+            variant="ghost"
+            size="sm"
+            color={activeTab === key ? 'accent.primary' : 'fg.secondary'}
+            borderBottom="2px"
+            borderColor={activeTab === key ? 'accent.primary' : 'transparent'}
+            borderRadius="0"
+            _hover={{
+              bg: 'transparent',
+              color: activeTab === key ? 'accent.primary' : 'fg.primary'
+            }}
+            px={4}
+            py={3}
+            fontWeight="semibold"
+            gap={2}
+          >
+            <TabIcon size={14} />
+            <Text>{TAB_LABELS[key]}</Text>
+          </Button>
+        ))}
       </HStack>
 
+      {/* Query rewriting controls */}
+      {activeTab === 'query' && (
+        <VStack px={4} py={2} gap={2} align="stretch" borderBottom="1px" borderColor="border.secondary">
+          <HStack gap={3} wrap="wrap">
+            <Text textStyle="body.small">Send:</Text>
+            <HStack gap={1}>
+              <Button
+                size="xs"
+                variant={!sendAsWritten ? 'solid' : 'outline'}
+                onClick={() => setSendAsWritten(false)}
+                title="Add uid and dgraph.type so results can be drawn as a graph"
+              >
+                With uid &amp; dgraph.type
+              </Button>
+              <Button
+                size="xs"
+                variant={sendAsWritten ? 'solid' : 'outline'}
+                onClick={() => setSendAsWritten(true)}
+              >
+                Exactly as written
+              </Button>
+            </HStack>
+
+            {!sendAsWritten && (
+              <HStack gap={2} ml="auto">
+                {isQueryRewritten ? (
+                  <Button size="xs" variant="ghost" onClick={() => setShowQueryDiff(!showQueryDiff)}>
+                    {showQueryDiff ? 'Hide changes' : 'Show changes'}
+                  </Button>
+                ) : (
+                  <Text textStyle="helper">Query is sent unchanged</Text>
+                )}
+              </HStack>
+            )}
+          </HStack>
+
+          {!sendAsWritten && isQueryRewritten && showQueryDiff && (
+            <Flex gap={2} fontSize="xs" fontFamily="mono" maxH="240px" overflowY="auto">
+              {([
+                { title: 'Written', lines: queryDiff.filter(line => line.type !== 'added'), changed: 'removed', bg: 'red.50' },
+                { title: 'Sent', lines: queryDiff.filter(line => line.type !== 'removed'), changed: 'added', bg: 'green.50' },
+              ] as const).map(({ title, lines, changed, bg }) => (
+                <Box key={title} flex={1} minW={0} border="1px" borderColor="border.secondary" borderRadius="md" overflow="hidden">
+                  <Text px={2} py={1} bg="bg.muted" fontFamily="body" textStyle="label">{title}</Text>
+                  {lines.map((line, index) => (
+                    <Box key={index} as="pre" px={2} whiteSpace="pre-wrap" bg={line.type === changed ? bg : undefined}>
+                      {line.text || ' '}
+                    </Box>
+                  ))}
+                </Box>
+              ))}
+            </Flex>
+          )}
+        </VStack>
+      )}
+
+      {/* Transaction controls for mutations */}
+      {(activeTab === 'mutation' || activeTab === 'upsert') && (
+        <HStack px={4} py={2} gap={3} borderBottom="1px" borderColor="border.secondary" wrap="wrap">
+          <Text textStyle="body.small">Commit mode:</Text>
+          <HStack gap={1}>
+            <Button
+              size="xs"
+              variant={commitMode === 'commit-now' ? 'solid' : 'outline'}
+              onClick={() => setCommitMode('commit-now')}
+              disabled={!!pendingTxn}
+            >
+              Commit now
+            </Button>
+            <Button
+              size="xs"
+              variant={commitMode === 'manual' ? 'solid' : 'outline'}
+              onClick={() => setCommitMode('manual')}
+            >
+              Manual commit
+            </Button>
+          </HStack>
+
+          {pendingTxn && (
+            <HStack gap={2} ml="auto">
+              <Badge colorPalette="orange" variant="subtle" title={pendingTxn.preds.join(', ')}>
+                {`Pending transaction · start_ts ${pendingTxn.startTs} · ${pendingTxn.keys.length} keys`}
+              </Badge>
+              <Button
+                size="xs"
+                colorPalette="green"
+                onClick={handleCommitTransaction}
+                loading={isTxnBusy}
+              >
+                Commit
+              </Button>
+              <Button
+                size="xs"
+                variant="outline"
+                colorPalette="red"
+                onClick={handleAbortTransaction}
+                disabled={isTxnBusy}
+              >
+                Abort
+              </Button>
+            </HStack>
+          )}
+        </HStack>
+      )}
+
       {error && (
         <Box p={4}>
           <Alert.Root status="error" variant="subtle" borderRadius="lg">
             <Alert.Indicator />
             <Alert.Content>
               <Text textStyle="body.medium">{error}</Text>
+              {serverError && (
+                <VStack align="stretch" gap={2} mt={2}>
+                  <HStack gap={2}>
+                    <Badge colorPalette="red" variant="subtle" size="sm">{serverError.error.code}</Badge>
+                    {serverError.error.location && (
+                      <Text textStyle="body.small">
+                        {`Line ${serverError.error.location.line}, column ${serverError.error.location.column}`}
+                      </Text>
+                    )}
+                    <Button
+                      size="xs"
+                      variant="ghost"
+                      onClick={() => setShowErrorDetails(!showErrorDetails)}
+                    >
+                      {showErrorDetails ? 'Hide details' : 'Details'}
+                    </Button>
+                  </HStack>
+                  {showErrorDetails && (
+                    <Box
+                      as="pre"
+                      fontSize="xs"
+                      fontFamily="mono"
+                      whiteSpace="pre-wrap"
+                      maxH="200px"
+                      overflowY="auto"
+                      p={2}
+                      bg="bg.muted"
+                      borderRadius="md"
+                    >
+                      {serverError.error.serverResponse !== undefined
+                        ? JSON.stringify(serverError.error.serverResponse, null, 2)
+                        : serverError.error.errors.map(entry => entry.message).join('\n')}
+                    </Box>
+                  )}
+                </VStack>
+              )}
             </Alert.Content>
           </Alert.Root>
         </Box>
       )}
 
 
+      {activeTab === 'upsert' && upsertSummary && (
+        <Box px={4} pt={4}>
+          <Box border="1px" borderColor="border.secondary" borderRadius="lg" p={3} bg="bg.muted">
+            <VStack align="stretch" gap={2}>
+              <Text textStyle="label">Upsert result</Text>
+              {upsertSummary.mutations.map((outcome) => (
+                <HStack key={outcome.index} gap={2}>
+                  <Badge
+                    colorPalette={outcome.fired === null ? 'gray' : outcome.fired ? 'green' : 'gray'}
+                    variant={outcome.fired ? 'solid' : 'subtle'}
+                  >
+                    {outcome.fired === null ? 'Unknown' : outcome.fired ? 'Fired' : 'Skipped'}
+                  </Badge>
+                  <Text textStyle="body.small">
+                    {`Mutation ${outcome.index + 1}`}
+                    {outcome.cond && <Box as="code" textStyle="code.inline" ml={2}>{outcome.cond}</Box>}
+                  </Text>
+                </HStack>
+              ))}
+              {Object.entries(upsertSummary.matched).map(([name, match]) => (
+                <Text key={name} textStyle="body.small">
+                  {`Matched ${name}: ${match.count} uid${match.count === 1 ? '' : 's'}`}
+                  {match.uids.length > 0 && ` (${match.uids.join(', ')}${match.count > match.uids.length ? ', …' : ''})`}
+                </Text>
+              ))}
+              {Object.entries(upsertSummary.created).map(([blankNode, uid]) => (
+                <Text key={blankNode} textStyle="body.small">
+                  {`Created _:${blankNode} → ${uid}`}
+                </Text>
+              ))}
+            </VStack>
+          </Box>
+        </Box>
+      )}
+
       {showHistory && !compact && (
         <Box p={4} borderBottom="1px" borderColor="border.secondary">
           <QueryHistory
             history={queryHistory}
             onSelectQuery={handleSelectQuery}
+            onReplayQuery={handleReplayQuery}
+            endpoint={endpoint}
             onClearHistory={handleClearHistory}
             onDeleteQuery={handleDeleteQuery}
           />
         </Box>
       )}
 
+      {showSavedQueries && !compact && (
+        <Box p={4} borderBottom="1px" borderColor="border.secondary">
+          <SavedQueries
+            queries={savedQueries}
+            onChange={handleSavedQueriesChange}
+            onLoad={handleLoadSavedQuery}
+            draft={{
+              operation: activeTab,
+              text: getTabText(activeTab),
+              variables: activeTab === 'graphql' ? parseGraphqlVariables() : queryVariables,
+            }}
+            connection={{ profileId: activeProfile?.id ?? null, endpoint }}
+            profiles={profiles}
+          />
+        </Box>
+      )}
+
       <Box position="relative" flex={1} p={4}>
         <Box
           layerStyle="code-editor"
@@ -359,9 +917,20 @@ const QueryEditor = React.forwardRef<any, QueryEditorProps>(function QueryEditor
           className="cm-editor-container"
         >
           <CodeMirror
-            value={activeTab === 'query' ? query : mutation}
+            value={getTabText(activeTab)}
             height="100%"
             onChange={handleEditorChange}
+            extensions={[
+              ...(activeTab === 'query' ? [dqlSyntax(), schemaHover, variableNavigation] :
+                activeTab === 'graphql' ? graphql(graphqlSchema) :
+                !isRdfMutation(getTabText(activeTab)) ? [json()] :
+                activeTab === 'upsert' ? [dqlSyntax(), schemaHover, variableNavigation] : rdf()),
+              lintGutter(),
+              keymap.of([{ key: 'Shift-Alt-f', run: () => { handleFormat(); return canFormat; } }]),
+            ]}
+            onCreateEditor={(view) => {
+              editorViewRef.current = view;
+            }}
             theme="light"
             className="text-sm cm-editor"
             style={{ height: '100%' }}
@@ -369,10 +938,35 @@ const QueryEditor = React.forwardRef<any, QueryEditorProps>(function QueryEditor
         </Box>
 
         {/* Variable inputs */}
-        <DQLVariableInputs
-          query={activeTab === 'query' ? query : mutation}
-          onChange={handleVariablesChange}
-        />
+        {activeTab === 'graphql' ? (
+          <VStack align="stretch" gap={1} mt={3}>
+            <HStack justify="space-between">
+              <Text textStyle="label">Variables (JSON)</Text>
+              {graphqlSchemaError ? (
+                <Text textStyle="helper" color="fg.error">{`No completions: ${graphqlSchemaError}`}</Text>
+              ) : graphqlSchema && (
+                <Text textStyle="helper">{`${Object.keys(graphqlSchema.types).length} types introspected`}</Text>
+              )}
+            </HStack>
+            <Box layerStyle="code-editor" overflow="hidden">
+              <CodeMirror
+                value={graphqlVariables}
+                height="80px"
+                onChange={setGraphqlVariables}
+                extensions={[json()]}
+                theme="light"
+                className="text-sm cm-editor"
+              />
+            </Box>
+          </VStack>
+        ) : (
+          <DQLVariableInputs
+            key={`${currentDocument.id}:${variableInputsVersion}`}
+            query={getTabText(activeTab)}
+            initialValues={queryVariables}
+            onChange={handleVariablesChange}
+          />
+        )}
         
         <Box
           ref={editorRef}
@@ -406,6 +1000,9 @@ const QueryEditor = React.forwardRef<any, QueryEditorProps>(function QueryEditor
           <Text textStyle="helper">
             Example: <Box as="code" textStyle="code.inline">{`{ q(func: has(name)) { uid name } }`}</Box>
           </Text>
+          <Text textStyle="helper">
+            Press <Box as="code" textStyle="code.inline">Shift+Alt+F</Box> to format the query.
+          </Text>
         </VStack>
       </Box>
     </Card.Root>
@@ -1,6 +1,6 @@
 'use client';
 
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   Box,
   Card,
@@ -12,28 +12,45 @@ import {
   IconButton,
 } from '@chakra-ui/react';
 import { useColorModeValue } from '@/components/ui/color-mode';
+import { Icons } from '@/components/ui/icons';
+import { QueryHistoryItem, filterQueryHistory } from '@/utils/queryHistory';
+import { formatBytes } from '@/utils/clusterState';
+import { formatDuration } from '@/utils/queryProfile';
 
-export interface QueryHistoryItem {
-  id: string;
-  query: string;
-  timestamp: number;
-  description?: string;
-  type?: 'query' | 'mutation';
-}
+export type { QueryHistoryItem } from '@/utils/queryHistory';
 
 interface QueryHistoryProps {
   history: QueryHistoryItem[];
   onSelectQuery: (item: QueryHistoryItem) => void;
+  // Load the operation with its original variables and run it
+  onReplayQuery: (item: QueryHistoryItem) => void;
   onClearHistory: () => void;
   onDeleteQuery: (id: string) => void;
+  // Endpoint of the current connection, for the "This connection" filter
+  endpoint: string;
 }
 
 export default function QueryHistory({
   history,
   onSelectQuery,
+  onReplayQuery,
   onClearHistory,
-  onDeleteQuery
+  onDeleteQuery,
+  endpoint
 }: QueryHistoryProps) {
+  const [failedOnly, setFailedOnly] = useState(false);
+  const [mutationsOnly, setMutationsOnly] = useState(false);
+  const [currentConnectionOnly, setCurrentConnectionOnly] = useState(false);
+
+  const visibleHistory = useMemo(
+    () => filterQueryHistory(history, {
+      failedOnly,
+      mutationsOnly,
+      endpoint: currentConnectionOnly ? endpoint : null,
+    }),
+    [history, failedOnly, mutationsOnly, currentConnectionOnly, endpoint]
+  );
+
   // Color mode values
   const bgColor = useColorModeValue('gray.50', 'gray.700');
   const borderColor = useColorModeValue('gray.300', 'gray.600');
@@ -50,6 +67,18 @@ export default function QueryHistory({
     return new Date(timestamp).toLocaleString();
   };
 
+  // Duration, result size and repeat count of a run, when recorded
+  const formatRunDetails = (item: QueryHistoryItem) => {
+    const details = [formatDate(item.timestamp)];
+    if (item.durationMs !== undefined) details.push(formatDuration(item.durationMs * 1e6));
+    if (item.resultSize) details.push(formatBytes(item.resultSize));
+    const variableCount = Object.keys(item.variables ?? {}).length;
+    if (variableCount > 0) details.push(`${variableCount} variable${variableCount === 1 ? '' : 's'}`);
+    if (item.runCount && item.runCount > 1) details.push(`run ${item.runCount}×`);
+    if (item.endpoint && item.endpoint !== endpoint) details.push(item.endpoint);
+    return details.join(' · ');
+  };
+
   // Truncate query for display
   const truncateQuery = (query: string, maxLength = 50) => {
     return query.length > maxLength
@@ -75,13 +104,36 @@ export default function QueryHistory({
           </Button>
         </HStack>
 
+        <HStack gap={4} wrap="wrap">
+          <HStack as="label" gap={2}>
+            <input type="checkbox" checked={failedOnly} onChange={(e) => setFailedOnly(e.target.checked)} />
+            <Text textStyle="body.small">Failed only</Text>
+          </HStack>
+          <HStack as="label" gap={2}>
+            <input type="checkbox" checked={mutationsOnly} onChange={(e) => setMutationsOnly(e.target.checked)} />
+            <Text textStyle="body.small">Mutations only</Text>
+          </HStack>
+          <HStack as="label" gap={2}>
+            <input
+              type="checkbox"
+              checked={currentConnectionOnly}
+              onChange={(e) => setCurrentConnectionOnly(e.target.checked)}
+            />
+            <Text textStyle="body.small">This connection</Text>
+          </HStack>
+        </HStack>
+
         {history.length === 0 ? (
           <Text color={mutedTextColor}>
             No operation history yet. Run queries or mutations to see them here.
           </Text>
+        ) : visibleHistory.length === 0 ? (
+          <Text color={mutedTextColor}>
+            No operations match the filters.
+          </Text>
         ) : (
           <VStack gap={2} maxH="60" overflowY="auto">
-            {history.map((item) => (
+            {visibleHistory.map((item) => (
               <Box
                 key={item.id}
                 border="1px"
@@ -95,7 +147,31 @@ export default function QueryHistory({
                 <HStack justify="space-between" align="start">
                   <Box flex={1} mr={2}>
                     <HStack align="center" mb={1}>
-                      {item.type === 'mutation' ? (
+                      {item.type === 'upsert' ? (
+                        <Box
+                          as="span"
+                          px={2}
+                          py={1}
+                          fontSize="xs"
+                          borderRadius="md"
+                          bg="orange.100"
+                          color="orange.800"
+                        >
+                          Upsert
+                        </Box>
+                      ) : item.type === 'graphql' ? (
+                        <Box
+                          as="span"
+                          px={2}
+                          py={1}
+                          fontSize="xs"
+                          borderRadius="md"
+                          bg="pink.100"
+                          color="pink.800"
+                        >
+                          GraphQL
+                        </Box>
+                      ) : item.type === 'mutation' ? (
                         <Box
                           as="span"
                           px={2}
@@ -131,9 +207,25 @@ export default function QueryHistory({
                       </Text>
                     </HStack>
                     <Text fontSize="xs" color={mutedTextColor}>
-                      {formatDate(item.timestamp)}
+                      {formatRunDetails(item)}
                     </Text>
+                    {item.status === 'error' && (
+                      <Text fontSize="xs" color={deleteButtonHoverColor} truncate title={item.error}>
+                        {`Failed${item.error ? `: ${item.error}` : ''}`}
+                      </Text>
+                    )}
                   </Box>
+                  <IconButton
+                    onClick={() => onReplayQuery(item)}
+                    variant="ghost"
+                    size="sm"
+                    color={deleteButtonColor}
+                    _hover={{ color: 'blue.600' }}
+                    title="Run again with the same variables"
+                    aria-label="Replay operation"
+                  >
+                    <Icons.play size={16} />
+                  </IconButton>
                   <IconButton
                     onClick={() => onDeleteQuery(item.id)}
                     variant="ghost"
@@ -0,0 +1,164 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import {
+  Box,
+  VStack,
+  HStack,
+  Text,
+  Heading,
+  Card,
+  Badge,
+  Flex,
+} from '@chakra-ui/react';
+import {
+  ProfileRun,
+  extractQueryProfile,
+  formatDuration,
+  summarizeProfileRuns,
+} from '@/utils/queryProfile';
+
+interface QueryProfilerProps {
+  data: any;
+  // Earlier runs of the same query, oldest first (including this one)
+  runs?: ProfileRun[];
+}
+
+const PHASE_COLORS: Record<string, string> = {
+  assignTimestamp: 'purple.400',
+  parsing: 'blue.400',
+  processing: 'orange.400',
+  encoding: 'green.400',
+};
+
+export default function QueryProfiler({ data, runs = [] }: QueryProfilerProps) {
+  const profile = useMemo(() => extractQueryProfile(data), [data]);
+  const stats = useMemo(() => summarizeProfileRuns(runs), [runs]);
+
+  if (!profile) {
+    return (
+      <Box textAlign="center" py={8}>
+        <Text textStyle="body.medium" color="fg.muted">
+          No profiling data in this response
+        </Text>
+        <Text textStyle="body.small" color="fg.muted" mt={2}>
+          Dgraph reports server latency in extensions.server_latency for queries and mutations
+        </Text>
+      </Box>
+    );
+  }
+
+  const uidCounts = Object.entries(profile.numUids)
+    .filter(([predicate]) => predicate !== '_total')
+    .sort(([, a], [, b]) => b - a);
+  const maxUids = Math.max(1, ...uidCounts.map(([, count]) => count));
+  const maxRunNs = Math.max(1, ...runs.map(run => run.profile.totalNs));
+
+  // Waterfall offsets: each phase starts where the previous one ended
+  let offsetNs = 0;
+  const waterfall = profile.phases.map(phase => {
+    const start = offsetNs;
+    offsetNs += phase.ns;
+    return { ...phase, start };
+  });
+  const scaleNs = Math.max(profile.totalNs, offsetNs, 1);
+
+  return (
+    <VStack gap={4} align="stretch">
+      <Flex justify="space-between" align="center">
+        <Heading textStyle="heading.card">Query Profile</Heading>
+        <HStack gap={2}>
+          {profile.startTs !== undefined && (
+            <Badge variant="subtle" size="sm">{`start_ts ${profile.startTs}`}</Badge>
+          )}
+          <Badge variant="subtle" colorPalette="blue" size="sm">
+            {`Total ${formatDuration(profile.totalNs)}`}
+          </Badge>
+        </HStack>
+      </Flex>
+
+      {/* Timing waterfall */}
+      <Card.Root variant="outline" p={4}>
+        <Text fontWeight="medium" mb={3}>Server latency</Text>
+        <VStack gap={2} align="stretch">
+          {waterfall.map(phase => (
+            <Flex key={phase.key} align="center" gap={3}>
+              <Text fontSize="xs" minW="120px" color="fg.muted">{phase.label}</Text>
+              <Box flex={1} position="relative" height="18px" bg="bg.muted" borderRadius="2px">
+                <Box
+                  position="absolute"
+                  top={0}
+                  bottom={0}
+                  left={`${(phase.start / scaleNs) * 100}%`}
+                  width={`${Math.max((phase.ns / scaleNs) * 100, 0.5)}%`}
+                  bg={PHASE_COLORS[phase.key]}
+                  borderRadius="2px"
+                  title={`${phase.label}: ${formatDuration(phase.ns)}`}
+                />
+              </Box>
+              <Text fontSize="xs" minW="80px" textAlign="right">{formatDuration(phase.ns)}</Text>
+            </Flex>
+          ))}
+        </VStack>
+      </Card.Root>
+
+      {/* Per-predicate uid counts */}
+      <Card.Root variant="outline" p={4}>
+        <Flex justify="space-between" align="center" mb={3}>
+          <Text fontWeight="medium">Uids touched per predicate</Text>
+          {profile.numUids._total !== undefined && (
+            <Text fontSize="sm" color="fg.muted">{`Total: ${profile.numUids._total}`}</Text>
+          )}
+        </Flex>
+        {uidCounts.length === 0 ? (
+          <Text fontSize="sm" color="fg.muted">No per-predicate metrics in this response</Text>
+        ) : (
+          <VStack gap={1} align="stretch">
+            {uidCounts.map(([predicate, count]) => (
+              <Flex key={predicate} align="center" gap={3}>
+                <Text fontSize="xs" minW="120px" fontFamily="mono" title={predicate}>
+                  {predicate.length > 20 ? predicate.substring(0, 20) + '...' : predicate}
+                </Text>
+                <Box flex={1} height="16px" bg="blue.100" borderRadius="2px" overflow="hidden">
+                  <Box height="100%" bg="blue.500" width={`${(count / maxUids) * 100}%`} />
+                </Box>
+                <Text fontSize="xs" minW="60px" textAlign="right">{count}</Text>
+              </Flex>
+            ))}
+          </VStack>
+        )}
+      </Card.Root>
+
+      {/* Repeated runs of the same query */}
+      {stats && stats.runs > 1 && (
+        <Card.Root variant="outline" p={4}>
+          <Flex justify="space-between" align="center" mb={3}>
+            <Text fontWeight="medium">{`Last ${stats.runs} runs of this query`}</Text>
+            {stats.deltaNs !== null && (
+              <Badge variant="subtle" size="sm" colorPalette={stats.deltaNs > 0 ? 'red' : 'green'}>
+                {`${stats.deltaNs > 0 ? '+' : '-'}${formatDuration(Math.abs(stats.deltaNs))} vs previous`}
+              </Badge>
+            )}
+          </Flex>
+          <HStack gap={4} fontSize="sm" color="fg.muted" mb={3}>
+            <Text>{`Min: ${formatDuration(stats.minNs)}`}</Text>
+            <Text>{`Avg: ${formatDuration(Math.round(stats.avgNs))}`}</Text>
+            <Text>{`Max: ${formatDuration(stats.maxNs)}`}</Text>
+          </HStack>
+          <Flex align="end" gap={1} height="60px">
+            {runs.map((run, index) => (
+              <Box
+                key={`${run.timestamp}-${index}`}
+                flex={1}
+                bg={index === runs.length - 1 ? 'blue.500' : 'blue.200'}
+                height={`${Math.max((run.profile.totalNs / maxRunNs) * 100, 2)}%`}
+                borderRadius="2px"
+                title={`${new Date(run.timestamp).toLocaleTimeString()}: ${formatDuration(run.profile.totalNs)}, ${run.profile.numUids._total ?? 0} uids`}
+              />
+            ))}
+          </Flex>
+        </Card.Root>
+      )}
+    </VStack>
+  );
+}
@@ -0,0 +1,122 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Box, HStack, IconButton, Input, Text } from '@chakra-ui/react';
+import { Icons } from '@/components/ui/icons';
+import { WorkspaceTab, isTabDirty } from '@/utils/queryWorkspace';
+
+interface QueryWorkspaceTabsProps {
+  tabs: WorkspaceTab[];
+  activeTabId: string;
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  onRename: (id: string, name: string) => void;
+  onClose: (id: string) => void;
+}
+
+/**
+ * Editor tab strip of the query workspace. Double-click a tab to rename it;
+ * a dot marks tabs edited since they last ran.
+ */
+export default function QueryWorkspaceTabs({
+  tabs,
+  activeTabId,
+  onSelect,
+  onAdd,
+  onRename,
+  onClose,
+}: QueryWorkspaceTabsProps) {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startRename = (tab: WorkspaceTab) => {
+    setRenamingId(tab.id);
+    setDraftName(tab.name);
+  };
+
+  const finishRename = () => {
+    if (renamingId && draftName.trim()) {
+      onRename(renamingId, draftName.trim());
+    }
+    setRenamingId(null);
+  };
+
+  const handleClose = (tab: WorkspaceTab) => {
+    if (isTabDirty(tab) && !window.confirm(`Close "${tab.name}"? Its edits since the last run will be lost.`)) {
+      return;
+    }
+    onClose(tab.id);
+  };
+
+  return (
+    <HStack gap={1} overflowX="auto" role="tablist" aria-label="Query tabs">
+      {tabs.map(tab => {
+        const isActive = tab.id === activeTabId;
+        const dirty = isTabDirty(tab);
+        return (
+          <HStack
+            key={tab.id}
+            role="tab"
+            aria-selected={isActive}
+            gap={1}
+            pl={3}
+            pr={1}
+            py={1}
+            flexShrink={0}
+            borderRadius="md"
+            border="1px"
+            borderColor={isActive ? 'accent.primary' : 'border.primary'}
+            bg={isActive ? 'bg.primary' : 'bg.muted'}
+            cursor="pointer"
+            onClick={() => onSelect(tab.id)}
+            onDoubleClick={() => startRename(tab)}
+            title="Double-click to rename"
+          >
+            {renamingId === tab.id ? (
+              <Input
+                size="xs"
+                w="140px"
+                autoFocus
+                value={draftName}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDraftName(e.target.value)}
+                onBlur={finishRename}
+                onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+                  if (e.key === 'Enter') finishRename();
+                  if (e.key === 'Escape') setRenamingId(null);
+                }}
+                aria-label="Tab name"
+              />
+            ) : (
+              <Text
+                textStyle="body.small"
+                fontWeight={isActive ? 'semibold' : 'normal'}
+                color={isActive ? 'fg.primary' : 'fg.secondary'}
+                maxW="180px"
+                truncate
+              >
+                {tab.name}
+              </Text>
+            )}
+            <Box w="8px" color="accent.primary" fontSize="xs" aria-label={dirty ? 'Edited since last run' : undefined}>
+              {dirty ? '●' : ''}
+            </Box>
+            <IconButton
+              size="2xs"
+              variant="ghost"
+              aria-label={`Close ${tab.name}`}
+              onClick={(e: React.MouseEvent) => {
+                e.stopPropagation();
+                handleClose(tab);
+              }}
+            >
+              <Icons.close size={12} />
+            </IconButton>
+          </HStack>
+        );
+      })}
+      <IconButton size="xs" variant="ghost" aria-label="New query tab" onClick={onAdd} flexShrink={0}>
+        <Icons.plus size={14} />
+      </IconButton>
+    </HStack>
+  );
+}
@@ -0,0 +1,325 @@
+'use client';
+
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  Field,
+  Heading,
+  HStack,
+  IconButton,
+  Input,
+  Text,
+  VStack,
+} from '@chakra-ui/react';
+import { Icons } from '@/components/ui/icons';
+import { ConnectionProfile } from '@/utils/connectionProfiles';
+import { QueryOperation } from '@/utils/queryWorkspace';
+import {
+  SavedQuery,
+  SavedQueryConnection,
+  SavedQueryInput,
+  exportSavedQueries,
+  getFolders,
+  groupByFolder,
+  importSavedQueries,
+  matchesConnection,
+  parseTags,
+  saveQuery,
+  searchSavedQueries,
+} from '@/utils/savedQueries';
+
+const OPERATION_LABELS: Record<QueryOperation, string> = {
+  query: 'Query',
+  mutation: 'Mutation',
+  upsert: 'Upsert',
+  graphql: 'GraphQL',
+};
+
+interface SavedQueriesProps {
+  queries: SavedQuery[];
+  onChange: (queries: SavedQuery[]) => void;
+  onLoad: (query: SavedQuery) => void;
+  // What the editor currently shows, offered by the save form
+  draft: Pick<SavedQueryInput, 'operation' | 'text' | 'variables'>;
+  connection: SavedQueryConnection;
+  profiles: ConnectionProfile[];
+}
+
+/**
+ * Library of named queries, grouped by folder. Saving under an existing
+ * name and folder replaces that entry.
+ */
+export default function SavedQueries({
+  queries,
+  onChange,
+  onLoad,
+  draft,
+  connection,
+  profiles,
+}: SavedQueriesProps) {
+  const [search, setSearch] = useState('');
+  const [currentConnectionOnly, setCurrentConnectionOnly] = useState(false);
+  const [name, setName] = useState('');
+  const [folder, setFolder] = useState('');
+  const [tags, setTags] = useState('');
+  const [description, setDescription] = useState('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const groups = useMemo(() => {
+    const visible = currentConnectionOnly
+      ? queries.filter(query => matchesConnection(query, connection))
+      : queries;
+    return groupByFolder(searchSavedQueries(visible, search));
+  }, [queries, search, currentConnectionOnly, connection]);
+
+  const folders = useMemo(() => getFolders(queries), [queries]);
+
+  const getConnectionLabel = (query: SavedQuery) => {
+    if (!query.connection) {
+      return 'Any connection';
+    }
+    const profile = profiles.find(entry => entry.id === query.connection?.profileId);
+    return profile ? profile.name : query.connection.endpoint;
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    onChange(saveQuery(queries, {
+      ...draft,
+      name,
+      folder,
+      description,
+      tags: parseTags(tags),
+      connection,
+    }));
+    setMessage({ text: `Saved "${name.trim()}"`, isError: false });
+  };
+
+  // Fill the form from an entry so it can be saved again under the same name
+  const handleEdit = (query: SavedQuery) => {
+    setName(query.name);
+    setFolder(query.folder);
+    setTags(query.tags.join(', '));
+    setDescription(query.description);
+  };
+
+  const handleToggleStar = (id: string) => {
+    onChange(queries.map(query => (query.id === id ? { ...query, starred: !query.starred } : query)));
+  };
+
+  const handleDelete = (query: SavedQuery) => {
+    if (!window.confirm(`Delete the saved query "${query.name}"?`)) return;
+    onChange(queries.filter(entry => entry.id !== query.id));
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportSavedQueries(queries)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'dgraph-saved-queries.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const result = importSavedQueries(await file.text(), queries);
+      onChange(result.queries);
+      setMessage({ text: `Imported ${result.added} new and ${result.updated} updated queries`, isError: false });
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Import failed', isError: true });
+    }
+  };
+
+  return (
+    <Card.Root variant="outline" p={4}>
+      <VStack gap={4} align="stretch">
+        <HStack justify="space-between" align="center">
+          <Heading as="h3" textStyle="heading.card">
+            Saved Queries
+          </Heading>
+          <HStack gap={1}>
+            <Button size="xs" variant="ghost" gap={1} onClick={() => fileInputRef.current?.click()}>
+              <Icons.upload size={14} />
+              <Text>Import</Text>
+            </Button>
+            <Button size="xs" variant="ghost" gap={1} onClick={handleExport} disabled={queries.length === 0}>
+              <Icons.download size={14} />
+              <Text>Export</Text>
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImport}
+              style={{ display: 'none' }}
+            />
+          </HStack>
+        </HStack>
+
+        {/* Save form */}
+        <VStack gap={2} align="stretch">
+          <HStack gap={2} align="end">
+            <Field.Root flex={2}>
+              <Field.Label textStyle="label">Name</Field.Label>
+              <Input size="sm" value={name} onChange={(e) => setName(e.target.value)} placeholder="People by name" />
+            </Field.Root>
+            <Field.Root flex={1}>
+              <Field.Label textStyle="label">Folder</Field.Label>
+              <Input
+                size="sm"
+                value={folder}
+                onChange={(e) => setFolder(e.target.value)}
+                placeholder="Reports"
+                list="saved-query-folders"
+              />
+              <datalist id="saved-query-folders">
+                {folders.map(entry => <option key={entry} value={entry} />)}
+              </datalist>
+            </Field.Root>
+            <Field.Root flex={1}>
+              <Field.Label textStyle="label">Tags</Field.Label>
+              <Input size="sm" value={tags} onChange={(e) => setTags(e.target.value)} placeholder="people, daily" />
+            </Field.Root>
+          </HStack>
+          <HStack gap={2}>
+            <Input
+              size="sm"
+              flex={1}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Description (optional)"
+              aria-label="Description"
+            />
+            <Button size="sm" colorPalette="blue" gap={1} onClick={handleSave} disabled={!name.trim()}>
+              <Icons.bookmark size={14} />
+              <Text>{`Save ${OPERATION_LABELS[draft.operation]}`}</Text>
+            </Button>
+          </HStack>
+          {message && (
+            <Text textStyle="body.small" color={message.isError ? 'red.500' : 'fg.secondary'}>
+              {message.text}
+            </Text>
+          )}
+        </VStack>
+
+        {/* Search */}
+        <HStack gap={3}>
+          <Box position="relative" flex={1}>
+            <Box position="absolute" left={2} top="50%" transform="translateY(-50%)" color="fg.tertiary" pointerEvents="none">
+              <Icons.search size={14} />
+            </Box>
+            <Input
+              size="sm"
+              pl={7}
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search names, text, folders or #tags"
+              aria-label="Search saved queries"
+            />
+          </Box>
+          <HStack as="label" gap={2} flexShrink={0}>
+            <input
+              type="checkbox"
+              checked={currentConnectionOnly}
+              onChange={(e) => setCurrentConnectionOnly(e.target.checked)}
+            />
+            <Text textStyle="body.small">This connection only</Text>
+          </HStack>
+        </HStack>
+
+        {/* Library */}
+        {queries.length === 0 ? (
+          <Text textStyle="body.small" color="fg.secondary">
+            No saved queries yet. Name the current operation above to save it.
+          </Text>
+        ) : groups.length === 0 ? (
+          <Text textStyle="body.small" color="fg.secondary">
+            No saved queries match.
+          </Text>
+        ) : (
+          <VStack gap={3} align="stretch" maxH="80" overflowY="auto">
+            {groups.map(group => (
+              <VStack key={group.folder || '(unfiled)'} gap={1} align="stretch">
+                <Text textStyle="body.small" fontWeight="semibold" color="fg.secondary">
+                  {group.folder || 'Unfiled'}
+                </Text>
+                {group.queries.map(query => (
+                  <HStack
+                    key={query.id}
+                    gap={2}
+                    p={2}
+                    align="start"
+                    border="1px"
+                    borderColor="border.primary"
+                    borderRadius="md"
+                    bg="bg.primary"
+                  >
+                    <IconButton
+                      size="xs"
+                      variant="ghost"
+                      color={query.starred ? 'yellow.500' : 'fg.tertiary'}
+                      aria-label={query.starred ? `Unstar ${query.name}` : `Star ${query.name}`}
+                      aria-pressed={query.starred}
+                      onClick={() => handleToggleStar(query.id)}
+                    >
+                      <Icons.star size={14} />
+                    </IconButton>
+                    <Box
+                      flex={1}
+                      minW={0}
+                      cursor="pointer"
+                      onClick={() => onLoad(query)}
+                      title="Open in the editor"
+                    >
+                      <HStack gap={2}>
+                        <Text textStyle="body.small" fontWeight="semibold" truncate>
+                          {query.name}
+                        </Text>
+                        <Box as="span" px={2} fontSize="xs" borderRadius="md" bg="bg.muted" color="fg.secondary">
+                          {OPERATION_LABELS[query.operation]}
+                        </Box>
+                        {query.tags.map(tag => (
+                          <Box as="span" key={tag} fontSize="xs" color="accent.primary">
+                            #{tag}
+                          </Box>
+                        ))}
+                      </HStack>
+                      {query.description && (
+                        <Text textStyle="body.small" color="fg.secondary" truncate>
+                          {query.description}
+                        </Text>
+                      )}
+                      <Text fontSize="xs" color="fg.tertiary">
+                        {`${getConnectionLabel(query)} · ${new Date(query.updatedAt).toLocaleString()}`}
+                      </Text>
+                    </Box>
+                    <Button size="xs" variant="ghost" onClick={() => handleEdit(query)}>
+                      Edit
+                    </Button>
+                    <IconButton
+                      size="xs"
+                      variant="ghost"
+                      aria-label={`Delete ${query.name}`}
+                      onClick={() => handleDelete(query)}
+                    >
+                      <Icons.close size={14} />
+                    </IconButton>
+                  </HStack>
+                ))}
+              </VStack>
+            ))}
+          </VStack>
+        )}
+      </VStack>
+    </Card.Root>
+  );
+}
@@ -3,6 +3,9 @@
 import React, { useState, useEffect, useRef } from 'react';
 import CodeMirror from '@uiw/react-codemirror';
 import { useDgraph } from '@/context/DgraphContext';
+import DgraphService from '@/services/dgraphService';
+import { formatSchemaText } from '@/utils/schemaParser';
+import { IndexFix, addIndexToSchema } from '@/utils/dqlIndexLint';
 import SchemaAutocomplete from './SchemaAutocomplete';
 import SchemaVisualization from './SchemaVisualization';
 import {
@@ -18,14 +21,23 @@ import {
 } from '@chakra-ui/react';
 import { useColorModeValue } from '@/components/ui/color-mode';
 
-export default function SchemaEditor() {
+interface SchemaEditorProps {
+  // Index requested by a query editor quick fix, added to the text for review
+  pendingIndex?: IndexFix | null;
+  onPendingIndexApplied?: () => void;
+}
+
+export default function SchemaEditor({ pendingIndex, onPendingIndexApplied }: SchemaEditorProps = {}) {
   // Ref for SchemaAutocomplete's handleInput
   const autocompleteInputRef = useRef<(() => void) | null>(null);
-  const { dgraphService, connected, schemaText, updateSchemaText } = useDgraph();
+  const { dgraphService, connected, schemaText, updateSchemaText, updateParsedSchema } = useDgraph();
   const [isLoading, setIsLoading] = useState(false);
   const [isFetching, setIsFetching] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  // The connection the schema text was last fetched from
+  const [fetchedFrom, setFetchedFrom] = useState<DgraphService | null>(null);
   const [cursorPosition, setCursorPosition] = useState(0);
   const editorRef = useRef<HTMLDivElement>(null);
 
@@ -64,6 +76,24 @@ export default function SchemaEditor() {
     }
   }, [connected, dgraphService, schemaText]);
 
+  // Add a requested index once the schema has been fetched from the current connection;
+  // applying it is left to Update Schema
+  useEffect(() => {
+    if (!pendingIndex || !connected || !dgraphService) return;
+    if (fetchedFrom !== dgraphService) {
+      // Text left from another connection; empty text is fetched by the effect above
+      if (schemaText && !isFetching) {
+        fetchSchema();
+      }
+      return;
+    }
+    updateSchemaText(addIndexToSchema(schemaText, pendingIndex));
+    setSuccess(null);
+    setNotice(`Added @index(${pendingIndex.tokenizer}) to ${pendingIndex.predicate.name}. Review the schema and select Update Schema to apply it.`);
+    onPendingIndexApplied?.();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pendingIndex, schemaText, fetchedFrom, connected, dgraphService]);
+
   const fetchSchema = async () => {
     if (!dgraphService || !connected) {
       setError('Not connected to Dgraph. Please connect first.');
@@ -80,16 +110,16 @@ export default function SchemaEditor() {
       if (result && result.data && result.data.schema) {
         console.log('Schema data items:', result.data.schema);
 
-        const schemaText = result.data.schema.map((item: any) => {
-          return `${item.predicate}: ${item.type} ${item.index ? '@index(' + item.index + ')' : ''} ${item.upsert ? '@upsert' : ''} ${item.lang ? '@lang' : ''} ${item.reverse ? '@reverse' : ''} .`;
-        }).join('\n');
+        const schemaText = formatSchemaText(result.data);
 
         console.log('Formatted schema text:', schemaText);
         updateSchemaText(schemaText);
+        updateParsedSchema(result.data);
       } else {
         console.log('No schema data found in result');
         updateSchemaText('# No schema found or empty schema');
       }
+      setFetchedFrom(dgraphService);
     } catch (err: any) {
       console.error('Schema fetch error:', err);
       setError(err.response?.data?.errors?.[0]?.message || err.message || 'Failed to fetch schema');
@@ -112,6 +142,7 @@ export default function SchemaEditor() {
     setIsLoading(true);
     setError(null);
     setSuccess(null);
+    setNotice(null);
 
     try {
       // Update the schema
@@ -169,6 +200,15 @@ export default function SchemaEditor() {
           </Alert.Root>
         )}
 
+        {notice && (
+          <Alert.Root status="info" mb={4}>
+            <Alert.Indicator />
+            <Alert.Content>
+              {notice}
+            </Alert.Content>
+          </Alert.Root>
+        )}
+
         {success && (
           <Alert.Root status="success" mb={4}>
             <Alert.Indicator />
@@ -16,8 +16,8 @@ import { Icons } from '@/components/ui/icons';
 interface SidebarProps {
   isOpen: boolean;
   onToggle: () => void;
-  activeSection: 'connection' | 'schema' | 'guides' | 'query' | 'text-to-dql' | 'geospatial';
-  onSectionChange: (section: 'connection' | 'schema' | 'guides' | 'query' | 'text-to-dql' | 'geospatial') => void;
+  activeSection: 'connection' | 'schema' | 'guides' | 'query' | 'text-to-dql' | 'geospatial' | 'admin' | 'cluster';
+  onSectionChange: (section: 'connection' | 'schema' | 'guides' | 'query' | 'text-to-dql' | 'geospatial' | 'admin' | 'cluster') => void;
   isMobile?: boolean;
   isTablet?: boolean;
 }
@@ -129,6 +129,8 @@ export default function Sidebar({ isOpen, activeSection, onSectionChange, isMobi
     { icon: Icons.query, label: "Query", key: "query" as const },
     { icon: Icons.ai, label: "Text to DQL", key: "text-to-dql" as const },
     { icon: Icons.map, label: "Geospatial", key: "geospatial" as const },
+    { icon: Icons.admin, label: "Admin", key: "admin" as const },
+    { icon: Icons.cluster, label: "Cluster", key: "cluster" as const },
   ];
 
   // Don't render connection status until mounted to prevent hydration mismatch
@@ -10,7 +10,7 @@ import { useDgraph } from '@/context/DgraphContext';
 import { Icons } from '@/components/ui/icons';
 
 export default function StatusIndicator() {
-  const { connected, endpoint, error, isHealthy, lastHealthCheck, performHealthCheck } = useDgraph();
+  const { connected, isDemo, endpoint, error, isHealthy, lastHealthCheck, performHealthCheck, circuitState } = useDgraph();
   const [mounted, setMounted] = useState(false);
   const [isCheckingHealth, setIsCheckingHealth] = useState(false);
 
@@ -60,6 +60,36 @@ export default function StatusIndicator() {
       };
     }
     
+    if (connected && circuitState === 'open') {
+      return {
+        status: 'error',
+        label: 'Circuit Open',
+        icon: Icons.error,
+        bg: 'status.error',
+        description: `Requests to ${endpoint} are paused after repeated failures and will resume automatically`
+      };
+    }
+
+    if (connected && circuitState === 'half-open') {
+      return {
+        status: 'warning',
+        label: 'Recovering',
+        icon: Icons.warning,
+        bg: 'status.warning',
+        description: `Trying ${endpoint} again after repeated failures`
+      };
+    }
+
+    if (connected && isDemo) {
+      return {
+        status: 'connected',
+        label: 'Demo',
+        icon: Icons.play,
+        bg: 'status.success',
+        description: 'Connected to the offline demo database - changes are lost on disconnect'
+      };
+    }
+
     if (connected) {
       // Check if we have health information
       if (lastHealthCheck) {
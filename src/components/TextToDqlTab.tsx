@@ -16,6 +16,7 @@ import {
 import { useDgraph } from '@/context/DgraphContext';
 import { Icons } from '@/components/ui/icons';
 import { McpService, McpConfig } from '@/services/mcpService';
+import { formatDql } from '@/utils/dqlFormatter';
 import { generateText } from 'ai';
 import { anthropic } from '@ai-sdk/anthropic';
 import { openai } from '@ai-sdk/openai';
@@ -121,7 +122,9 @@ export default function TextToDqlTab() {
         query = await generateWithDirectAI();
       }
 
-      setGeneratedQuery(query);
+      // Models often wrap the query in a Markdown code fence
+      const unfenced = query.trim().replace(/^```\w*\n?/, '').replace(/\n?```$/, '').trim();
+      setGeneratedQuery(formatDql(unfenced));
     } catch (err) {
       console.error('Query generation failed:', err);
       setError('Failed to generate DQL query. Please try again.');
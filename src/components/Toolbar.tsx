@@ -17,6 +17,7 @@ import { useColorMode } from '@/components/ui/color-mode';
 import { useDgraph } from '@/context/DgraphContext';
 import { Icons } from '@/components/ui/icons';
 import StatusIndicator from './StatusIndicator';
+import ProfileSwitcher from './ProfileSwitcher';
 
 interface ToolbarProps {
   isSidebarOpen: boolean;
@@ -90,6 +91,11 @@ export default function Toolbar({ isSidebarOpen, onToggleSidebar }: ToolbarProps
 
           {/* Right Section */}
           <HStack gap={2} flex="0 0 auto">
+            {/* Connection Profile */}
+            <Box display={{ base: "none", md: "block" }}>
+              <ProfileSwitcher />
+            </Box>
+
             {/* Theme Toggle */}
             <IconButton
               onClick={toggleColorMode}
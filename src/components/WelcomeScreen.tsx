@@ -17,7 +17,7 @@ interface WelcomeScreenProps {
 }
 
 export default function WelcomeScreen({ onQuickConnect }: WelcomeScreenProps) {
-  const { connected } = useDgraph();
+  const { connected, connectDemo } = useDgraph();
 
   if (connected) {
     return null;
@@ -77,6 +77,20 @@ export default function WelcomeScreen({ onQuickConnect }: WelcomeScreenProps) {
                 </svg>
                 View Documentation
               </Button>
+              <Button
+                onClick={connectDemo}
+                variant="ghost"
+                colorPalette="blue"
+                size="md"
+              >
+                <svg viewBox="0 0 24 24" width="18" height="18" fill="currentColor" style={{ marginRight: '8px' }}>
+                  <path d="M8 5v14l11-7z" />
+                </svg>
+                Try the offline demo
+              </Button>
+              <Text fontSize="sm" color="fg.muted">
+                Explore a sample film graph in an in-browser emulator, no database needed.
+              </Text>
             </VStack>
           </VStack>
 
@@ -35,6 +35,13 @@ import {
   Map,
   Hexagon,
   Circle,
+  Shield,
+  Lock,
+  Server,
+  Braces,
+  Plus,
+  Star,
+  Bookmark,
 } from 'lucide-react';
 
 // Icon component with consistent sizing and styling
@@ -50,6 +57,9 @@ export const Icons = {
   schema: (props: IconProps) => <FileText size={props.size || 16} className={props.className} />,
   guides: (props: IconProps) => <BookOpen size={props.size || 16} className={props.className} />,
   query: (props: IconProps) => <Terminal size={props.size || 16} className={props.className} />,
+  admin: (props: IconProps) => <Shield size={props.size || 16} className={props.className} />,
+  cluster: (props: IconProps) => <Server size={props.size || 16} className={props.className} />,
+  graphql: (props: IconProps) => <Braces size={props.size || 16} className={props.className} />,
   
   // Actions
   play: (props: IconProps) => <Play size={props.size || 16} className={props.className} />,
@@ -84,8 +94,12 @@ export const Icons = {
   search: (props: IconProps) => <Search size={props.size || 16} className={props.className} />,
   filter: (props: IconProps) => <Filter size={props.size || 16} className={props.className} />,
   more: (props: IconProps) => <MoreHorizontal size={props.size || 16} className={props.className} />,
+  plus: (props: IconProps) => <Plus size={props.size || 16} className={props.className} />,
+  star: (props: IconProps) => <Star size={props.size || 16} className={props.className} />,
+  bookmark: (props: IconProps) => <Bookmark size={props.size || 16} className={props.className} />,
   show: (props: IconProps) => <Eye size={props.size || 16} className={props.className} />,
   hide: (props: IconProps) => <EyeOff size={props.size || 16} className={props.className} />,
+  lock: (props: IconProps) => <Lock size={props.size || 16} className={props.className} />,
   copy: (props: IconProps) => <Copy size={props.size || 16} className={props.className} />,
   external: (props: IconProps) => <ExternalLink size={props.size || 16} className={props.className} />,
   map: (props: IconProps) => <Map size={props.size || 16} className={props.className} />,
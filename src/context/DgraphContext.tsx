@@ -1,14 +1,31 @@
 'use client';
 
 import React, { createContext, useContext, useState, ReactNode } from 'react';
-import DgraphService from '@/services/dgraphService';
+import DgraphService, { DEFAULT_REQUEST_TIMEOUT } from '@/services/dgraphService';
+import DgraphEmulator from '@/services/dgraphEmulator';
 import EmbeddingService, { EmbeddingProvider } from '@/services/embeddingService';
-import { ParsedSchema, parseSchema } from '@/utils/schemaParser';
+import { ParsedSchema, formatSchemaText, parseSchema } from '@/utils/schemaParser';
+import { AclSession } from '@/utils/aclSession';
+import { CircuitState } from '@/utils/requestRetry';
+import { removeConnectionCredentials } from '@/utils/connectionString';
+import {
+  ConnectionMode,
+  ConnectionProfile,
+  ConnectionSettings,
+  ProfileColor,
+  parseProfiles,
+  createProfile,
+} from '@/utils/connectionProfiles';
+import { DEMO_SCHEMA, DEMO_DATA } from '@/utils/demoDataset';
+
+export type { ConnectionMode } from '@/utils/connectionProfiles';
 
 interface DgraphContextType {
   dgraphService: DgraphService | null;
   embeddingService: EmbeddingService | null;
   connected: boolean;
+  // Connected to the in-process emulator with the demo dataset
+  isDemo: boolean;
   endpoint: string;
   apiKey: string;
   hypermodeRouterKey: string;
@@ -19,6 +36,16 @@ interface DgraphContextType {
   mcpConfig: string;
   mcpServerUrl: string;
   mcpBearerToken: string;
+  requestTimeout: number;
+  connectionMode: ConnectionMode;
+  allowPublicProxies: boolean;
+  aclUserId: string;
+  aclPassword: string;
+  aclNamespace: number;
+  aclSession: AclSession | null;
+  // Saved connection profiles and the one currently applied
+  profiles: ConnectionProfile[];
+  activeProfile: ConnectionProfile | null;
   setEndpoint: (endpoint: string) => void;
   setApiKey: (apiKey: string) => void;
   setHypermodeRouterKey: (key: string) => void;
@@ -29,14 +56,30 @@ interface DgraphContextType {
   setMcpConfig: (config: string) => void;
   setMcpServerUrl: (url: string) => void;
   setMcpBearerToken: (token: string) => void;
+  setRequestTimeout: (seconds: number) => void;
+  setConnectionMode: (mode: ConnectionMode) => void;
+  setAllowPublicProxies: (allow: boolean) => void;
+  setAclUserId: (userId: string) => void;
+  setAclPassword: (password: string) => void;
+  setAclNamespace: (namespace: number) => void;
+  saveProfile: (name: string, color?: ProfileColor) => void;
+  saveActiveProfile: () => void;
+  updateProfile: (id: string, changes: Partial<Pick<ConnectionProfile, 'name' | 'color'>>) => void;
+  deleteProfile: (id: string) => void;
+  switchProfile: (id: string | null) => void;
   connect: () => void;
+  connectDemo: () => void;
   disconnect: () => void;
   error: string | null;
   schemaText: string;
   parsedSchema: ParsedSchema;
   updateSchemaText: (text: string) => void;
+  // Replace the parsed schema with a schema {} result
+  updateParsedSchema: (schema: any) => void;
   schemaData: any;
   refreshSchemaData: () => Promise<void>;
+  // Circuit breaker state of the request pipeline
+  circuitState: CircuitState;
   // Health check state
   isHealthy: boolean;
   lastHealthCheck: Date | null;
@@ -57,6 +100,16 @@ const STORAGE_KEY_OLLAMA_ENDPOINT = 'ollama_endpoint';
 const STORAGE_KEY_MCP_CONFIG = 'mcp_config';
 const STORAGE_KEY_MCP_SERVER_URL = 'mcp_server_url';
 const STORAGE_KEY_MCP_BEARER_TOKEN = 'mcp_bearer_token';
+const STORAGE_KEY_REQUEST_TIMEOUT = 'dgraph_request_timeout';
+const STORAGE_KEY_CONNECTION_MODE = 'dgraph_connection_mode';
+const STORAGE_KEY_ALLOW_PUBLIC_PROXIES = 'dgraph_allow_public_proxies';
+const STORAGE_KEY_ACL_USER_ID = 'dgraph_acl_user_id';
+const STORAGE_KEY_ACL_NAMESPACE = 'dgraph_acl_namespace';
+const STORAGE_KEY_PROFILES = 'dgraph_connection_profiles';
+const STORAGE_KEY_ACTIVE_PROFILE = 'dgraph_active_profile';
+
+// Endpoint reported by the service in demo mode; requests never leave the browser
+const DEMO_ENDPOINT = 'http://demo.emulator';
 
 // Function to safely load from localStorage (handles SSR)
 const loadFromStorage = (key: string, defaultValue: string) => {
@@ -70,57 +123,95 @@ const loadFromStorage = (key: string, defaultValue: string) => {
   }
 };
 
+// Settings of the active profile take precedence over the single-connection keys
+const loadSetting = (field: keyof ConnectionSettings, key: string, defaultValue: string) => {
+  const activeId = loadFromStorage(STORAGE_KEY_ACTIVE_PROFILE, '');
+  const profile = parseProfiles(loadFromStorage(STORAGE_KEY_PROFILES, '')).find(entry => entry.id === activeId);
+  return profile ? String(profile.settings[field]) : loadFromStorage(key, defaultValue);
+};
+
 export function DgraphProvider({ children }: { children: ReactNode }) {
   const [dgraphService, setDgraphService] = useState<DgraphService | null>(null);
   const [embeddingService, setEmbeddingService] = useState<EmbeddingService | null>(null);
   const [connected, setConnected] = useState(false);
+  const [isDemo, setIsDemo] = useState(false);
   const [endpoint, setEndpointState] = useState<string>(() =>
-    loadFromStorage(STORAGE_KEY_ENDPOINT, 'http://localhost:8080')
+    loadSetting('endpoint', STORAGE_KEY_ENDPOINT, 'http://localhost:8080')
   );
   const [apiKey, setApiKeyState] = useState<string>(() =>
-    loadFromStorage(STORAGE_KEY_API_KEY, '')
+    loadSetting('apiKey', STORAGE_KEY_API_KEY, '')
   );
   const [hypermodeRouterKey, setHypermodeRouterKeyState] = useState<string>(() =>
-    loadFromStorage(STORAGE_KEY_HYPERMODE_KEY, '')
+    loadSetting('hypermodeRouterKey', STORAGE_KEY_HYPERMODE_KEY, '')
   );
   const [embeddingProvider, setEmbeddingProviderState] = useState<EmbeddingProvider>(() =>
-    loadFromStorage(STORAGE_KEY_EMBEDDING_PROVIDER, 'openai') as EmbeddingProvider
+    loadSetting('embeddingProvider', STORAGE_KEY_EMBEDDING_PROVIDER, 'openai') as EmbeddingProvider
   );
   const [embeddingApiKey, setEmbeddingApiKeyState] = useState<string>(() =>
-    loadFromStorage(STORAGE_KEY_EMBEDDING_API_KEY, '')
+    loadSetting('embeddingApiKey', STORAGE_KEY_EMBEDDING_API_KEY, '')
   );
   const [embeddingModel, setEmbeddingModelState] = useState<string>(() =>
-    loadFromStorage(STORAGE_KEY_EMBEDDING_MODEL, '')
+    loadSetting('embeddingModel', STORAGE_KEY_EMBEDDING_MODEL, '')
   );
   const [ollamaEndpoint, setOllamaEndpointState] = useState<string>(() =>
-    loadFromStorage(STORAGE_KEY_OLLAMA_ENDPOINT, 'http://localhost:11434')
+    loadSetting('ollamaEndpoint', STORAGE_KEY_OLLAMA_ENDPOINT, 'http://localhost:11434')
   );
   const [mcpConfig, setMcpConfigState] = useState<string>(() =>
-    loadFromStorage(STORAGE_KEY_MCP_CONFIG, '')
+    loadSetting('mcpConfig', STORAGE_KEY_MCP_CONFIG, '')
   );
   const [mcpServerUrl, setMcpServerUrlState] = useState<string>(() =>
-    loadFromStorage(STORAGE_KEY_MCP_SERVER_URL, '')
+    loadSetting('mcpServerUrl', STORAGE_KEY_MCP_SERVER_URL, '')
   );
   const [mcpBearerToken, setMcpBearerTokenState] = useState<string>(() =>
-    loadFromStorage(STORAGE_KEY_MCP_BEARER_TOKEN, '')
+    loadSetting('mcpBearerToken', STORAGE_KEY_MCP_BEARER_TOKEN, '')
+  );
+  const [requestTimeout, setRequestTimeoutState] = useState<number>(() => {
+    const seconds = Number(loadSetting('requestTimeout', STORAGE_KEY_REQUEST_TIMEOUT, String(DEFAULT_REQUEST_TIMEOUT / 1000)));
+    return seconds > 0 ? seconds : DEFAULT_REQUEST_TIMEOUT / 1000;
+  });
+  const [connectionMode, setConnectionModeState] = useState<ConnectionMode>(() =>
+    loadSetting('connectionMode', STORAGE_KEY_CONNECTION_MODE, 'direct') as ConnectionMode
+  );
+  const [allowPublicProxies, setAllowPublicProxiesState] = useState<boolean>(() =>
+    loadSetting('allowPublicProxies', STORAGE_KEY_ALLOW_PUBLIC_PROXIES, 'false') === 'true'
+  );
+  const [aclUserId, setAclUserIdState] = useState<string>(() =>
+    loadSetting('aclUserId', STORAGE_KEY_ACL_USER_ID, '')
+  );
+  // The password is only kept in memory; the session is refreshed with the refresh JWT
+  const [aclPassword, setAclPassword] = useState<string>('');
+  const [aclNamespace, setAclNamespaceState] = useState<number>(() =>
+    Number(loadSetting('aclNamespace', STORAGE_KEY_ACL_NAMESPACE, '0')) || 0
+  );
+  const [aclSession, setAclSession] = useState<AclSession | null>(null);
+  const [profiles, setProfilesState] = useState<ConnectionProfile[]>(() =>
+    parseProfiles(loadFromStorage(STORAGE_KEY_PROFILES, ''))
+  );
+  const [activeProfileId, setActiveProfileIdState] = useState<string | null>(() =>
+    loadFromStorage(STORAGE_KEY_ACTIVE_PROFILE, '') || null
   );
+  // Set when switching profiles while connected; the new settings are applied on the next render
+  const [reconnectPending, setReconnectPending] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [schemaText, setSchemaText] = useState<string>('');
   const [parsedSchema, setParsedSchema] = useState<ParsedSchema>({ types: [] });
   const [schemaData, setSchemaData] = useState<any>(null);
 
+  const [circuitState, setCircuitState] = useState<CircuitState>('closed');
+
   // Health check state
   const [isHealthy, setIsHealthy] = useState<boolean>(true);
   const [lastHealthCheck, setLastHealthCheck] = useState<Date | null>(null);
   const [healthCheckInterval, setHealthCheckInterval] = useState<NodeJS.Timeout | null>(null);
 
-  console.log('DgraphProvider state:', { connected, endpoint, apiKey, error });
+  console.log('DgraphProvider state:', { connected, endpoint: removeConnectionCredentials(endpoint), apiKey, error });
 
   // Wrapper functions to update both state and localStorage
+  // Passwords in a connection string are kept in memory only
   const setEndpoint = (value: string) => {
     setEndpointState(value);
     try {
-      localStorage.setItem(STORAGE_KEY_ENDPOINT, value);
+      localStorage.setItem(STORAGE_KEY_ENDPOINT, removeConnectionCredentials(value));
     } catch (e) {
       console.warn('Error saving to localStorage', e);
     }
@@ -211,6 +302,168 @@ export function DgraphProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const setRequestTimeout = (value: number) => {
+    setRequestTimeoutState(value);
+    try {
+      localStorage.setItem(STORAGE_KEY_REQUEST_TIMEOUT, String(value));
+    } catch (e) {
+      console.warn('Error saving to localStorage', e);
+    }
+  };
+
+  const setConnectionMode = (value: ConnectionMode) => {
+    setConnectionModeState(value);
+    try {
+      localStorage.setItem(STORAGE_KEY_CONNECTION_MODE, value);
+    } catch (e) {
+      console.warn('Error saving to localStorage', e);
+    }
+  };
+
+  const setAllowPublicProxies = (value: boolean) => {
+    setAllowPublicProxiesState(value);
+    try {
+      localStorage.setItem(STORAGE_KEY_ALLOW_PUBLIC_PROXIES, String(value));
+    } catch (e) {
+      console.warn('Error saving to localStorage', e);
+    }
+  };
+
+  const setAclUserId = (value: string) => {
+    setAclUserIdState(value);
+    try {
+      localStorage.setItem(STORAGE_KEY_ACL_USER_ID, value);
+    } catch (e) {
+      console.warn('Error saving to localStorage', e);
+    }
+  };
+
+  const setAclNamespace = (value: number) => {
+    setAclNamespaceState(value);
+    try {
+      localStorage.setItem(STORAGE_KEY_ACL_NAMESPACE, String(value));
+    } catch (e) {
+      console.warn('Error saving to localStorage', e);
+    }
+  };
+
+  const setProfiles = (value: ConnectionProfile[]) => {
+    setProfilesState(value);
+    try {
+      localStorage.setItem(STORAGE_KEY_PROFILES, JSON.stringify(value));
+    } catch (e) {
+      console.warn('Error saving to localStorage', e);
+    }
+  };
+
+  const setActiveProfileId = (value: string | null) => {
+    setActiveProfileIdState(value);
+    try {
+      if (value) {
+        localStorage.setItem(STORAGE_KEY_ACTIVE_PROFILE, value);
+      } else {
+        localStorage.removeItem(STORAGE_KEY_ACTIVE_PROFILE);
+      }
+    } catch (e) {
+      console.warn('Error saving to localStorage', e);
+    }
+  };
+
+  const activeProfile = profiles.find(profile => profile.id === activeProfileId) ?? null;
+
+  const getCurrentSettings = (): ConnectionSettings => ({
+    endpoint: removeConnectionCredentials(endpoint),
+    apiKey,
+    hypermodeRouterKey,
+    embeddingProvider,
+    embeddingApiKey,
+    embeddingModel,
+    ollamaEndpoint,
+    mcpConfig,
+    mcpServerUrl,
+    mcpBearerToken,
+    requestTimeout,
+    connectionMode,
+    allowPublicProxies,
+    aclUserId,
+    aclNamespace,
+  });
+
+  const applySettings = (settings: ConnectionSettings) => {
+    setEndpoint(settings.endpoint);
+    setApiKey(settings.apiKey);
+    setHypermodeRouterKey(settings.hypermodeRouterKey);
+    setEmbeddingProvider(settings.embeddingProvider);
+    setEmbeddingApiKey(settings.embeddingApiKey);
+    setEmbeddingModel(settings.embeddingModel);
+    setOllamaEndpoint(settings.ollamaEndpoint);
+    setMcpConfig(settings.mcpConfig);
+    setMcpServerUrl(settings.mcpServerUrl);
+    setMcpBearerToken(settings.mcpBearerToken);
+    setRequestTimeout(settings.requestTimeout);
+    setConnectionMode(settings.connectionMode);
+    setAllowPublicProxies(settings.allowPublicProxies);
+    setAclUserId(settings.aclUserId);
+    setAclNamespace(settings.aclNamespace);
+  };
+
+  /**
+   * Save the current settings as a new profile and make it active
+   */
+  const saveProfile = (name: string, color?: ProfileColor) => {
+    const profile = createProfile(name, getCurrentSettings(), profiles, color);
+    setProfiles([...profiles, profile]);
+    setActiveProfileId(profile.id);
+  };
+
+  /**
+   * Store the current settings in the active profile
+   */
+  const saveActiveProfile = () => {
+    storeActiveProfileSettings(getCurrentSettings());
+  };
+
+  const storeActiveProfileSettings = (settings: ConnectionSettings) => {
+    if (!activeProfileId) return;
+    setProfiles(profiles.map(profile =>
+      profile.id === activeProfileId ? { ...profile, settings } : profile
+    ));
+  };
+
+  const updateProfile = (id: string, changes: Partial<Pick<ConnectionProfile, 'name' | 'color'>>) => {
+    setProfiles(profiles.map(profile => (profile.id === id ? { ...profile, ...changes } : profile)));
+  };
+
+  const deleteProfile = (id: string) => {
+    setProfiles(profiles.filter(profile => profile.id !== id));
+    if (id === activeProfileId) {
+      setActiveProfileId(null);
+    }
+  };
+
+  /**
+   * Apply a profile's settings, reconnecting if a connection was open.
+   * null detaches from profiles and keeps the current settings.
+   */
+  const switchProfile = (id: string | null) => {
+    if (id === activeProfileId) return;
+
+    const profile = profiles.find(entry => entry.id === id);
+    setActiveProfileId(profile ? profile.id : null);
+    if (!profile) return;
+
+    const wasConnected = connected;
+    if (wasConnected) {
+      closeConnection();
+    }
+    applySettings(profile.settings);
+
+    // ACL profiles need the password entered again, so they aren't reconnected automatically
+    if (wasConnected && !profile.settings.aclUserId) {
+      setReconnectPending(true);
+    }
+  };
+
   const updateEmbeddingService = () => {
     if (embeddingProvider === 'ollama' || (embeddingProvider && embeddingApiKey)) {
       const service = new EmbeddingService({
@@ -254,6 +507,16 @@ export function DgraphProvider({ children }: { children: ReactNode }) {
     }
   }, [endpoint, connected, dgraphService]);
 
+  // Connect with the settings of a profile selected while connected
+  React.useEffect(() => {
+    if (reconnectPending) {
+      setReconnectPending(false);
+      connect();
+    }
+    // connect is recreated every render; the effect should only run when a reconnect is requested
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [reconnectPending]);
+
   // Cleanup health check on unmount
   React.useEffect(() => {
     return () => {
@@ -271,20 +534,76 @@ export function DgraphProvider({ children }: { children: ReactNode }) {
     }
   }, [isHealthy, connected, lastHealthCheck]);
 
+  /**
+   * Load the schema through a new service and make it the active connection
+   */
+  const openConnection = async (service: DgraphService) => {
+    // Test connection by fetching schema
+    console.log('Testing connection by fetching schema...');
+    const schemaResult = await service.getSchema();
+    console.log('Schema result:', schemaResult);
+
+    // Process schema for autocomplete
+    if (schemaResult && schemaResult.data && schemaResult.data.schema) {
+      setSchemaText(formatSchemaText(schemaResult.data));
+      setParsedSchema(parseSchema(schemaResult.data));
+    }
+
+    // Fetch schema data for visualization
+    console.log('Fetching schema data for visualization...');
+    try {
+      const schemaDataResult = await service.getSchemaData();
+      console.log('Schema data result:', schemaDataResult);
+      setSchemaData(schemaDataResult);
+    } catch (schemaDataError) {
+      console.warn('Failed to fetch schema data for visualization:', schemaDataError);
+      setSchemaData(null);
+    }
+
+    setDgraphService(service);
+    setConnected(true);
+
+    // Start health check polling
+    startHealthCheck();
+  };
+
   const connect = async () => {
+    let service: DgraphService | null = null;
     try {
-      console.log('DgraphContext.connect() called with endpoint:', endpoint);
+      const storedEndpoint = removeConnectionCredentials(endpoint);
+      console.log('DgraphContext.connect() called with endpoint:', storedEndpoint);
       setError(null);
 
-      // Parse the connection string to extract endpoint, SSL settings, and bearer token
+      // Parse the connection string to extract endpoint, SSL settings, keys and ACL credentials
       const parsedConnection = DgraphService.parseConnectionString(endpoint);
-      console.log('Parsed connection:', parsedConnection);
+      console.log('Parsed connection:', { ...parsedConnection, password: undefined });
+      if (parsedConnection.errors.length > 0) {
+        setError(`Invalid connection string: ${parsedConnection.errors.join('; ')}`);
+        return;
+      }
+
+      // Keep the password of user:password@host in memory and the user as the ACL user
+      const connectionUserId = aclUserId || parsedConnection.username || '';
+      if (storedEndpoint !== endpoint) {
+        setEndpoint(storedEndpoint);
+        setAclUserId(connectionUserId);
+        if (!aclPassword && parsedConnection.password) {
+          setAclPassword(parsedConnection.password);
+        }
+      }
 
+      // Form fields take precedence over values from the connection string
+      const connectionApiKey = apiKey || parsedConnection.apiKey;
       const config = {
         endpoint: parsedConnection.endpoint,
-        apiKey: apiKey || undefined,
+        apiKey: connectionApiKey || undefined,
         sslMode: parsedConnection.sslMode,
         bearerToken: parsedConnection.bearerToken || apiKey || undefined,
+        timeout: (parsedConnection.timeout ?? requestTimeout) * 1000,
+        useProxy: connectionMode === 'proxy',
+        allowPublicCorsProxies: allowPublicProxies,
+        onSessionChange: setAclSession,
+        onCircuitStateChange: setCircuitState,
       };
       console.log('Service config:', config);
 
@@ -295,55 +614,98 @@ export function DgraphProvider({ children }: { children: ReactNode }) {
         console.warn('Could not save auto-connect preference', e);
       }
 
-      const service = new DgraphService(config);
+      setCircuitState('closed');
+      service = new DgraphService(config);
       console.log('DgraphService instance created');
 
-      // Test connection by fetching schema
-      console.log('Testing connection by fetching schema...');
-      const schemaResult = await service.getSchema();
-      console.log('Schema result:', schemaResult);
-
-      // Process schema for autocomplete
-      if (schemaResult && schemaResult.data && schemaResult.data.schema) {
-        const newSchemaText = schemaResult.data.schema.map((item: any) => {
-          return `${item.predicate}: ${item.type} ${item.index ? '@index(' + item.index + ')' : ''} ${item.upsert ? '@upsert' : ''} ${item.lang ? '@lang' : ''} ${item.reverse ? '@reverse' : ''} .`;
-        }).join('\n');
-
-        setSchemaText(newSchemaText);
-        setParsedSchema(parseSchema(newSchemaText));
-      }
-
-      // Fetch schema data for visualization
-      console.log('Fetching schema data for visualization...');
-      try {
-        const schemaDataResult = await service.getSchemaData();
-        console.log('Schema data result:', schemaDataResult);
-        setSchemaData(schemaDataResult);
-      } catch (schemaDataError) {
-        console.warn('Failed to fetch schema data for visualization:', schemaDataError);
-        setSchemaData(null);
+      // Log in first on ACL-enabled clusters so the schema request is authorized
+      if (connectionUserId) {
+        try {
+          await service.login(
+            connectionUserId,
+            aclPassword || parsedConnection.password || '',
+            parsedConnection.namespace ?? aclNamespace
+          );
+        } catch (loginError: any) {
+          console.error('ACL login error:', loginError);
+          setError(`ACL login failed: ${loginError.message}`);
+          setConnected(false);
+          setDgraphService(null);
+          return;
+        }
       }
 
-      setDgraphService(service);
-      setConnected(true);
+      await openConnection(service);
+      setIsDemo(false);
 
-      // Start health check polling
-      startHealthCheck();
+      // Remember settings that worked in the active profile
+      storeActiveProfileSettings({ ...getCurrentSettings(), aclUserId: connectionUserId });
     } catch (err) {
       console.error('Connection error:', err);
+      service?.logout();
       setError('Failed to connect to Dgraph. Please check your endpoint and API key.');
       setConnected(false);
       setDgraphService(null);
     }
   };
 
-  const disconnect = () => {
+  /**
+   * Connect to an in-process emulator loaded with a small film graph. Demo
+   * mode works offline, and is never auto-connected or saved to a profile.
+   */
+  const connectDemo = async () => {
+    try {
+      setError(null);
+      setCircuitState('closed');
+
+      const emulator = new DgraphEmulator();
+      emulator.load(DEMO_SCHEMA, DEMO_DATA);
+      const service = new DgraphService({
+        endpoint: DEMO_ENDPOINT,
+        adapter: emulator.createAdapter(),
+        onCircuitStateChange: setCircuitState,
+      });
+
+      await openConnection(service);
+      setIsDemo(true);
+    } catch (err) {
+      console.error('Demo mode error:', err);
+      setError('Failed to start demo mode.');
+      setConnected(false);
+      setDgraphService(null);
+    }
+  };
+
+  /**
+   * Close the open connection without touching any credentials
+   */
+  const closeConnection = () => {
     // Stop health check polling
     stopHealthCheck();
+    setIsDemo(false);
+
+    // End the ACL session so its tokens stop refreshing
+    dgraphService?.logout();
+    setAclSession(null);
+    setAclPassword('');
+    setCircuitState('closed');
 
     // Immediate UI State update
     setConnected(false);
 
+    setDgraphService(null);
+    setSchemaText('');
+    setParsedSchema({ types: [] });
+    setSchemaData(null);
+    setError(null); // Also clear any previous errors
+  };
+
+  /**
+   * Close the connection and forget its credentials. Saved profiles keep theirs.
+   */
+  const disconnect = () => {
+    closeConnection();
+
     // Force clean localstorage first to ensure clean state even if something fails later
     try {
       // Remove all credentials from localStorage
@@ -364,16 +726,11 @@ export function DgraphProvider({ children }: { children: ReactNode }) {
     }
 
     // Reset all state variables to ensure clean slate
-    setDgraphService(null);
-    setSchemaText('');
-    setParsedSchema({ types: [] });
-    setSchemaData(null);
     setApiKeyState('');
     setHypermodeRouterKeyState('');
     setMcpConfigState('');
     setMcpServerUrlState('');
     setMcpBearerTokenState('');
-    setError(null); // Also clear any previous errors
 
     // Force triggering any effects that depend on these values
     setTimeout(() => {
@@ -393,7 +750,10 @@ export function DgraphProvider({ children }: { children: ReactNode }) {
 
   const updateSchemaText = (text: string) => {
     setSchemaText(text);
-    setParsedSchema(parseSchema(text));
+  };
+
+  const updateParsedSchema = (schema: any) => {
+    setParsedSchema(parseSchema(schema));
   };
 
   const refreshSchemaData = async () => {
@@ -476,6 +836,7 @@ export function DgraphProvider({ children }: { children: ReactNode }) {
         dgraphService,
         embeddingService,
         connected,
+        isDemo,
         endpoint,
         apiKey,
         hypermodeRouterKey,
@@ -486,6 +847,15 @@ export function DgraphProvider({ children }: { children: ReactNode }) {
         mcpConfig,
         mcpServerUrl,
         mcpBearerToken,
+        requestTimeout,
+        connectionMode,
+        allowPublicProxies,
+        aclUserId,
+        aclPassword,
+        aclNamespace,
+        aclSession,
+        profiles,
+        activeProfile,
         setEndpoint,
         setApiKey,
         setHypermodeRouterKey,
@@ -496,14 +866,28 @@ export function DgraphProvider({ children }: { children: ReactNode }) {
         setMcpConfig,
         setMcpServerUrl,
         setMcpBearerToken,
+        setRequestTimeout,
+        setConnectionMode,
+        setAllowPublicProxies,
+        setAclUserId,
+        setAclPassword,
+        setAclNamespace,
+        saveProfile,
+        saveActiveProfile,
+        updateProfile,
+        deleteProfile,
+        switchProfile,
         connect,
+        connectDemo,
         disconnect,
         error,
         schemaText,
         parsedSchema,
         updateSchemaText,
+        updateParsedSchema,
         schemaData,
         refreshSchemaData,
+        circuitState,
         // Health check state
         isHealthy,
         lastHealthCheck,
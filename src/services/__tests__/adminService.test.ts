@@ -0,0 +1,83 @@
+import { AxiosError } from 'axios'
+import AdminService from '../adminService'
+import DgraphService from '../dgraphService'
+import { DgraphError } from '@/utils/dgraphError'
+
+// Answers every request with body, recording what was sent
+const respondWith = (body: any) =>
+  jest.fn(async (config: any) => ({ status: 200, statusText: 'OK', headers: {}, config, data: body }))
+
+const adminFor = (adapter: jest.Mock) =>
+  new AdminService(new DgraphService({ endpoint: 'http://localhost:8080', adapter }))
+
+const sent = (adapter: jest.Mock) => {
+  const config = adapter.mock.calls[0][0]
+  return { url: config.url, ...JSON.parse(config.data) }
+}
+
+describe('AdminService', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should send operations to the /admin GraphQL endpoint', async () => {
+    const adapter = respondWith({
+      data: { export: { response: { code: 'Success', message: 'Export queued' }, taskId: '0x1234' } },
+    })
+
+    const response = await adminFor(adapter).export({ format: 'rdf', namespace: 1 })
+
+    expect(response).toEqual({ code: 'Success', message: 'Export queued', taskId: '0x1234' })
+    const request = sent(adapter)
+    expect(request.url).toBe('http://localhost:8080/admin')
+    expect(request.query).toContain('export(input: $input)')
+    expect(request.variables).toEqual({ input: { format: 'rdf', namespace: 1 } })
+  })
+
+  it('should normalise instance health', async () => {
+    const adapter = respondWith({
+      data: { health: [{ instance: 'alpha', address: 'localhost:7080', status: 'healthy', group: 1, uptime: '42' }] },
+    })
+
+    expect(await adminFor(adapter).getHealth()).toEqual([{
+      instance: 'alpha',
+      address: 'localhost:7080',
+      status: 'healthy',
+      group: '1',
+      version: '',
+      uptime: 42,
+      lastEcho: 0,
+    }])
+  })
+
+  it('should report GraphQL errors, including partial results, as DgraphErrors', async () => {
+    const adapter = respondWith({
+      data: { draining: null },
+      errors: [{ message: 'Unauthorized: only guardians can drain', extensions: { code: 'ErrorUnauthorized' } }],
+    })
+
+    const error = await adminFor(adapter).setDraining(true).catch(e => e)
+
+    expect(error).toBeInstanceOf(DgraphError)
+    expect(error.message).toBe('Unauthorized: only guardians can drain')
+    expect(sent(adapter).variables).toEqual({ enable: true })
+  })
+
+  it('should report failed responses with their status', async () => {
+    const adapter = jest.fn(async (config: any) => {
+      const response = { status: 401, statusText: 'Unauthorized', headers: {}, config, data: { errors: [{ message: 'Invalid token' }] } }
+      throw new AxiosError('Request failed with status code 401', 'ERR_BAD_REQUEST', config, null, response as any)
+    })
+
+    const error = await adminFor(adapter).shutdown().catch(e => e)
+
+    expect(error).toBeInstanceOf(DgraphError)
+    expect(error.message).toBe('Invalid token')
+    expect(error.status).toBe(401)
+    expect(adapter).toHaveBeenCalledTimes(1)
+  })
+})
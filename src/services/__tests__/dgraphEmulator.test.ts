@@ -0,0 +1,181 @@
+import { AxiosError } from 'axios'
+import DgraphService from '../dgraphService'
+import DgraphEmulator from '../dgraphEmulator'
+import { DgraphError } from '@/utils/dgraphError'
+import { DEMO_SCHEMA, DEMO_DATA } from '@/utils/demoDataset'
+
+describe('DgraphEmulator', () => {
+  let emulator: DgraphEmulator
+  let service: DgraphService
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    emulator = new DgraphEmulator()
+    emulator.load(DEMO_SCHEMA, DEMO_DATA)
+    service = new DgraphService({ endpoint: 'http://emulator', adapter: emulator.createAdapter() })
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('query', () => {
+    it('should filter, order and paginate', async () => {
+      const result = await service.query(`{
+        films(func: type(Film), orderdesc: rating, first: 2) @filter(ge(rating, 7.5)) {
+          name
+          rating
+        }
+      }`, undefined, { raw: true })
+
+      expect(result.data.films).toEqual([
+        { name: 'Dune', rating: 8 },
+        { name: 'Arrival', rating: 7.9 },
+      ])
+    })
+
+    it('should follow edges, reverse edges and language tags', async () => {
+      const result = await service.query(`{
+        film(func: eq(name, "Arrival")) {
+          title: name@fr
+          genre(orderasc: name) { name }
+          directors: ~directed { name }
+          count(genre)
+        }
+      }`, undefined, { raw: true })
+
+      expect(result.data.film).toEqual([{
+        title: 'Premier Contact',
+        genre: [{ name: 'Drama' }, { name: 'Science Fiction' }],
+        directors: [{ name: 'Denis Villeneuve' }],
+        'count(genre)': 2,
+      }])
+    })
+
+    it('should add uid and dgraph.type and resolve query variables', async () => {
+      const result = await service.query(
+        'query people($country: string) { people(func: eq(country, $country)) { name } }',
+        { $country: 'Ireland' }
+      )
+
+      expect(result.data.people).toEqual([
+        { uid: expect.stringMatching(/^0x/), 'dgraph.type': ['Person'], name: 'Saoirse Ronan' },
+      ])
+    })
+
+    it('should support uid variables, value variables and aggregates', async () => {
+      const result = await service.query(`{
+        var(func: has(directed)) { directed { r as rating } }
+        stats() { avg(val(r)) max(val(r)) }
+        directors(func: has(directed)) @groupby(country) { count(uid) }
+      }`, undefined, { raw: true })
+
+      expect(result.data.stats[0]['avg(val(r))']).toBeCloseTo(7.74)
+      expect(result.data.stats[1]).toEqual({ 'max(val(r))': 8 })
+      expect(result.data.directors[0]['@groupby']).toEqual([
+        { country: 'Canada', count: 1 },
+        { country: 'USA', count: 1 },
+      ])
+    })
+
+    it('should return the schema', async () => {
+      const result = await service.getSchema()
+
+      expect(result.data.schema).toContainEqual({
+        predicate: 'follows', type: 'uid', list: true, reverse: true, count: true,
+      })
+      expect(result.data.types.map((type: any) => type.name)).toEqual(['Film', 'Genre', 'Person'])
+    })
+
+    it('should report errors like Dgraph', async () => {
+      await expect(service.query('{ q(func: eq(runtime, 94)) { name } }', undefined, { raw: true }))
+        .resolves.toBeDefined()
+      await expect(service.query('{ q(func: eq(unindexed, 1)) { name } }', undefined, { raw: true }))
+        .rejects.toThrow('Predicate unindexed is not indexed')
+
+      const error = await service.query('{\n  q(func: has(name)) {\n  name }}}', undefined, { raw: true }).catch(e => e)
+      expect(error).toBeInstanceOf(DgraphError)
+      expect(error.location).toEqual({ line: 3, column: 10 })
+    })
+
+    it('should not return the result of the query as written when only the added fields fail', async () => {
+      const adapter = emulator.createAdapter()
+      const rewrittenFails = jest.fn(async (config: any) => (
+        JSON.parse(config.data).query.includes('dgraph.type')
+          ? { status: 200, statusText: 'OK', headers: {}, config, data: { errors: [{ message: 'line 1 column 30: Unknown field' }] } }
+          : adapter(config)
+      ))
+      service = new DgraphService({ endpoint: 'http://emulator', adapter: rewrittenFails })
+
+      const error = await service.query('{ q(func: has(name)) { name } }').catch(e => e)
+      expect(error).toBeInstanceOf(DgraphError)
+      expect(error.message).toContain('runs as written')
+      expect(error.location).toBeUndefined()
+      expect(rewrittenFails).toHaveBeenCalledTimes(2)
+    })
+
+    it('should neither retry timed-out queries nor count them against the circuit breaker', async () => {
+      const timesOut = jest.fn(async (config: any) => {
+        throw new AxiosError('timeout of 30000ms exceeded', 'ECONNABORTED', config)
+      })
+      service = new DgraphService({ endpoint: 'http://emulator', adapter: timesOut, circuitBreaker: { failureThreshold: 1 } })
+
+      await expect(service.query('{ q(func: has(name)) { name } }', undefined, { raw: true })).rejects.toThrow('timeout')
+      expect(timesOut).toHaveBeenCalledTimes(1)
+      expect(service.getCircuitState()).toBe('closed')
+    })
+  })
+
+  describe('mutate', () => {
+    it('should apply JSON and RDF mutations', async () => {
+      const created = await service.mutate(JSON.stringify({
+        set: { uid: '_:new', 'dgraph.type': 'Person', name: 'Villeneuve Fan', follows: { uid: '_:other', name: 'Other' } },
+      }))
+      const { new: fan, other } = created.data.uids
+
+      await service.mutate(`{ set { <${other}> <country> "France" . } delete { <${fan}> <follows> <${other}> . } }`)
+
+      const result = await service.query(`{ q(func: uid(${fan}, ${other})) { name country follows { name } } }`, undefined, { raw: true })
+      expect(result.data.q).toEqual([{ name: 'Villeneuve Fan' }, { name: 'Other', country: 'France' }])
+    })
+
+    it('should report malformed JSON mutations as JSON errors', async () => {
+      await expect(service.mutate('{"set": [{"name": "Typo",}]}')).rejects.toThrow('Invalid JSON mutation')
+    })
+
+    it('should keep uncommitted changes inside their transaction', async () => {
+      const txn = service.beginTransaction()
+      await service.mutate('{"set": {"name": "Pending"}}', { commitNow: false, txn })
+
+      const query = '{ q(func: eq(name, "Pending")) { name } }'
+      expect((await service.query(query, undefined, { raw: true })).data.q).toEqual([])
+
+      await service.commitTransaction(txn)
+      expect((await service.query(query, undefined, { raw: true })).data.q).toEqual([{ name: 'Pending' }])
+    })
+
+    it('should reject upsert blocks', async () => {
+      await expect(service.upsert(`upsert {
+        query { v as var(func: eq(email, "amy@example.com")) }
+        mutation { set { uid(v) <country> "US" . } }
+      }`)).rejects.toThrow('does not support upsert')
+    })
+  })
+
+  describe('alter', () => {
+    it('should add predicates and types', async () => {
+      await service.alter('nickname: string @index(term) .\ntype Pet {\n  nickname\n}')
+      const result = await service.query('schema(pred: [nickname]) {}')
+
+      expect(result.data.schema).toEqual([{ predicate: 'nickname', type: 'string', index: true, tokenizer: ['term'] }])
+      await expect(service.alter('broken: strang .')).rejects.toThrow('Undefined Type strang')
+    })
+  })
+
+  it('should answer health checks', async () => {
+    await expect(service.healthCheck()).resolves.toBe(true)
+    const health = await service.getClusterHealth()
+    expect(health[0]).toMatchObject({ instance: 'alpha', status: 'healthy' })
+  })
+})
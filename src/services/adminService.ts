@@ -0,0 +1,142 @@
+import DgraphService, { ADMIN_PATH } from './dgraphService';
+import { ClusterInstanceHealth, parseClusterHealth } from '@/utils/clusterState';
+
+export type ExportFormat = 'rdf' | 'json';
+
+export interface AdminResponse {
+  code: string;
+  message: string;
+  // Set for operations that run as background tasks (export, backup)
+  taskId?: string;
+  exportedFiles?: string[];
+}
+
+export interface ExportInput {
+  format: ExportFormat;
+  destination?: string;
+  namespace?: number;
+}
+
+export interface BackupInput {
+  destination: string;
+  forceFull?: boolean;
+}
+
+export interface ConfigInput {
+  cacheMb?: number;
+  logDQLRequest?: boolean;
+}
+
+export interface TaskStatus {
+  status: string;
+  kind: string;
+  lastUpdated: string;
+}
+
+/**
+ * Operations against Dgraph's /admin GraphQL endpoint
+ */
+class AdminService {
+  private dgraphService: DgraphService;
+
+  constructor(dgraphService: DgraphService) {
+    this.dgraphService = dgraphService;
+  }
+
+  private async execute(query: string, variables?: Record<string, any>) {
+    return this.dgraphService.postGraphQL(ADMIN_PATH, query, variables);
+  }
+
+  /**
+   * Health of every alpha and zero in the cluster
+   */
+  async getHealth(): Promise<ClusterInstanceHealth[]> {
+    const data = await this.execute(`query {
+      health {
+        instance
+        address
+        status
+        group
+        version
+        uptime
+        lastEcho
+      }
+    }`);
+    return parseClusterHealth(data?.health);
+  }
+
+  async export(input: ExportInput): Promise<AdminResponse> {
+    const data = await this.execute(`mutation Export($input: ExportInput!) {
+      export(input: $input) {
+        response { code message }
+        taskId
+      }
+    }`, { input });
+    return { ...data.export.response, taskId: data.export.taskId };
+  }
+
+  async backup(input: BackupInput): Promise<AdminResponse> {
+    const data = await this.execute(`mutation Backup($input: BackupInput!) {
+      backup(input: $input) {
+        response { code message }
+        taskId
+      }
+    }`, { input });
+    return { ...data.backup.response, taskId: data.backup.taskId };
+  }
+
+  /**
+   * Status of a background task started by export or backup
+   */
+  async getTask(taskId: string): Promise<TaskStatus> {
+    const data = await this.execute(`query Task($id: String!) {
+      task(input: { id: $id }) {
+        status
+        kind
+        lastUpdated
+      }
+    }`, { id: taskId });
+    return data.task;
+  }
+
+  /**
+   * Put the alpha in (or take it out of) draining mode, rejecting new queries and mutations
+   */
+  async setDraining(enable: boolean): Promise<AdminResponse> {
+    const data = await this.execute(`mutation Draining($enable: Boolean) {
+      draining(enable: $enable) {
+        response { code message }
+      }
+    }`, { enable });
+    return data.draining.response;
+  }
+
+  async getConfig(): Promise<ConfigInput> {
+    const data = await this.execute(`query {
+      config {
+        cacheMb
+      }
+    }`);
+    return data?.config || {};
+  }
+
+  async updateConfig(input: ConfigInput): Promise<AdminResponse> {
+    const data = await this.execute(`mutation Config($input: ConfigInput!) {
+      config(input: $input) {
+        response { code message }
+      }
+    }`, { input });
+    return data.config.response;
+  }
+
+  async shutdown(): Promise<AdminResponse> {
+    const data = await this.execute(`mutation {
+      shutdown {
+        response { code message }
+      }
+    }`);
+    return data.shutdown.response;
+  }
+}
+
+export default AdminService;
@@ -0,0 +1,1385 @@
+import { AxiosAdapter, AxiosError, AxiosResponse, CanceledError } from 'axios';
+import {
+  DqlBlock,
+  DqlDirective,
+  DqlField,
+  DqlSelection,
+  DqlToken,
+  parseDql,
+  tokenizeDql,
+} from '@/utils/dqlParser';
+
+/**
+ * In-process fake of a Dgraph alpha for demo mode and tests. It answers
+ * /query, /mutate, /commit, /alter, /health and /state from an in-memory
+ * store, for a subset of DQL:
+ * - root and filter functions uid, uid_in, has, type, eq, ge, gt, le, lt,
+ *   between, anyofterms, allofterms, anyoftext, alloftext and regexp,
+ *   combined with and/or/not
+ * - first, offset, after, orderasc and orderdesc on blocks and edges
+ * - aliases, language tags, reverse edges, count(), expand(), uid and
+ *   value variables, count(uid) and min/max/sum/avg(val(x)), @cascade and @groupby
+ * - JSON and RDF set/delete mutations, transactions and schema changes
+ *   (the last commit wins; conflicts between transactions are not detected)
+ * Upsert blocks, math(), facets, @recurse and @normalize are rejected.
+ */
+
+export interface PredicateSchema {
+  predicate: string;
+  type: string;
+  index?: boolean;
+  tokenizer?: string[];
+  reverse?: boolean;
+  count?: boolean;
+  list?: boolean;
+  upsert?: boolean;
+  lang?: boolean;
+}
+
+export interface EmulatorRequest {
+  method: string;
+  // Request path, e.g. /dgraph/query or /query
+  path: string;
+  body?: any;
+  params?: Record<string, any>;
+  contentType?: string;
+}
+
+export interface EmulatorResponse {
+  status: number;
+  data: any;
+}
+
+// A stored edge has a uid, a stored scalar has a value (and maybe a language)
+interface StoredValue {
+  uid?: string;
+  value?: unknown;
+  lang?: string;
+}
+
+type StoredNode = Map<string, StoredValue[]>;
+
+interface EmulatorState {
+  nodes: Map<string, StoredNode>;
+  schema: Map<string, PredicateSchema>;
+  types: Map<string, string[]>;
+}
+
+interface FunctionCall {
+  name: string;
+  args: FunctionArg[];
+}
+
+type FunctionArg =
+  | { kind: 'name'; name: string }
+  | { kind: 'value'; value: unknown }
+  | { kind: 'regex'; pattern: RegExp }
+  | { kind: 'list'; items: FunctionArg[] }
+  | { kind: 'call'; call: FunctionCall };
+
+type FilterNode =
+  | { op: 'and' | 'or'; children: FilterNode[] }
+  | { op: 'not'; child: FilterNode }
+  | { op: 'call'; call: FunctionCall };
+
+interface QueryContext {
+  state: EmulatorState;
+  variables: Record<string, unknown>;
+  uidVars: Map<string, Set<string>>;
+  valueVars: Map<string, Map<string, unknown>>;
+}
+
+export const EMULATOR_VERSION = 'emulator';
+
+const SCALAR_TYPES = ['default', 'string', 'int', 'float', 'bool', 'datetime', 'geo', 'password', 'uid', 'float32vector'];
+
+const INDEXED_FUNCTIONS = ['eq', 'ge', 'gt', 'le', 'lt', 'between', 'anyofterms', 'allofterms', 'anyoftext', 'alloftext', 'regexp'];
+
+const UNSUPPORTED_DIRECTIVES = ['recurse', 'normalize', 'facets', 'ignorereflex'];
+
+const DGRAPH_TYPE = 'dgraph.type';
+
+/**
+ * Thrown for requests Dgraph would reject; becomes an errors body
+ */
+class EmulatorRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'EmulatorRequestError';
+    this.status = status;
+  }
+}
+
+const errorBody = (message: string) => ({
+  errors: [{ message, extensions: { code: 'ErrorInvalidRequest' } }],
+  data: null,
+});
+
+const uidNumber = (uid: string) => parseInt(uid, 16);
+
+const sortUids = (uids: Iterable<string>) => Array.from(new Set(uids)).sort((a, b) => uidNumber(a) - uidNumber(b));
+
+const isUidLiteral = (value: string) => /^0x[0-9a-f]+$/i.test(value);
+
+const normalizeUid = (value: string) => `0x${uidNumber(value).toString(16)}`;
+
+const words = (value: unknown) => String(value).toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+/**
+ * 1-based line and column of an offset, as Dgraph reports them
+ */
+const toLineColumn = (text: string, offset: number) => {
+  const before = text.substring(0, offset).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+};
+
+function compareValues(a: unknown, b: unknown): number {
+  if (typeof a === 'number' || typeof b === 'number') {
+    return Number(a) - Number(b);
+  }
+  const left = String(a);
+  const right = String(b);
+  if (/^\d{4}-\d{2}/.test(left) && /^\d{4}-\d{2}/.test(right)) {
+    return Date.parse(left) - Date.parse(right);
+  }
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+function createState(): EmulatorState {
+  return {
+    nodes: new Map(),
+    schema: new Map([[DGRAPH_TYPE, { predicate: DGRAPH_TYPE, type: 'string', index: true, tokenizer: ['exact'], list: true }]]),
+    types: new Map(),
+  };
+}
+
+function cloneState(state: EmulatorState): EmulatorState {
+  const nodes = new Map<string, StoredNode>();
+  state.nodes.forEach((node, uid) => {
+    nodes.set(uid, new Map(Array.from(node, ([predicate, values]) => [predicate, [...values]])));
+  });
+  return {
+    nodes,
+    schema: new Map(Array.from(state.schema, ([predicate, entry]) => [predicate, { ...entry }])),
+    types: new Map(Array.from(state.types, ([name, fields]) => [name, [...fields]])),
+  };
+}
+
+/**
+ * Reads function calls and arguments from the tokens of an argument list,
+ * e.g. func: eq(name, "Alice"), first: 10 or has(email) AND NOT uid($id)
+ */
+class ArgumentReader {
+  private tokens: DqlToken[];
+  private pos = 0;
+  private variables: Record<string, unknown>;
+
+  constructor(raw: string, variables: Record<string, unknown>) {
+    this.tokens = tokenizeDql(raw).tokens.filter(token => token.type !== 'comment');
+    this.variables = variables;
+  }
+
+  private peek(offset = 0) {
+    return this.tokens[this.pos + offset];
+  }
+
+  private is(value: string, offset = 0) {
+    const token = this.peek(offset);
+    return !!token && token.type === 'punct' && token.value === value;
+  }
+
+  private expect(value: string) {
+    if (!this.is(value)) {
+      const token = this.peek();
+      throw new EmulatorRequestError(token ? `Expected '${value}', got '${token.value}'` : `Expected '${value}'`);
+    }
+    this.pos++;
+  }
+
+  done() {
+    return this.pos >= this.tokens.length;
+  }
+
+  /**
+   * Read a name, joining uid literals (0x1 tokenizes as 0 and x1) and language tags (name@en)
+   */
+  private readName(): string {
+    const token = this.tokens[this.pos++];
+    let name = token.type === 'iri' ? token.value.slice(1, -1) : token.value;
+    let end = token.end;
+
+    const next = this.peek();
+    if (token.type === 'number' && next?.type === 'name' && next.start === end) {
+      name += next.value;
+      end = next.end;
+      this.pos++;
+    }
+    while (this.is('@') && this.peek()!.start === end && this.peek(1)?.start === end + 1) {
+      name += `@${this.peek(1)!.value}`;
+      end = this.peek(1)!.end;
+      this.pos += 2;
+    }
+    return name;
+  }
+
+  private resolveVariable(name: string): unknown {
+    if (name in this.variables) return this.variables[name];
+    if (name.slice(1) in this.variables) return this.variables[name.slice(1)];
+    throw new EmulatorRequestError(`Variable ${name} not defined`);
+  }
+
+  readArgument(): FunctionArg {
+    const token = this.peek();
+    if (!token) {
+      throw new EmulatorRequestError('Unexpected end of arguments');
+    }
+
+    if (this.is('[')) {
+      this.pos++;
+      const items: FunctionArg[] = [];
+      while (this.peek() && !this.is(']')) {
+        if (this.is(',')) {
+          this.pos++;
+          continue;
+        }
+        items.push(this.readArgument());
+      }
+      this.expect(']');
+      return { kind: 'list', items };
+    }
+
+    switch (token.type) {
+      case 'string':
+        this.pos++;
+        try {
+          return { kind: 'value', value: JSON.parse(token.value) };
+        } catch {
+          return { kind: 'value', value: token.value.slice(1, -1) };
+        }
+      case 'regex': {
+        this.pos++;
+        const match = /^\/(.*)\/([a-z]*)$/i.exec(token.value);
+        return { kind: 'regex', pattern: new RegExp(match?.[1] ?? '', match?.[2]) };
+      }
+      case 'variable':
+        this.pos++;
+        return { kind: 'value', value: this.resolveVariable(token.value) };
+      case 'number': {
+        const name = this.readName();
+        return isUidLiteral(name) ? { kind: 'name', name } : { kind: 'value', value: Number(name) };
+      }
+      case 'name':
+      case 'iri':
+        if (this.is('(', 1)) {
+          return { kind: 'call', call: this.readCall() };
+        }
+        return { kind: 'name', name: this.readName() };
+      default:
+        if (token.value === '-' && this.peek(1)?.type === 'number') {
+          this.pos++;
+          return { kind: 'value', value: -Number(this.readName()) };
+        }
+        throw new EmulatorRequestError(`Unexpected '${token.value}' in arguments`);
+    }
+  }
+
+  readCall(): FunctionCall {
+    const name = this.readName();
+    this.expect('(');
+    const args: FunctionArg[] = [];
+    while (this.peek() && !this.is(')')) {
+      if (this.is(',')) {
+        this.pos++;
+        continue;
+      }
+      args.push(this.readArgument());
+    }
+    this.expect(')');
+    return { name: name.toLowerCase(), args };
+  }
+
+  /**
+   * Read key: value pairs, e.g. func: has(name), first: 2, orderasc: name
+   */
+  readKeyValues(): Array<[string, FunctionArg]> {
+    const pairs: Array<[string, FunctionArg]> = [];
+    while (!this.done()) {
+      if (this.is(',')) {
+        this.pos++;
+        continue;
+      }
+      const key = this.readName();
+      this.expect(':');
+      pairs.push([key, this.readArgument()]);
+    }
+    return pairs;
+  }
+
+  readFilter(): FilterNode {
+    const node = this.readOr();
+    if (!this.done()) {
+      throw new EmulatorRequestError(`Unexpected '${this.peek()!.value}' in filter`);
+    }
+    return node;
+  }
+
+  private isKeyword(keyword: string) {
+    const token = this.peek();
+    return !!token && token.type === 'name' && token.value.toLowerCase() === keyword;
+  }
+
+  private readOr(): FilterNode {
+    const children = [this.readAnd()];
+    while (this.isKeyword('or')) {
+      this.pos++;
+      children.push(this.readAnd());
+    }
+    return children.length === 1 ? children[0] : { op: 'or', children };
+  }
+
+  private readAnd(): FilterNode {
+    const children = [this.readUnary()];
+    while (this.isKeyword('and')) {
+      this.pos++;
+      children.push(this.readUnary());
+    }
+    return children.length === 1 ? children[0] : { op: 'and', children };
+  }
+
+  private readUnary(): FilterNode {
+    if (this.isKeyword('not')) {
+      this.pos++;
+      return { op: 'not', child: this.readUnary() };
+    }
+    if (this.is('(')) {
+      this.pos++;
+      const node = this.readOr();
+      this.expect(')');
+      return node;
+    }
+    return { op: 'call', call: this.readCall() };
+  }
+}
+
+class DgraphEmulator {
+  private state: EmulatorState = createState();
+  private transactions = new Map<number, EmulatorState>();
+  private nextUid = 1;
+  private timestamp = 1;
+  private startedAt = Date.now();
+
+  /**
+   * Apply a schema and JSON mutation, e.g. a demo dataset
+   */
+  load(schema: string, data?: Record<string, any>) {
+    this.alterSchema(this.state, schema);
+    if (data) {
+      this.applyJsonMutation(this.state, data, {});
+    }
+  }
+
+  /**
+   * Axios adapter that answers requests from this emulator instead of the network
+   */
+  createAdapter(): AxiosAdapter {
+    return async (config) => {
+      if (config.signal?.aborted) {
+        throw new CanceledError(undefined, undefined, config);
+      }
+
+      const url = new URL(config.url ?? '/', 'http://emulator');
+      const params: Record<string, any> = Object.fromEntries(url.searchParams);
+      const contentType = String(config.headers?.['Content-Type'] ?? '');
+      let body = config.data;
+      if (typeof body === 'string' && !contentType.includes('rdf')) {
+        try {
+          body = JSON.parse(body);
+        } catch {
+          // Raw text, e.g. a schema for /alter
+        }
+      }
+
+      const { status, data } = this.handleRequest({
+        method: (config.method ?? 'get').toUpperCase(),
+        path: url.pathname,
+        body,
+        params: { ...params, ...config.params },
+        contentType,
+      });
+
+      const response: AxiosResponse = {
+        data,
+        status,
+        statusText: status < 400 ? 'OK' : 'Bad Request',
+        headers: { 'content-type': 'application/json' },
+        config,
+        request: {},
+      };
+      if (status >= 400) {
+        const code = status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST;
+        throw new AxiosError(`Request failed with status code ${status}`, code, config, {}, response);
+      }
+      return response;
+    };
+  }
+
+  /**
+   * Answer one HTTP request the way a Dgraph alpha would
+   */
+  handleRequest(request: EmulatorRequest): EmulatorResponse {
+    const route = request.path.replace(/\/+$/, '').replace(/^.*?\/(dgraph\/)?(query|mutate|commit|alter|health|state|admin|graphql)$/, '/$2');
+    const params = request.params || {};
+
+    try {
+      switch (route) {
+        case '/query':
+          return { status: 200, data: this.query(request.body) };
+        case '/mutate':
+          return { status: 200, data: this.mutate(request.body, params, request.contentType) };
+        case '/commit':
+          return { status: 200, data: this.commit(params) };
+        case '/alter':
+          return { status: 200, data: this.alter(request.body) };
+        case '/health':
+          return { status: 200, data: [this.health()] };
+        case '/state':
+          return { status: 200, data: this.clusterState() };
+        case '/admin':
+        case '/graphql':
+          // GraphQL endpoints report errors with a 200 status
+          return { status: 200, data: errorBody(`The emulator does not implement ${route}`) };
+        default:
+          return { status: 404, data: errorBody(`The emulator does not implement ${request.path}`) };
+      }
+    } catch (error) {
+      if (error instanceof EmulatorRequestError) {
+        return { status: error.status, data: errorBody(error.message) };
+      }
+      console.error('Emulator request failed:', error);
+      return { status: 500, data: errorBody(error instanceof Error ? error.message : String(error)) };
+    }
+  }
+
+  private health() {
+    return {
+      instance: 'alpha',
+      address: 'emulator:7080',
+      status: 'healthy',
+      group: '1',
+      version: EMULATOR_VERSION,
+      uptime: Math.floor((Date.now() - this.startedAt) / 1000),
+      lastEcho: Math.floor(Date.now() / 1000),
+      ongoing: [],
+      ee_features: [],
+    };
+  }
+
+  private clusterState() {
+    const tablets: Record<string, any> = {};
+    this.state.schema.forEach((_entry, predicate) => {
+      tablets[predicate] = { groupId: 1, predicate, onDiskBytes: '0', uncompressedBytes: '0' };
+    });
+    return {
+      counter: String(this.timestamp),
+      groups: {
+        '1': {
+          members: { '1': { id: '1', groupId: 1, addr: 'emulator:7080', leader: true, lastUpdate: String(Math.floor(this.startedAt / 1000)) } },
+          tablets,
+        },
+      },
+      zeros: { '1': { id: '1', addr: 'emulator:5080', leader: true } },
+      maxUID: String(this.nextUid),
+      maxTxnTs: String(this.timestamp),
+      cid: EMULATOR_VERSION,
+    };
+  }
+
+  // Queries
+
+  private query(body: any) {
+    const text = typeof body === 'string' ? body : body?.query;
+    if (typeof text !== 'string' || !text.trim()) {
+      throw new EmulatorRequestError('Empty query');
+    }
+
+    const started = Date.now();
+    const data = this.runQuery(text, typeof body === 'object' ? body?.variables || {} : {});
+    const totalNs = (Date.now() - started) * 1e6;
+
+    return {
+      data,
+      extensions: {
+        server_latency: { parsing_ns: 0, processing_ns: totalNs, encoding_ns: 0, total_ns: totalNs },
+        txn: { start_ts: this.timestamp++ },
+      },
+    };
+  }
+
+  private runQuery(text: string, variables: Record<string, unknown>) {
+    const document = parseDql(text);
+    if (document.errors.length > 0) {
+      const error = document.errors[0];
+      const { line, column } = toLineColumn(text, error.from);
+      throw new EmulatorRequestError(`line ${line} column ${column}: ${error.message}`);
+    }
+
+    if (document.isSchemaQuery) {
+      return this.schemaResult(text);
+    }
+
+    // Declared variables fall back to their default values
+    const resolved: Record<string, unknown> = { ...variables };
+    document.operation?.variables.forEach(definition => {
+      if (!(definition.name in resolved) && !(definition.name.slice(1) in resolved) && definition.defaultValue !== undefined) {
+        const literal = new ArgumentReader(definition.defaultValue, {}).readArgument();
+        resolved[definition.name] = literal.kind === 'value' ? literal.value : definition.defaultValue;
+      }
+    });
+
+    const context: QueryContext = { state: this.state, variables: resolved, uidVars: new Map(), valueVars: new Map() };
+    const data: Record<string, unknown> = {};
+
+    // var blocks run first so later blocks can use their variables
+    const ordered = [...document.blocks.filter(block => block.isVar), ...document.blocks.filter(block => !block.isVar)];
+    ordered.forEach(block => {
+      const result = this.runBlock(context, block);
+      if (!block.isVar) {
+        data[block.name] = result;
+      }
+    });
+
+    return data;
+  }
+
+  private runBlock(context: QueryContext, block: DqlBlock): unknown[] {
+    this.assertSupported(block.directives);
+
+    const args = new Map(block.args ? new ArgumentReader(block.args.raw, context.variables).readKeyValues() : []);
+    const func = args.get('func');
+
+    let uids: string[] = [];
+    if (func) {
+      if (func.kind !== 'call') {
+        throw new EmulatorRequestError(`Invalid func in block ${block.name}`);
+      }
+      uids = this.rootUids(context, func.call);
+    }
+
+    uids = this.applyFilters(context, uids, block.directives);
+    uids = this.paginate(context, uids, args);
+
+    if (block.varName) {
+      this.addUidVar(context, block.varName, uids);
+    }
+
+    const groupBy = block.directives.find(directive => directive.name === 'groupby');
+    if (groupBy) {
+      return this.renderGroups(context, uids, groupBy, block.selection);
+    }
+
+    const cascade = block.directives.some(directive => directive.name === 'cascade');
+    return this.renderList(context, uids, block.selection, cascade);
+  }
+
+  private assertSupported(directives: DqlDirective[]) {
+    const unsupported = directives.find(directive => UNSUPPORTED_DIRECTIVES.includes(directive.name));
+    if (unsupported) {
+      throw new EmulatorRequestError(`The emulator does not support @${unsupported.name}`);
+    }
+  }
+
+  private addUidVar(context: QueryContext, name: string, uids: string[]) {
+    const existing = context.uidVars.get(name) ?? new Set<string>();
+    uids.forEach(uid => existing.add(uid));
+    context.uidVars.set(name, existing);
+  }
+
+  private rootUids(context: QueryContext, call: FunctionCall): string[] {
+    if (call.name === 'uid') {
+      return sortUids(this.uidArguments(context, call.args));
+    }
+    const uids = Array.from(context.state.nodes.keys());
+    return sortUids(uids.filter(uid => this.matches(context, uid, call)));
+  }
+
+  private uidArguments(context: QueryContext, args: FunctionArg[]): string[] {
+    return args.flatMap(arg => {
+      if (arg.kind === 'list') return this.uidArguments(context, arg.items);
+      const value = arg.kind === 'name' ? arg.name : arg.kind === 'value' ? String(arg.value) : '';
+      if (isUidLiteral(value)) return [normalizeUid(value)];
+      if (arg.kind === 'name') return Array.from(context.uidVars.get(arg.name) ?? []);
+      // Variables may hold a comma separated list of uids
+      return value.split(/[\s,[\]]+/).filter(isUidLiteral).map(normalizeUid);
+    });
+  }
+
+  private applyFilters(context: QueryContext, uids: string[], directives: DqlDirective[]): string[] {
+    const filter = directives.find(directive => directive.name === 'filter');
+    if (!filter?.args) {
+      return uids;
+    }
+    const node = new ArgumentReader(filter.args.raw, context.variables).readFilter();
+    return uids.filter(uid => this.evaluateFilter(context, uid, node));
+  }
+
+  private evaluateFilter(context: QueryContext, uid: string, node: FilterNode): boolean {
+    switch (node.op) {
+      case 'and':
+        return node.children.every(child => this.evaluateFilter(context, uid, child));
+      case 'or':
+        return node.children.some(child => this.evaluateFilter(context, uid, child));
+      case 'not':
+        return !this.evaluateFilter(context, uid, node.child);
+      case 'call':
+        return this.matches(context, uid, node.call);
+    }
+  }
+
+  /**
+   * Values a function compares against: those of a predicate, count(p) or val(x)
+   */
+  private subjectValues(context: QueryContext, uid: string, arg: FunctionArg | undefined, functionName: string): unknown[] {
+    if (arg?.kind === 'call' && arg.call.name === 'count') {
+      const predicate = arg.call.args[0];
+      return predicate?.kind === 'name' ? [this.getValues(context.state, uid, predicate.name).length] : [];
+    }
+    if (arg?.kind === 'call' && arg.call.name === 'val') {
+      const variable = arg.call.args[0];
+      const value = variable?.kind === 'name' ? context.valueVars.get(variable.name)?.get(uid) : undefined;
+      return value === undefined ? [] : [value];
+    }
+    if (arg?.kind !== 'name') {
+      throw new EmulatorRequestError(`Function ${functionName} expects a predicate as its first argument`);
+    }
+
+    const predicate = arg.name.split('@')[0];
+    const schema = context.state.schema.get(predicate);
+    if (INDEXED_FUNCTIONS.includes(functionName) && !schema?.index) {
+      throw new EmulatorRequestError(`Predicate ${predicate} is not indexed`);
+    }
+    return this.getValues(context.state, uid, arg.name).map(stored => stored.uid ?? stored.value);
+  }
+
+  private literalValues(args: FunctionArg[]): unknown[] {
+    return args.flatMap(arg => {
+      if (arg.kind === 'list') return this.literalValues(arg.items);
+      if (arg.kind === 'value') return [arg.value];
+      if (arg.kind === 'name') return [arg.name];
+      return [];
+    });
+  }
+
+  private matches(context: QueryContext, uid: string, call: FunctionCall): boolean {
+    const [first, ...rest] = call.args;
+
+    switch (call.name) {
+      case 'uid':
+        return this.uidArguments(context, call.args).includes(uid);
+      case 'has':
+        return first?.kind === 'name' && this.getValues(context.state, uid, first.name).length > 0;
+      case 'type':
+        return this.getValues(context.state, uid, DGRAPH_TYPE).some(stored => stored.value === this.literalValues(call.args)[0]);
+      case 'uid_in': {
+        const targets = this.uidArguments(context, rest);
+        return first?.kind === 'name' && this.getValues(context.state, uid, first.name).some(stored => stored.uid && targets.includes(stored.uid));
+      }
+      case 'eq': {
+        const expected = this.literalValues(rest);
+        return this.subjectValues(context, uid, first, call.name).some(value => expected.some(item => compareValues(value, item) === 0));
+      }
+      case 'ge':
+      case 'gt':
+      case 'le':
+      case 'lt': {
+        const [bound] = this.literalValues(rest);
+        return this.subjectValues(context, uid, first, call.name).some(value => {
+          const order = compareValues(value, bound);
+          return call.name === 'ge' ? order >= 0 : call.name === 'gt' ? order > 0 : call.name === 'le' ? order <= 0 : order < 0;
+        });
+      }
+      case 'between': {
+        const [low, high] = this.literalValues(rest);
+        return this.subjectValues(context, uid, first, call.name).some(value =>
+          compareValues(value, low) >= 0 && compareValues(value, high) <= 0
+        );
+      }
+      case 'anyofterms':
+      case 'anyoftext':
+      case 'allofterms':
+      case 'alloftext': {
+        const terms = words(this.literalValues(rest).join(' '));
+        const requireAll = call.name.startsWith('allof');
+        return this.subjectValues(context, uid, first, call.name).some(value => {
+          const valueWords = words(value);
+          return requireAll
+            ? terms.length > 0 && terms.every(term => valueWords.includes(term))
+            : terms.some(term => valueWords.includes(term));
+        });
+      }
+      case 'regexp': {
+        const pattern = rest[0]?.kind === 'regex' ? rest[0].pattern : null;
+        if (!pattern) {
+          throw new EmulatorRequestError('regexp expects a regular expression as its second argument');
+        }
+        return this.subjectValues(context, uid, first, call.name).some(value => pattern.test(String(value)));
+      }
+      default:
+        throw new EmulatorRequestError(`Invalid function name: ${call.name}`);
+    }
+  }
+
+  private paginate(context: QueryContext, uids: string[], args: Map<string, FunctionArg>): string[] {
+    let result = uids;
+
+    const orderAsc = args.get('orderasc');
+    const orderDesc = args.get('orderdesc');
+    const order = orderAsc ?? orderDesc;
+    if (order?.kind === 'name') {
+      const direction = orderAsc ? 1 : -1;
+      const key = (uid: string) => this.getValues(context.state, uid, order.name)[0]?.value;
+      result = [...result].sort((a, b) => {
+        const left = key(a);
+        const right = key(b);
+        // Nodes without a value always go last
+        if (left === undefined || right === undefined) {
+          return left === undefined ? (right === undefined ? 0 : 1) : -1;
+        }
+        return direction * compareValues(left, right);
+      });
+    }
+
+    const numberArg = (name: string) => {
+      const arg = args.get(name);
+      return arg?.kind === 'value' ? Number(arg.value) : undefined;
+    };
+
+    const after = args.get('after');
+    if (after?.kind === 'name' && isUidLiteral(after.name)) {
+      result = result.filter(uid => uidNumber(uid) > uidNumber(after.name));
+    }
+
+    const offset = numberArg('offset') ?? 0;
+    const first = numberArg('first');
+    result = result.slice(offset);
+    if (first !== undefined) {
+      result = first < 0 ? result.slice(first) : result.slice(0, first);
+    }
+    return result;
+  }
+
+  /**
+   * Stored values of a predicate. Supports reverse edges (~follows) and
+   * language tags: name@en, name@en:fr (first available) and name@. (any).
+   */
+  private getValues(state: EmulatorState, uid: string, name: string): StoredValue[] {
+    const [predicate, languages] = name.split('@');
+
+    if (predicate.startsWith('~')) {
+      const forward = predicate.slice(1);
+      const sources: StoredValue[] = [];
+      state.nodes.forEach((node, source) => {
+        if (node.get(forward)?.some(stored => stored.uid === uid)) {
+          sources.push({ uid: source });
+        }
+      });
+      return sources;
+    }
+
+    const values = state.nodes.get(uid)?.get(predicate) ?? [];
+    if (languages === undefined) {
+      return values.filter(stored => !stored.lang);
+    }
+    if (languages === '.') {
+      const untagged = values.filter(stored => !stored.lang);
+      return untagged.length > 0 ? untagged : values.slice(0, 1);
+    }
+    for (const lang of languages.split(':')) {
+      const tagged = values.filter(stored => stored.lang === lang);
+      if (tagged.length > 0) return tagged;
+    }
+    return [];
+  }
+
+  private renderList(context: QueryContext, uids: string[], selection: DqlSelection | undefined, cascade: boolean): unknown[] {
+    const fields = selection?.fields ?? [];
+    const results: Record<string, unknown>[] = [];
+
+    uids.forEach(uid => {
+      const object = this.renderNode(context, uid, fields, cascade);
+      if (Object.keys(object).length === 0) return;
+      // @cascade drops nodes missing any of the requested fields
+      const required = fields.filter(field => field.kind !== 'aggregate' && field.kind !== 'expand');
+      if (cascade && required.some(field => !(this.fieldKey(field) in object))) return;
+      results.push(object);
+    });
+
+    // Aggregates come back as separate objects after the nodes
+    fields.filter(field => field.kind === 'aggregate').forEach(field => {
+      results.push({ [this.fieldKey(field)]: this.aggregate(context, field, uids) });
+    });
+
+    return results;
+  }
+
+  private fieldKey(field: DqlField): string {
+    if (field.alias) return field.alias;
+    if (field.kind === 'aggregate' && field.name.toLowerCase() === 'count') return 'count';
+    if (field.args && field.kind !== 'predicate') return `${field.name}(${field.args.raw.trim()})`;
+    return field.languages ? `${field.name}@${field.languages}` : field.name;
+  }
+
+  private aggregate(context: QueryContext, field: DqlField, uids: string[]): unknown {
+    const name = field.name.toLowerCase();
+    if (name === 'count') {
+      return uids.length;
+    }
+
+    const variable = /^val\s*\(\s*(\w+)\s*\)$/.exec(field.args?.raw.trim() ?? '');
+    if (!variable) {
+      throw new EmulatorRequestError(`${name}() expects a value variable, e.g. ${name}(val(x))`);
+    }
+    const values = Array.from(context.valueVars.get(variable[1])?.values() ?? []);
+    if (values.length === 0) return null;
+
+    if (name === 'min' || name === 'max') {
+      return values.reduce((best, value) => (name === 'min' ? compareValues(value, best) < 0 : compareValues(value, best) > 0) ? value : best);
+    }
+    const sum = values.reduce<number>((total, value) => total + Number(value), 0);
+    return name === 'sum' ? sum : sum / values.length;
+  }
+
+  private renderNode(context: QueryContext, uid: string, fields: DqlField[], cascade: boolean): Record<string, unknown> {
+    const object: Record<string, unknown> = {};
+
+    fields.forEach(field => {
+      this.assertSupported(field.directives);
+      const key = this.fieldKey(field);
+
+      switch (field.kind) {
+        case 'uid':
+          object[key] = uid;
+          if (field.varName) this.addUidVar(context, field.varName, [uid]);
+          break;
+        case 'count':
+          object[key] = this.getValues(context.state, uid, field.args!.raw.trim()).length;
+          break;
+        case 'value': {
+          const value = context.valueVars.get(field.args!.raw.trim())?.get(uid);
+          if (value !== undefined) object[key] = value;
+          break;
+        }
+        case 'expand':
+          this.expandPredicates(context, uid, field.args!.raw.trim()).forEach(predicate => {
+            const expanded: DqlField = { ...field, kind: 'predicate', name: predicate, alias: undefined, args: undefined, directives: [] };
+            this.renderPredicate(context, uid, expanded, predicate, object, cascade);
+          });
+          break;
+        case 'math':
+          throw new EmulatorRequestError('The emulator does not support math()');
+        case 'aggregate':
+          // Rendered once per list in renderList
+          break;
+        default:
+          this.renderPredicate(context, uid, field, key, object, cascade);
+      }
+    });
+
+    return object;
+  }
+
+  private expandPredicates(context: QueryContext, uid: string, argument: string): string[] {
+    const node = context.state.nodes.get(uid);
+    if (argument !== '_all_') {
+      return context.state.types.get(argument) ?? [];
+    }
+
+    const typeNames = this.getValues(context.state, uid, DGRAPH_TYPE).map(stored => String(stored.value));
+    const typeFields = typeNames.flatMap(name => context.state.types.get(name) ?? []);
+    const predicates = typeFields.length > 0
+      ? typeFields
+      : Array.from(node?.keys() ?? []).filter(predicate => predicate !== DGRAPH_TYPE);
+    return Array.from(new Set(predicates));
+  }
+
+  private renderPredicate(
+    context: QueryContext,
+    uid: string,
+    field: DqlField,
+    key: string,
+    object: Record<string, unknown>,
+    cascade: boolean
+  ) {
+    const name = field.languages ? `${field.name}@${field.languages}` : field.name;
+    const values = this.getValues(context.state, uid, name);
+    const edges = values.filter(stored => stored.uid).map(stored => stored.uid!);
+    const scalars = values.filter(stored => !stored.uid);
+    const schema = context.state.schema.get(field.name);
+
+    if (edges.length > 0 || (field.selection && schema?.type === 'uid') || field.name.startsWith('~')) {
+      // Edges are only returned with a selection, as in Dgraph
+      if (!field.selection) return;
+
+      const args = new Map(field.args ? new ArgumentReader(field.args.raw, context.variables).readKeyValues() : []);
+      let targets = this.applyFilters(context, sortUids(edges), field.directives);
+      targets = this.paginate(context, targets, args);
+      if (field.varName) this.addUidVar(context, field.varName, targets);
+
+      const nestedCascade = cascade || field.directives.some(directive => directive.name === 'cascade');
+      const children = this.renderList(context, targets, field.selection, nestedCascade);
+      if (children.length === 0) return;
+
+      const single = schema && !schema.list && !field.name.startsWith('~');
+      object[key] = single ? children[0] : children;
+      return;
+    }
+
+    if (scalars.length === 0) return;
+
+    if (field.varName) {
+      const variable = context.valueVars.get(field.varName) ?? new Map<string, unknown>();
+      variable.set(uid, scalars[0].value);
+      context.valueVars.set(field.varName, variable);
+    }
+
+    const isList = schema?.list || scalars.length > 1;
+    object[key] = isList ? scalars.map(stored => stored.value) : scalars[0].value;
+  }
+
+  private renderGroups(context: QueryContext, uids: string[], directive: DqlDirective, selection: DqlSelection | undefined) {
+    const predicate = directive.args?.raw.trim() ?? '';
+    const groups = new Map<string, { value: unknown; uids: string[] }>();
+
+    uids.forEach(uid => {
+      this.getValues(context.state, uid, predicate).forEach(stored => {
+        const value = stored.uid ?? stored.value;
+        const groupKey = JSON.stringify(value);
+        const group = groups.get(groupKey) ?? { value, uids: [] };
+        group.uids.push(uid);
+        groups.set(groupKey, group);
+      });
+    });
+
+    const aggregates = (selection?.fields ?? []).filter(field => field.kind === 'aggregate');
+    const rows = Array.from(groups.values()).map(group => {
+      const row: Record<string, unknown> = { [predicate]: group.value };
+      aggregates.forEach(field => {
+        row[this.fieldKey(field)] = this.aggregate(context, field, group.uids);
+      });
+      return row;
+    });
+
+    return rows.length > 0 ? [{ '@groupby': rows }] : [];
+  }
+
+  /**
+   * schema {}, schema(pred: [name, age]) {} and schema(type: Person) {}
+   */
+  private schemaResult(text: string) {
+    const predicateFilter = /pred\s*:\s*\[?([^\])]*)/.exec(text)?.[1];
+    const typeFilter = /type\s*:\s*\[?([^\])]*)/.exec(text)?.[1];
+    const listOf = (value: string | undefined) => value?.split(/[\s,]+/).filter(Boolean);
+
+    const predicates = listOf(predicateFilter);
+    const typeNames = listOf(typeFilter);
+
+    const schema = Array.from(this.state.schema.values())
+      .filter(entry => !predicates || predicates.includes(entry.predicate))
+      .sort((a, b) => a.predicate.localeCompare(b.predicate))
+      .map(entry => Object.fromEntries(Object.entries(entry).filter(([, value]) => value !== undefined && value !== false)));
+
+    const types = Array.from(this.state.types, ([name, fields]) => ({ name, fields: fields.map(field => ({ name: field })) }))
+      .filter(type => !typeNames || typeNames.includes(type.name))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    if (typeNames) return { types };
+    if (predicates) return { schema };
+    return { schema, types };
+  }
+
+  // Mutations
+
+  private getTransactionState(startTs?: number): { state: EmulatorState; startTs: number } {
+    if (startTs && this.transactions.has(startTs)) {
+      return { state: this.transactions.get(startTs)!, startTs };
+    }
+    if (startTs) {
+      throw new EmulatorRequestError(`Transaction ${startTs} has been aborted or committed`);
+    }
+    const newStartTs = this.timestamp++;
+    const state = cloneState(this.state);
+    this.transactions.set(newStartTs, state);
+    return { state, startTs: newStartTs };
+  }
+
+  private mutate(body: any, params: Record<string, any>, contentType = '') {
+    if (body && typeof body === 'object' && ('query' in body || 'mutations' in body)) {
+      throw new EmulatorRequestError('The emulator does not support upsert blocks');
+    }
+
+    const { state, startTs } = this.getTransactionState(Number(params.startTs) || undefined);
+    const blanks: Record<string, string> = {};
+
+    try {
+      if (typeof body === 'string' || contentType.includes('rdf')) {
+        this.applyRdfMutation(state, String(body), blanks);
+      } else {
+        this.applyJsonMutation(state, body, blanks);
+      }
+    } catch (error) {
+      // A failed mutation aborts its transaction, as in Dgraph
+      this.transactions.delete(startTs);
+      throw error;
+    }
+
+    const commitNow = params.commitNow === true || params.commitNow === 'true';
+    const txn: Record<string, unknown> = { start_ts: startTs, keys: [], preds: [] };
+    if (commitNow) {
+      txn.commit_ts = this.commitTransaction(startTs);
+    }
+
+    return {
+      data: { code: 'Success', message: 'Done', queries: null, uids: blanks },
+      extensions: { txn },
+    };
+  }
+
+  private commitTransaction(startTs: number): number {
+    const state = this.transactions.get(startTs);
+    if (!state) {
+      throw new EmulatorRequestError(`Transaction ${startTs} has been aborted or committed`);
+    }
+    this.transactions.delete(startTs);
+    this.state = state;
+    return this.timestamp++;
+  }
+
+  private commit(params: Record<string, any>) {
+    const startTs = Number(params.startTs);
+    if (params.abort === true || params.abort === 'true') {
+      this.transactions.delete(startTs);
+      return { data: { code: 'Success', message: 'Done' }, extensions: { txn: { start_ts: startTs, aborted: true } } };
+    }
+    const commitTs = this.commitTransaction(startTs);
+    return { data: { code: 'Success', message: 'Done' }, extensions: { txn: { start_ts: startTs, commit_ts: commitTs } } };
+  }
+
+  private resolveSubject(state: EmulatorState, subject: unknown, blanks: Record<string, string>, create: boolean): string {
+    if (typeof subject === 'string' && subject.startsWith('uid(')) {
+      throw new EmulatorRequestError('The emulator does not support upsert blocks');
+    }
+    if (typeof subject === 'string' && isUidLiteral(subject)) {
+      const uid = normalizeUid(subject);
+      this.nextUid = Math.max(this.nextUid, uidNumber(uid) + 1);
+      if (create && !state.nodes.has(uid)) state.nodes.set(uid, new Map());
+      return uid;
+    }
+    if (typeof subject === 'string' && subject.startsWith('_:')) {
+      const blank = subject.slice(2);
+      if (!blanks[blank]) {
+        blanks[blank] = this.newNode(state);
+      }
+      return blanks[blank];
+    }
+    if (subject === undefined || subject === null) {
+      return this.newNode(state);
+    }
+    throw new EmulatorRequestError(`Invalid uid ${JSON.stringify(subject)}`);
+  }
+
+  private newNode(state: EmulatorState): string {
+    const uid = `0x${(this.nextUid++).toString(16)}`;
+    state.nodes.set(uid, new Map());
+    return uid;
+  }
+
+  private ensureSchema(state: EmulatorState, predicate: string, value: StoredValue, isList: boolean): PredicateSchema {
+    let schema = state.schema.get(predicate);
+    if (!schema) {
+      // Unknown predicates get a type from their first value, as in Dgraph
+      const type = value.uid ? 'uid'
+        : typeof value.value === 'number' ? (Number.isInteger(value.value) ? 'int' : 'float')
+          : typeof value.value === 'boolean' ? 'bool'
+            : 'default';
+      schema = { predicate, type, list: isList || undefined };
+      state.schema.set(predicate, schema);
+    }
+    return schema;
+  }
+
+  private coerceValue(schema: PredicateSchema, value: unknown): unknown {
+    switch (schema.type) {
+      case 'int':
+      case 'float': {
+        const number = Number(value);
+        if (Number.isNaN(number)) {
+          throw new EmulatorRequestError(`Input for predicate "${schema.predicate}" of type ${schema.type} is ${JSON.stringify(value)}`);
+        }
+        return schema.type === 'int' ? Math.trunc(number) : number;
+      }
+      case 'bool':
+        return value === true || value === 'true';
+      case 'uid':
+        throw new EmulatorRequestError(`Input for predicate "${schema.predicate}" of type uid is scalar`);
+      default:
+        return value;
+    }
+  }
+
+  private addValue(state: EmulatorState, uid: string, predicate: string, value: StoredValue, isList: boolean) {
+    const schema = this.ensureSchema(state, predicate, value, isList);
+    const stored = value.uid ? value : { ...value, value: this.coerceValue(schema, value.value) };
+
+    const node = state.nodes.get(uid) ?? new Map<string, StoredValue[]>();
+    state.nodes.set(uid, node);
+    const existing = node.get(predicate) ?? [];
+
+    if (schema.list) {
+      const duplicate = existing.some(item => item.uid === stored.uid && item.value === stored.value && item.lang === stored.lang);
+      node.set(predicate, duplicate ? existing : [...existing, stored]);
+    } else {
+      // Single-valued predicates keep one value per language
+      node.set(predicate, [...existing.filter(item => item.lang !== stored.lang), stored]);
+    }
+  }
+
+  private deleteValue(state: EmulatorState, uid: string, predicate: string, value?: StoredValue) {
+    const node = state.nodes.get(uid);
+    if (!node) return;
+    if (predicate === '*') {
+      state.nodes.delete(uid);
+      return;
+    }
+    if (!value) {
+      node.delete(predicate);
+      return;
+    }
+    const remaining = (node.get(predicate) ?? []).filter(item =>
+      value.uid ? item.uid !== value.uid : compareValues(item.value, value.value) !== 0 || item.lang !== value.lang
+    );
+    node.set(predicate, remaining);
+  }
+
+  private applyJsonMutation(state: EmulatorState, body: any, blanks: Record<string, string>) {
+    const asList = (value: any) => (value === undefined ? [] : Array.isArray(value) ? value : [value]);
+    const set = asList(body?.set ?? body?.setJson);
+    const remove = asList(body?.delete ?? body?.deleteJson);
+
+    if (set.length === 0 && remove.length === 0) {
+      throw new EmulatorRequestError('Empty mutation');
+    }
+
+    remove.forEach(object => this.deleteJsonObject(state, object, blanks));
+    set.forEach(object => this.setJsonObject(state, object, blanks));
+  }
+
+  private setJsonObject(state: EmulatorState, object: Record<string, any>, blanks: Record<string, string>): string {
+    if (!object || typeof object !== 'object' || Array.isArray(object)) {
+      throw new EmulatorRequestError('Mutation objects must be JSON objects');
+    }
+    const uid = this.resolveSubject(state, object.uid, blanks, true);
+
+    Object.entries(object).forEach(([key, value]) => {
+      // Facets (predicate|facet) are not stored
+      if (key === 'uid' || key.includes('|') || value === null) return;
+      const [predicate, lang] = key.split('@');
+      const isList = Array.isArray(value) || predicate === DGRAPH_TYPE;
+
+      (Array.isArray(value) ? value : [value]).forEach(item => {
+        // Geo values are objects too, but stored as scalars
+        if (item && typeof item === 'object' && !('coordinates' in item)) {
+          const child = this.setJsonObject(state, item, blanks);
+          this.addValue(state, uid, predicate, { uid: child }, isList);
+        } else {
+          this.addValue(state, uid, predicate, { value: item, lang }, isList);
+        }
+      });
+    });
+
+    return uid;
+  }
+
+  private deleteJsonObject(state: EmulatorState, object: Record<string, any>, blanks: Record<string, string>) {
+    if (!object?.uid) {
+      throw new EmulatorRequestError('Delete objects need a uid');
+    }
+    const uid = this.resolveSubject(state, object.uid, blanks, false);
+    const predicates = Object.keys(object).filter(key => key !== 'uid');
+
+    if (predicates.length === 0) {
+      this.deleteValue(state, uid, '*');
+      return;
+    }
+
+    predicates.forEach(key => {
+      const [predicate, lang] = key.split('@');
+      const value = object[key];
+      if (value === null) {
+        this.deleteValue(state, uid, predicate);
+        return;
+      }
+      (Array.isArray(value) ? value : [value]).forEach(item => {
+        const stored = item && typeof item === 'object'
+          ? { uid: this.resolveSubject(state, item.uid, blanks, false) }
+          : { value: item, lang };
+        this.deleteValue(state, uid, predicate, stored);
+      });
+    });
+  }
+
+  private applyRdfMutation(state: EmulatorState, text: string, blanks: Record<string, string>) {
+    const sections = Array.from(text.matchAll(/\b(set|delete)\s*\{([\s\S]*?)\}/g));
+    if (sections.length === 0) {
+      throw new EmulatorRequestError('Expected set { ... } or delete { ... } in the RDF mutation');
+    }
+
+    sections.forEach(([, operation, body]) => {
+      body.split('\n').forEach((line, index) => {
+        const statement = line.trim();
+        if (!statement || statement.startsWith('#')) return;
+        this.applyNQuad(state, operation as 'set' | 'delete', statement, index + 1, blanks);
+      });
+    });
+  }
+
+  private applyNQuad(state: EmulatorState, operation: 'set' | 'delete', statement: string, line: number, blanks: Record<string, string>) {
+    const match = /^(<[^>]+>|_:[\w.-]+|uid\([^)]*\))\s+(<[^>]+>|\*)\s+(<[^>]+>|_:[\w.-]+|\*|"(?:[^"\\]|\\.)*"(?:@[\w-]+|\^\^<[^>]+>)?)\s*(?:\([^)]*\))?\s*\.$/.exec(statement);
+    if (!match) {
+      throw new EmulatorRequestError(`line ${line} column 1: Invalid N-Quad: ${statement}`);
+    }
+
+    const [, subjectText, predicateText, objectText] = match;
+    const subject = subjectText.startsWith('<') ? subjectText.slice(1, -1) : subjectText;
+    const predicate = predicateText === '*' ? '*' : predicateText.slice(1, -1);
+    const uid = this.resolveSubject(state, subject, blanks, operation === 'set');
+
+    if (operation === 'delete') {
+      if (objectText === '*') {
+        this.deleteValue(state, uid, predicate);
+        return;
+      }
+      this.deleteValue(state, uid, predicate, this.parseNQuadObject(state, objectText, blanks));
+      return;
+    }
+
+    if (predicate === '*' || objectText === '*') {
+      throw new EmulatorRequestError(`line ${line} column 1: * is only allowed in delete`);
+    }
+    const isList = predicate === DGRAPH_TYPE || state.schema.get(predicate)?.list === true;
+    this.addValue(state, uid, predicate, this.parseNQuadObject(state, objectText, blanks), isList);
+  }
+
+  private parseNQuadObject(state: EmulatorState, text: string, blanks: Record<string, string>): StoredValue {
+    if (!text.startsWith('"')) {
+      const target = text.startsWith('<') ? text.slice(1, -1) : text;
+      return { uid: this.resolveSubject(state, target, blanks, true) };
+    }
+
+    const literal = /^("(?:[^"\\]|\\.)*")(?:@([\w-]+)|\^\^<([^>]+)>)?$/.exec(text)!;
+    const value: unknown = JSON.parse(literal[1]);
+    const dataType = literal[3];
+    if (dataType && /int|float|double|decimal/.test(dataType)) {
+      return { value: Number(value) };
+    }
+    if (dataType && /boolean/.test(dataType)) {
+      return { value: value === 'true' };
+    }
+    return { value, lang: literal[2] };
+  }
+
+  // Schema
+
+  private alter(body: any) {
+    if (body && typeof body === 'object') {
+      if (body.drop_all) {
+        this.state = createState();
+        this.transactions.clear();
+        return { data: { code: 'Success', message: 'Done' } };
+      }
+      if (body.drop_op === 'DATA') {
+        this.state.nodes.clear();
+        return { data: { code: 'Success', message: 'Done' } };
+      }
+      if (body.drop_attr) {
+        this.state.schema.delete(body.drop_attr);
+        this.state.nodes.forEach(node => node.delete(body.drop_attr));
+        return { data: { code: 'Success', message: 'Done' } };
+      }
+    }
+
+    const schema = typeof body === 'string' ? body : body?.schema;
+    if (typeof schema !== 'string' || !schema.trim()) {
+      throw new EmulatorRequestError('Operation must have at least one field set');
+    }
+    this.alterSchema(this.state, schema);
+    return { data: { code: 'Success', message: 'Done' } };
+  }
+
+  /**
+   * Apply predicate definitions (name: string @index(term) .) and type definitions
+   */
+  private alterSchema(state: EmulatorState, text: string) {
+    const predicates: PredicateSchema[] = [];
+    const types = new Map<string, string[]>();
+    const lines = text.split('\n');
+
+    for (let index = 0; index < lines.length; index++) {
+      const line = lines[index].replace(/#.*$/, '').trim();
+      if (!line) continue;
+
+      const typeMatch = /^type\s+<?([\w.]+)>?\s*\{(.*)$/.exec(line);
+      if (typeMatch) {
+        // Collect fields until the closing brace
+        let body = typeMatch[2];
+        while (!body.includes('}') && index + 1 < lines.length) {
+          body += `\n${lines[++index].replace(/#.*$/, '')}`;
+        }
+        if (!body.includes('}')) {
+          throw new EmulatorRequestError(`line ${index + 1} column 1: Missing closing brace for type ${typeMatch[1]}`);
+        }
+        const fields = body.substring(0, body.indexOf('}')).split(/\s+/)
+          .map(field => field.replace(/[<>]/g, '').split(':')[0])
+          .filter(Boolean);
+        types.set(typeMatch[1], fields);
+        continue;
+      }
+
+      predicates.push(this.parsePredicateLine(line, index + 1));
+    }
+
+    predicates.forEach(entry => state.schema.set(entry.predicate, entry));
+    types.forEach((fields, name) => state.types.set(name, fields));
+  }
+
+  private parsePredicateLine(line: string, lineNumber: number): PredicateSchema {
+    const match = /^<?([\w.~-]+)>?\s*:\s*(\[?)\s*(\w+)\s*(\]?)(.*?)\.?$/.exec(line);
+    if (!match || !line.endsWith('.')) {
+      throw new EmulatorRequestError(`line ${lineNumber} column 1: Invalid schema definition: ${line}`);
+    }
+
+    const [, predicate, openList, type, closeList, directives] = match;
+    if (!SCALAR_TYPES.includes(type)) {
+      throw new EmulatorRequestError(`line ${lineNumber} column 1: Undefined Type ${type}`);
+    }
+    if (!!openList !== !!closeList) {
+      throw new EmulatorRequestError(`line ${lineNumber} column 1: Unclosed [ in type of ${predicate}`);
+    }
+
+    const entry: PredicateSchema = { predicate, type, list: openList ? true : undefined };
+    const index = /@index\(([^)]*)\)/.exec(directives);
+    if (index) {
+      entry.index = true;
+      entry.tokenizer = index[1].split(',').map(tokenizer => tokenizer.trim()).filter(Boolean);
+    } else if (/@index\b/.test(directives)) {
+      throw new EmulatorRequestError(`line ${lineNumber} column 1: Missing tokenizer in @index for ${predicate}`);
+    }
+    if (/@reverse\b/.test(directives)) entry.reverse = true;
+    if (/@count\b/.test(directives)) entry.count = true;
+    if (/@upsert\b/.test(directives)) entry.upsert = true;
+    if (/@lang\b/.test(directives)) entry.lang = true;
+    return entry;
+  }
+}
+
+export default DgraphEmulator;
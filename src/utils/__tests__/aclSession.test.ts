@@ -0,0 +1,61 @@
+import {
+  AclSession,
+  ACL_REFRESH_MARGIN,
+  decodeJwtPayload,
+  getJwtExpiry,
+  getRefreshDelay,
+} from '../aclSession'
+
+const base64Url = (value: object) =>
+  btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+
+const makeJwt = (payload: object) => `${base64Url({ alg: 'HS256' })}.${base64Url(payload)}.signature`
+
+const makeSession = (expiresAt: number | null): AclSession => ({
+  userId: 'groot',
+  namespace: 0,
+  accessJWT: 'access',
+  refreshJWT: 'refresh',
+  expiresAt,
+})
+
+describe('ACL Session Utils', () => {
+  describe('decodeJwtPayload', () => {
+    it('should decode a base64url payload', () => {
+      const token = makeJwt({ userid: 'groot', namespace: 2, exp: 1700000000 })
+      expect(decodeJwtPayload(token)).toEqual({ userid: 'groot', namespace: 2, exp: 1700000000 })
+    })
+
+    it('should return null for malformed tokens', () => {
+      expect(decodeJwtPayload('not-a-jwt')).toBeNull()
+      expect(decodeJwtPayload('a.%%%.c')).toBeNull()
+    })
+  })
+
+  describe('getJwtExpiry', () => {
+    it('should convert the exp claim to milliseconds', () => {
+      expect(getJwtExpiry(makeJwt({ exp: 1700000000 }))).toBe(1700000000000)
+    })
+
+    it('should return null without an exp claim', () => {
+      expect(getJwtExpiry(makeJwt({ userid: 'groot' }))).toBeNull()
+    })
+  })
+
+  describe('getRefreshDelay', () => {
+    it('should refresh ahead of expiry', () => {
+      const now = 1000000
+      const session = makeSession(now + 10 * 60 * 1000)
+      expect(getRefreshDelay(session, now)).toBe(10 * 60 * 1000 - ACL_REFRESH_MARGIN)
+    })
+
+    it('should not schedule immediate refreshes for tokens close to expiry', () => {
+      const now = 1000000
+      expect(getRefreshDelay(makeSession(now + 1000), now)).toBeGreaterThan(0)
+    })
+
+    it('should return null for tokens that never expire', () => {
+      expect(getRefreshDelay(makeSession(null))).toBeNull()
+    })
+  })
+})
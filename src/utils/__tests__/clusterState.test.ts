@@ -0,0 +1,100 @@
+import {
+  parseClusterState,
+  parseClusterHealth,
+  formatBytes,
+} from '../clusterState'
+
+const rawState = {
+  counter: '42',
+  groups: {
+    '2': {
+      members: {
+        '3': { id: '3', groupId: 2, addr: 'alpha3:7080', leader: true },
+      },
+      tablets: {
+        'age': { groupId: 2, predicate: 'age', onDiskBytes: '100' },
+      },
+    },
+    '1': {
+      members: {
+        '1': { id: '1', groupId: 1, addr: 'alpha1:7080', leader: true },
+        '2': { id: '2', groupId: 1, addr: 'alpha2:7080', amDead: true },
+      },
+      tablets: {
+        'name': { groupId: 1, predicate: 'name', onDiskBytes: '700', uncompressedBytes: '2000' },
+        'dgraph.type': { groupId: 1, predicate: 'dgraph.type', space: '200' },
+      },
+    },
+  },
+  zeros: {
+    '1': { id: '1', addr: 'zero1:5080', leader: true },
+  },
+  maxUID: '10000',
+  maxTxnTs: '20000',
+}
+
+describe('Cluster State Utils', () => {
+  describe('parseClusterState', () => {
+    it('should sort groups and collect members', () => {
+      const state = parseClusterState(rawState)
+
+      expect(state.groups.map(group => group.id)).toEqual([1, 2])
+      expect(state.groups[0].members).toHaveLength(2)
+      expect(state.groups[0].members.find(member => member.leader)?.addr).toBe('alpha1:7080')
+      expect(state.groups[0].members.find(member => member.id === '2')?.amDead).toBe(true)
+      expect(state.zeros).toEqual([
+        { id: '1', addr: 'zero1:5080', groupId: 0, leader: true, amDead: false },
+      ])
+      expect(state.maxUID).toBe('10000')
+    })
+
+    it('should read tablet sizes from onDiskBytes or space', () => {
+      const state = parseClusterState(rawState)
+
+      expect(state.tablets.map(tablet => [tablet.predicate, tablet.onDiskBytes])).toEqual([
+        ['name', 700],
+        ['dgraph.type', 200],
+        ['age', 100],
+      ])
+      expect(state.totalBytes).toBe(1000)
+      expect(state.groups[0].totalBytes).toBe(900)
+    })
+
+    it('should flag tablets holding a large share of the data as hot', () => {
+      const state = parseClusterState(rawState)
+      const hot = state.tablets.filter(tablet => tablet.hot).map(tablet => tablet.predicate)
+
+      expect(hot).toEqual(['name'])
+      expect(state.tablets[0].share).toBeCloseTo(0.7)
+    })
+
+    it('should handle an empty response', () => {
+      expect(parseClusterState(null)).toEqual({
+        groups: [],
+        zeros: [],
+        tablets: [],
+        totalBytes: 0,
+        maxUID: undefined,
+        maxTxnTs: undefined,
+      })
+    })
+  })
+
+  describe('parseClusterHealth', () => {
+    it('should accept arrays and single objects', () => {
+      const entry = { instance: 'alpha', address: 'alpha1:7080', status: 'healthy', group: '1', version: 'v24.0.0', uptime: 10, lastEcho: 1 }
+
+      expect(parseClusterHealth([entry])).toHaveLength(1)
+      expect(parseClusterHealth(entry)[0].group).toBe('1')
+      expect(parseClusterHealth(undefined)).toEqual([])
+    })
+  })
+
+  describe('formatBytes', () => {
+    it('should use binary units', () => {
+      expect(formatBytes(512)).toBe('512 B')
+      expect(formatBytes(1536)).toBe('1.5 KiB')
+      expect(formatBytes(5 * 1024 * 1024)).toBe('5.0 MiB')
+    })
+  })
+})
@@ -0,0 +1,52 @@
+import {
+  DEFAULT_CONNECTION_SETTINGS,
+  parseProfiles,
+  getNextProfileColor,
+  createProfile,
+} from '../connectionProfiles'
+
+describe('Connection Profile Utils', () => {
+  describe('parseProfiles', () => {
+    it('should fill in missing settings and unknown colours', () => {
+      const profiles = parseProfiles(JSON.stringify([
+        { id: 'a', name: 'Prod', color: 'red', settings: { endpoint: 'https://prod:443' } },
+        { id: 'b', name: 'Dev', color: 'chartreuse', settings: {} },
+      ]))
+
+      expect(profiles[0].color).toBe('red')
+      expect(profiles[0].settings).toEqual({ ...DEFAULT_CONNECTION_SETTINGS, endpoint: 'https://prod:443' })
+      expect(profiles[1].color).toBe('gray')
+    })
+
+    it('should ignore malformed storage', () => {
+      expect(parseProfiles(null)).toEqual([])
+      expect(parseProfiles('not json')).toEqual([])
+      expect(parseProfiles('{"id":"a"}')).toEqual([])
+      expect(parseProfiles('[{"name":"no id"}]')).toEqual([])
+    })
+  })
+
+  describe('getNextProfileColor', () => {
+    it('should pick the first unused colour', () => {
+      const existing = [
+        createProfile('Local', DEFAULT_CONNECTION_SETTINGS, [], 'blue'),
+        createProfile('Prod', DEFAULT_CONNECTION_SETTINGS, [], 'green'),
+      ]
+      expect(getNextProfileColor([])).toBe('blue')
+      expect(getNextProfileColor(existing)).toBe('orange')
+    })
+  })
+
+  describe('createProfile', () => {
+    it('should create unique ids and copy the settings', () => {
+      const settings = { ...DEFAULT_CONNECTION_SETTINGS }
+      const first = createProfile(' Staging ', settings, [])
+      const second = createProfile('', settings, [first])
+
+      expect(first.name).toBe('Staging')
+      expect(second.name).toBe('Untitled')
+      expect(second.id).not.toBe(first.id)
+      expect(first.settings).not.toBe(settings)
+    })
+  })
+})
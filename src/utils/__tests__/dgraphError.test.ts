@@ -0,0 +1,85 @@
+import {
+  DgraphError,
+  parseErrorLocation,
+  fromDgraphResponse,
+  toDgraphError,
+  getLocationRange,
+} from '../dgraphError'
+
+describe('Dgraph Error Utils', () => {
+  describe('parseErrorLocation', () => {
+    it('should read line and column from Dgraph messages', () => {
+      expect(parseErrorLocation('line 3 column 12: Expected comma or language but got: name'))
+        .toEqual({ line: 3, column: 12 })
+      expect(parseErrorLocation('while lexing { q(func: } at line 1 column 11: Unexpected'))
+        .toEqual({ line: 1, column: 11 })
+    })
+
+    it('should return undefined without a location', () => {
+      expect(parseErrorLocation('Some variables are defined but not used')).toBeUndefined()
+    })
+  })
+
+  describe('fromDgraphResponse', () => {
+    it('should keep code, message and location of the first error', () => {
+      const body = {
+        errors: [{
+          message: 'line 2 column 5: Unrecognized character',
+          extensions: { code: 'ErrorInvalidRequest' },
+        }],
+        data: null,
+      }
+      const error = fromDgraphResponse(body, 400)
+
+      expect(error).toBeInstanceOf(DgraphError)
+      expect(error.code).toBe('ErrorInvalidRequest')
+      expect(error.message).toBe('line 2 column 5: Unrecognized character')
+      expect(error.location).toEqual({ line: 2, column: 5 })
+      expect(error.status).toBe(400)
+      expect(error.serverResponse).toBe(body)
+    })
+
+    it('should use GraphQL locations when present', () => {
+      const error = fromDgraphResponse({
+        errors: [{ message: 'Cannot query field', locations: [{ line: 4, column: 7 }] }],
+      })
+      expect(error.location).toEqual({ line: 4, column: 7 })
+    })
+
+    it('should fall back to the status for bodies without errors', () => {
+      expect(fromDgraphResponse(undefined, 502).message).toBe('Request failed with status 502')
+    })
+  })
+
+  describe('toDgraphError', () => {
+    it('should convert network failures', () => {
+      const error = toDgraphError({ message: 'Network Error', code: 'ERR_NETWORK' })
+      expect(error.code).toBe('ERR_NETWORK')
+      expect(error.location).toBeUndefined()
+    })
+
+    it('should read the response of failed requests', () => {
+      const error = toDgraphError({
+        message: 'Request failed with status code 400',
+        response: { status: 400, data: { errors: [{ message: 'line 1 column 3: bad' }] } },
+      })
+      expect(error.message).toBe('line 1 column 3: bad')
+      expect(error.location).toEqual({ line: 1, column: 3 })
+    })
+  })
+
+  describe('getLocationRange', () => {
+    const query = '{\n  q(func: has(name)) {\n    nmae\n  }\n}'
+
+    it('should cover the token at the location', () => {
+      const range = getLocationRange(query, { line: 3, column: 5 })
+      expect(query.substring(range.from, range.to)).toBe('nmae')
+    })
+
+    it('should clamp locations past the end of the text', () => {
+      const range = getLocationRange(query, { line: 99, column: 99 })
+      expect(range.from).toBeLessThanOrEqual(query.length)
+      expect(range.to).toBeLessThanOrEqual(query.length)
+    })
+  })
+})
@@ -0,0 +1,69 @@
+import {
+  parseAllowedHosts,
+  isHostAllowed,
+  isProxyPathAllowed,
+  buildProxyTargetUrl,
+} from '../dgraphProxy'
+
+describe('Dgraph Proxy Utils', () => {
+  describe('parseAllowedHosts', () => {
+    it('should default to local hosts', () => {
+      expect(parseAllowedHosts(undefined)).toContain('localhost')
+      expect(parseAllowedHosts('  ')).toContain('127.0.0.1')
+    })
+
+    it('should split and normalise a comma-separated list', () => {
+      expect(parseAllowedHosts('Example.com, *.hypermode.host ,,localhost:8080'))
+        .toEqual(['example.com', '*.hypermode.host', 'localhost:8080'])
+    })
+  })
+
+  describe('isHostAllowed', () => {
+    const allowList = ['localhost:8080', '*.hypermode.host', 'dgraph.internal']
+
+    it('should match exact hosts and host:port entries', () => {
+      expect(isHostAllowed(new URL('http://localhost:8080'), allowList)).toBe(true)
+      expect(isHostAllowed(new URL('http://localhost:9080'), allowList)).toBe(false)
+      expect(isHostAllowed(new URL('https://dgraph.internal:443'), allowList)).toBe(true)
+    })
+
+    it('should match wildcard subdomains only', () => {
+      expect(isHostAllowed(new URL('https://graph.hypermode.host'), allowList)).toBe(true)
+      expect(isHostAllowed(new URL('https://hypermode.host'), allowList)).toBe(false)
+      expect(isHostAllowed(new URL('https://evilhypermode.host'), allowList)).toBe(false)
+    })
+  })
+
+  describe('isProxyPathAllowed', () => {
+    it('should allow Dgraph endpoints with or without the /dgraph prefix', () => {
+      expect(isProxyPathAllowed('query')).toBe(true)
+      expect(isProxyPathAllowed('/dgraph/mutate')).toBe(true)
+      expect(isProxyPathAllowed('health')).toBe(true)
+      expect(isProxyPathAllowed('state')).toBe(true)
+      expect(isProxyPathAllowed('admin')).toBe(true)
+      expect(isProxyPathAllowed('graphql')).toBe(true)
+    })
+
+    it('should reject anything else', () => {
+      expect(isProxyPathAllowed('admin/shutdown')).toBe(false)
+      expect(isProxyPathAllowed('query/../admin')).toBe(false)
+    })
+  })
+
+  describe('buildProxyTargetUrl', () => {
+    const allowList = ['localhost']
+
+    it('should build the upstream URL including the query string', () => {
+      expect(buildProxyTargetUrl('http://localhost:8080/', 'mutate', '?commitNow=true', allowList))
+        .toEqual({ url: 'http://localhost:8080/mutate?commitNow=true' })
+    })
+
+    it('should reject missing, invalid and disallowed targets', () => {
+      expect(buildProxyTargetUrl(null, 'query', '', allowList)).toMatchObject({ status: 400 })
+      expect(buildProxyTargetUrl('not a url', 'query', '', allowList)).toMatchObject({ status: 400 })
+      expect(buildProxyTargetUrl('ftp://localhost', 'query', '', allowList)).toMatchObject({ status: 400 })
+      expect(buildProxyTargetUrl('https://example.com', 'query', '', allowList)).toMatchObject({ status: 403 })
+      expect(buildProxyTargetUrl('http://localhost:8080', 'admin/export', '', allowList)).toMatchObject({ status: 404 })
+    })
+  })
+})
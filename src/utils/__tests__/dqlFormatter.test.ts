@@ -0,0 +1,119 @@
+import { formatDql } from '../dqlFormatter'
+
+describe('DQL Formatter', () => {
+  it('should put fields on their own lines and normalise argument spacing', () => {
+    const query = `{ people(func:eq(name@en,"Alice"),first:10)@filter( has(email) and(ge(age,18)or uid(0x1)) ){
+uid   name@en
+    friends : friend( orderasc:name ) @cascade { name }
+  count(friend) }}`
+
+    expect(formatDql(query)).toBe(`{
+  people(func: eq(name@en, "Alice"), first: 10) @filter(has(email) and (ge(age, 18) or uid(0x1))) {
+    uid
+    name@en
+    friends: friend(orderasc: name) @cascade {
+      name
+    }
+    count(friend)
+  }
+}`)
+  })
+
+  it('should separate root blocks and keep variable definitions on the query line', () => {
+    const query = `query   find($name:string="Bob",  $n: int)
+{
+  var(func: eq(name, $name)) { f as friend }
+
+
+  result(func:uid(f), first:$n) { name   age }
+}`
+
+    expect(formatDql(query)).toBe(`query find($name: string = "Bob", $n: int) {
+  var(func: eq(name, $name)) {
+    f as friend
+  }
+
+  result(func: uid(f), first: $n) {
+    name
+    age
+  }
+}`)
+  })
+
+  it('should keep comments and collapse repeated blank lines', () => {
+    const query = `{
+  # People
+  q(func: has(name)) { # root
+    name
+
+
+    # Contact details
+    email
+  }
+}`
+
+    expect(formatDql(query)).toBe(`{
+  # People
+  q(func: has(name)) { # root
+    name
+
+    # Contact details
+    email
+  }
+}`)
+  })
+
+  it('should keep N-Quads of upsert mutations line by line', () => {
+    const upsert = `upsert {
+query { q(func: eq(email, "a@b.c")) { v as uid } }
+mutation @if(eq(len(v), 0)) { set {
+      _:p <email> "a@b.c" .
+   _:p <name> "A {B}" .
+} }
+}`
+
+    expect(formatDql(upsert)).toBe(`upsert {
+  query {
+    q(func: eq(email, "a@b.c")) {
+      v as uid
+    }
+  }
+
+  mutation @if(eq(len(v), 0)) {
+    set {
+      _:p <email> "a@b.c" .
+      _:p <name> "A {B}" .
+    }
+  }
+}`)
+  })
+
+  it('should keep language tag lists together', () => {
+    const query = '{ q(func: eq(name@it:en, "Ciao"), orderasc: name@en:.) { name@en:. name@. age name@it:en title@en-GB } }'
+
+    expect(formatDql(query)).toBe(`{
+  q(func: eq(name@it:en, "Ciao"), orderasc: name@en:.) {
+    name@en:.
+    name@.
+    age
+    name@it:en
+    title@en-GB
+  }
+}`)
+  })
+
+  it('should be idempotent', () => {
+    const query = '{ q(func: has(name), orderdesc: age) @filter(regexp(name, /^Al/i)) { name expand(_all_) { uid } } schema {} }'
+    const formatted = formatDql(query)
+
+    expect(formatDql(formatted)).toBe(formatted)
+    expect(formatted).toContain('@filter(regexp(name, /^Al/i))')
+    expect(formatted).toContain('schema {}')
+  })
+
+  it('should leave broken queries unchanged', () => {
+    const broken = '{ q(func: has(name) { name }'
+    expect(formatDql(broken)).toBe(broken)
+    expect(formatDql('{ q(func: eq(name, "oops)) { name } }')).toBe('{ q(func: eq(name, "oops)) { name } }')
+  })
+})
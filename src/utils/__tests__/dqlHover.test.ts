@@ -0,0 +1,81 @@
+import { dqlLanguage } from '../dqlLanguage'
+import { describePredicate, getDqlHoverTarget, resolveDqlHoverTarget } from '../dqlHover'
+import { parseSchema } from '../schemaParser'
+
+const schema = parseSchema({
+  schema: [
+    { predicate: 'name', type: 'string', index: true, tokenizer: ['exact', 'term'], lang: true, upsert: true },
+    { predicate: 'friend', type: 'uid', list: true, reverse: true, count: true },
+    { predicate: 'age', type: 'int' },
+  ],
+  types: [
+    { name: 'Person', fields: [{ name: 'name' }, { name: 'friend' }, { name: 'age' }] },
+    { name: 'Company', fields: [{ name: 'name' }] },
+  ],
+})
+
+// Hover target at the marker | in the text
+const hoverAt = (marked: string) => {
+  const pos = marked.indexOf('|')
+  const text = marked.replace('|', '')
+  return resolveDqlHoverTarget(getDqlHoverTarget(dqlLanguage.parser.parse(text), text, pos), schema)
+}
+
+describe('DQL hover', () => {
+  it('should document predicates from the schema', () => {
+    const target = hoverAt('{ q(func: has(name)) { na|me friend { age } } }')
+
+    expect(target).toMatchObject({ kind: 'predicate', name: 'name' })
+    expect(target?.kind === 'predicate' && describePredicate(target.predicate!)).toEqual([
+      'name: string',
+      '@index(exact, term) @upsert @lang',
+      'Declared in Person, Company',
+    ])
+  })
+
+  it('should resolve reverse edges, language tags and function arguments', () => {
+    expect(hoverAt('{ q(func: uid(0x1)) { ~fri|end { uid } } }')).toMatchObject({ name: 'friend' })
+    expect(hoverAt('{ q(func: eq(na|me@en, "Alice")) { uid } }')).toMatchObject({ name: 'name' })
+    expect(hoverAt('{ q(func: eq(name@e|n, "Alice")) { uid } }')).toMatchObject({ name: 'name' })
+
+    const friend = hoverAt('{ q(func: has(fri|end)) { uid } }')
+    expect(friend?.kind === 'predicate' && describePredicate(friend.predicate!)).toEqual([
+      'friend: [uid]',
+      '@reverse @count',
+      'Declared in Person',
+    ])
+  })
+
+  it('should document functions with their required index', () => {
+    expect(hoverAt('{ q(func: anyof|terms(name, "a b")) { uid } }')).toMatchObject({
+      kind: 'function',
+      doc: { signature: 'anyofterms(predicate, "space-separated terms")', tokenizers: ['term'] },
+    })
+    expect(hoverAt('{ q(func: has(name)) { cou|nt(friend) } }')).toMatchObject({ kind: 'function', doc: { name: 'count' } })
+    expect(hoverAt('{ q(func: unknown|fn(name)) { uid } }')).toBeNull()
+  })
+
+  it('should mark predicates missing from the schema', () => {
+    expect(hoverAt('{ q(func: has(name)) { nick|name } }')).toMatchObject({ name: 'nickname', predicate: null })
+    expect(hoverAt('{ q(func: has(name)) { ui|d } }')).toBeNull()
+  })
+
+  it('should not treat variables as predicates', () => {
+    expect(hoverAt('{ name as var(func: has(name)) q(func: uid(na|me)) { uid } }')).toBeNull()
+    expect(hoverAt('{ var(func: has(name)) { a as age } q(func: has(name), orderasc: val(|a)) { uid } }')).toBeNull()
+    expect(hoverAt('{ var(func: has(name)) { a as age } q(func: has(name)) { val(|a) } }')).toBeNull()
+    expect(hoverAt('{ var(func: has(name)) { f as friend } q(func: has(name)) @filter(gt(len(|f), 0)) { uid } }')).toBeNull()
+  })
+
+  it('should not show predicate tooltips without a schema', () => {
+    const text = '{ q(func: has(name)) { name } }'
+    const target = getDqlHoverTarget(dqlLanguage.parser.parse(text), text, text.indexOf('name }'))
+
+    expect(resolveDqlHoverTarget(target, { types: [] })).toBeNull()
+  })
+
+  it('should document predicates of upsert N-Quads', () => {
+    expect(hoverAt('upsert { query { q(func: eq(name, "A")) { v as uid } } mutation { set { uid(v) <a|ge> "1" . } } }'))
+      .toMatchObject({ kind: 'predicate', name: 'age' })
+  })
+})
@@ -0,0 +1,109 @@
+import { dqlLanguage } from '../dqlLanguage'
+import { addIndexToSchema, findIndexProblems, getIndexDiagnostics } from '../dqlIndexLint'
+import { getSchemaPredicate, parseSchema } from '../schemaParser'
+
+const schema = parseSchema({
+  schema: [
+    { predicate: 'name', type: 'string', index: true, tokenizer: ['exact'] },
+    { predicate: 'bio', type: 'string' },
+    { predicate: 'age', type: 'int' },
+    { predicate: 'email', type: 'string', index: true, tokenizer: ['hash'] },
+    { predicate: 'location', type: 'geo' },
+    { predicate: 'friend', type: 'uid', list: true },
+    { predicate: 'active', type: 'bool' },
+  ],
+})
+
+const problems = (text: string) =>
+  findIndexProblems(dqlLanguage.parser.parse(text), text, schema).map(problem => ({
+    text: text.slice(problem.from, problem.to),
+    message: problem.message,
+    tokenizer: problem.fix?.tokenizer ?? null,
+  }))
+
+describe('DQL index lint', () => {
+  it('should flag functions whose predicate lacks the tokenizer', () => {
+    expect(problems('{ q(func: regexp(name, /^Al/i)) { uid } }')).toEqual([{
+      text: 'name',
+      message: 'regexp needs @index(trigram) on name, which is indexed with exact',
+      tokenizer: 'trigram',
+    }])
+    expect(problems('{ q(func: alloftext(bio@en, "graph databases")) { uid } }')).toEqual([{
+      text: 'bio@en',
+      message: 'alloftext needs @index(fulltext) on bio, which is not indexed',
+      tokenizer: 'fulltext',
+    }])
+    expect(problems('{ q(func: near(location, [-122.4, 37.7], 1000)) { uid } }')[0].tokenizer).toBe('geo')
+  })
+
+  it('should check equality and comparisons at the query root only', () => {
+    expect(problems('{ q(func: eq(age, 30)) { uid } }')).toEqual([{
+      text: 'age',
+      message: 'eq needs @index with one of: exact, hash, term, fulltext, int, float, bool, year, month, day, hour on age, which is not indexed',
+      tokenizer: 'int',
+    }])
+    expect(problems('{ q(func: eq(email, "a@b.c")) { uid } }')).toEqual([])
+    expect(problems('{ q(func: gt(email, "a")) { uid } }').map(problem => problem.tokenizer)).toEqual(['exact'])
+    expect(problems('{ q(func: has(name)) @filter(eq(age, 30) and gt(age, 18)) { uid } }')).toEqual([])
+  })
+
+  it('should check filters for functions that always need an index', () => {
+    expect(problems('{ q(func: has(name)) @filter(not anyofterms(bio, "a b") or eq(name, "A")) { uid } }'))
+      .toEqual([expect.objectContaining({ text: 'bio', tokenizer: 'term' })])
+  })
+
+  it('should leave alone predicates it cannot judge', () => {
+    expect(problems('{ q(func: regexp(unknown, /a/)) { uid } }')).toEqual([])
+    expect(problems('{ q(func: eq(count(friend), 3)) { uid } }')).toEqual([])
+    expect(problems('{ q(func: has(name)) { friend @facets(eq(since, "2020")) { uid } } }')).toEqual([])
+    expect(problems('upsert { query { q(func: eq(age, 1)) { v as uid } } mutation @if(eq(len(v), 0)) { set { _:a <age> "1" . } } }'))
+      .toEqual([expect.objectContaining({ text: 'age' })])
+
+    const text = '{ q(func: regexp(name, /a/)) { uid } }'
+    expect(findIndexProblems(dqlLanguage.parser.parse(text), text, { types: [] })).toEqual([])
+  })
+
+  it('should not offer an index the predicate type cannot have', () => {
+    const text = '{ q(func: gt(active, false)) { uid } }'
+    const [problem] = findIndexProblems(dqlLanguage.parser.parse(text), text, schema)
+
+    expect(problem).toMatchObject({ message: expect.stringContaining('gt needs'), fix: null })
+    expect(getIndexDiagnostics([problem], jest.fn())[0].actions).toBeUndefined()
+    expect(problems('{ q(func: eq(active, true)) { uid } }')[0].tokenizer).toBe('bool')
+  })
+
+  it('should offer the index as a quick fix', () => {
+    const text = '{ q(func: regexp(name, /a/)) { uid } }'
+    const onAddIndex = jest.fn()
+    const [diagnostic] = getIndexDiagnostics(findIndexProblems(dqlLanguage.parser.parse(text), text, schema), onAddIndex)
+
+    expect(diagnostic).toMatchObject({ severity: 'warning', message: expect.stringContaining('trigram') })
+    expect(diagnostic.actions?.[0].name).toBe('Add @index(trigram)')
+    diagnostic.actions?.[0].apply(null as any, diagnostic.from, diagnostic.to)
+    expect(onAddIndex).toHaveBeenCalledWith({ predicate: getSchemaPredicate(schema, 'name'), tokenizer: 'trigram' })
+  })
+
+  describe('addIndexToSchema', () => {
+    const fix = (name: string, tokenizer: string) => ({ predicate: getSchemaPredicate(schema, name)!, tokenizer })
+    const schemaText = [
+      'name: string @index(exact) @lang .',
+      'bio: string .',
+      'friend: [uid] @reverse .',
+      'embedding: float32vector @index(hnsw(metric: "cosine")) .',
+    ].join('\n')
+
+    it('should add the tokenizer to the predicate line', () => {
+      expect(addIndexToSchema(schemaText, fix('name', 'trigram')).split('\n')[0]).toBe('name: string @index(exact, trigram) @lang .')
+      expect(addIndexToSchema(schemaText, fix('bio', 'fulltext')).split('\n')[1]).toBe('bio: string @index(fulltext) .')
+      expect(addIndexToSchema(schemaText, fix('name', 'exact'))).toBe(schemaText)
+
+      const vector = { predicate: { ...fix('bio', 'term').predicate, name: 'embedding' }, tokenizer: 'hnsw' }
+      expect(addIndexToSchema(schemaText, vector)).toBe(schemaText)
+    })
+
+    it('should append a line for predicates missing from the text', () => {
+      expect(addIndexToSchema(schemaText, fix('age', 'int')).split('\n').pop()).toBe('age: int @index(int) .')
+      expect(addIndexToSchema('', fix('location', 'geo'))).toBe('location: geo @index(geo) .')
+    })
+  })
+})
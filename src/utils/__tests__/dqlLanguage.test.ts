@@ -4,9 +4,25 @@ import {
   getDQLPredicates,
   getDQLSuggestions,
   isDQLQuery,
-  validateDQLSyntax
+  validateDQLSyntax,
+  dqlLanguage
 } from '../dqlLanguage'
 
+// Names of the syntax nodes of a parse, with ⚠ for errors
+const nodeNames = (text: string) => {
+  const names: string[] = []
+  dqlLanguage.parser.parse(text).iterate({ enter: node => { names.push(node.name) } })
+  return names
+}
+
+const nodeText = (text: string, name: string) => {
+  const found: string[] = []
+  dqlLanguage.parser.parse(text).iterate({
+    enter: node => { if (node.name === name) found.push(text.slice(node.from, node.to)) }
+  })
+  return found
+}
+
 describe('DQL Language Utils', () => {
   describe('getDQLKeywords', () => {
     it('should return array of DQL keywords', () => {
@@ -207,4 +223,76 @@ describe('DQL Language Utils', () => {
       expect(typeof result.isValid).toBe('boolean')
     })
   })
+
+  describe('dqlLanguage', () => {
+    it('should parse blocks, functions, directives and variables without errors', () => {
+      const queries = [
+        `query people($name: string = "Alice", $n: int) {
+          f as var(func: anyofterms(name@en, $name)) @filter(NOT has(deleted) and (ge(age, 18) or uid(0x1a))) {
+            friend @facets(w as weight) { total: count(~friend) }
+          }
+          people(func: uid(f), first: $n, orderdesc: val(w)) @cascade(name) @normalize {
+            uid
+            title: name@en:fr
+            <dgraph.type>
+            score: math(w * 2 + 1)
+            expand(_all_)
+            ...Details
+          }
+        }
+        fragment Details { email }`,
+        '{ q(func: regexp(name, /^Al[a-z]+$/i)) @recurse(depth: 3, loop: false) { name } }',
+        '{ near(func: near(loc, [-122.4, 37.7], 1000)) { name@. } }',
+        'schema(pred: [name, age]) { type index }',
+      ]
+
+      queries.forEach(query => expect(nodeNames(query)).not.toContain('⚠'))
+    })
+
+    it('should parse upsert blocks with N-Quads, facets and conditions', () => {
+      const upsert = `upsert {
+        query { v as var(func: eq(email, "a@b.c")) }
+        mutation @if(eq(len(v), 0)) {
+          set {
+            _:new <name> "Amy"@en .
+            _:new <born> "1990-01-01"^^<xs:dateTime> .
+            uid(v) <follows> <0x1> (since=2020, close=true) .
+          }
+          delete { <0x2> * * . }
+        }
+      }`
+
+      expect(nodeNames(upsert)).not.toContain('⚠')
+      expect(nodeText(upsert, 'NQuad')).toHaveLength(4)
+      expect(nodeText(upsert, 'BlankNode')).toEqual(['_:new', '_:new'])
+      expect(nodeText(upsert, 'Facet')).toEqual(['since=2020', 'close=true'])
+    })
+
+    it('should tell fields, aliases, variables and language tags apart', () => {
+      const query = '{ q(func: has(set)) { n as name@en alias: set delete @filter(eq(query, true)) } }'
+
+      expect(nodeNames(query)).not.toContain('⚠')
+      expect(nodeText(query, 'FieldName')).toEqual(['q', 'name', 'set', 'delete'])
+      expect(nodeText(query, 'VariableName')).toEqual(['n'])
+      expect(nodeText(query, 'Alias')).toEqual(['alias'])
+      expect(nodeText(query, 'LangTag')).toEqual(['@en'])
+      expect(nodeText(query, 'DirectiveName')).toEqual(['@filter'])
+      expect(nodeText(query, 'FunctionName')).toEqual(['has', 'eq'])
+    })
+
+    it('should nest filter connectives by precedence', () => {
+      const query = '{ q(func: has(a)) @filter(has(b) or has(c) and not has(d)) { uid } }'
+
+      expect(nodeText(query, 'LogicalExpression')).toEqual([
+        'has(b) or has(c) and not has(d)',
+        'has(c) and not has(d)',
+      ])
+      expect(nodeText(query, 'NotExpression')).toEqual(['not has(d)'])
+    })
+
+    it('should flag syntax errors', () => {
+      expect(nodeNames('{ q(func: has(name) { name } }')).toContain('⚠')
+      expect(nodeNames('{ q(func: has(name)) @filter(and) { name } }')).toContain('⚠')
+    })
+  })
 })
@@ -0,0 +1,125 @@
+import {
+  tokenizeDql,
+  parseDql,
+  addUidAndType,
+  getDqlCompletionContext,
+} from '../dqlParser'
+
+describe('DQL Parser', () => {
+  describe('tokenizeDql', () => {
+    it('should keep strings, regexes and comments as single tokens', () => {
+      const { tokens, errors } = tokenizeDql('q(func: regexp(name, /^{a}/i)) @filter(eq(bio, "{ }")) # { x')
+
+      expect(errors).toEqual([])
+      expect(tokens.filter(token => token.type === 'regex').map(token => token.value)).toEqual(['/^{a}/i'])
+      expect(tokens.filter(token => token.type === 'string').map(token => token.value)).toEqual(['"{ }"'])
+      expect(tokens[tokens.length - 1].type).toBe('comment')
+    })
+
+    it('should report unterminated strings', () => {
+      expect(tokenizeDql('{ q(func: eq(name, "abc').errors[0].message).toBe('Unterminated string')
+    })
+  })
+
+  describe('parseDql', () => {
+    it('should parse blocks, aliases, variables and directives', () => {
+      const document = parseDql(`query people($name: string = "Alice") {
+        f as var(func: eq(name, $name))
+        q(func: uid(f), first: 10) @filter(has(age)) {
+          fullName: name@en
+          c as count(friend)
+          friend (orderasc: name) { name }
+        }
+      }`)
+
+      expect(document.errors).toEqual([])
+      expect(document.operation?.name).toBe('people')
+      expect(document.operation?.variables).toMatchObject([{ name: '$name', type: 'string', defaultValue: '"Alice"' }])
+
+      const [varBlock, block] = document.blocks
+      expect(varBlock).toMatchObject({ name: 'var', varName: 'f', isVar: true, func: 'eq' })
+      expect(block.func).toBe('uid')
+      expect(block.directives.map(directive => directive.name)).toEqual(['filter'])
+
+      const fields = block.selection!.fields
+      expect(fields[0]).toMatchObject({ kind: 'predicate', name: 'name', alias: 'fullName', languages: 'en' })
+      expect(fields[1]).toMatchObject({ kind: 'count', name: 'count', varName: 'c' })
+      expect(fields[2].args?.raw).toBe('orderasc: name')
+      expect(fields[2].selection!.fields.map(field => field.name)).toEqual(['name'])
+    })
+
+    it('should recognise schema queries', () => {
+      expect(parseDql('schema(pred: [name]) { type index }').isSchemaQuery).toBe(true)
+    })
+
+    it('should report unbalanced braces with positions', () => {
+      const document = parseDql('{ q(func: has(name)) { name }')
+
+      expect(document.errors).toHaveLength(1)
+      expect(document.errors[0].message).toContain('brace')
+      expect(document.errors[0].from).toBe(0)
+    })
+  })
+
+  describe('addUidAndType', () => {
+    it('should add missing fields to every result selection', () => {
+      const query = '{\n  q(func: has(name)) {\n    name\n    friend { uid name }\n  }\n}'
+
+      expect(addUidAndType(query)).toBe(
+        '{\n  q(func: has(name)) { uid dgraph.type\n    name\n    friend { dgraph.type uid name }\n  }\n}'
+      )
+    })
+
+    it('should keep line numbers unchanged', () => {
+      const query = '{\n  q(func: has(name)) {\n    name\n  }\n}'
+      expect(addUidAndType(query).split('\n')).toHaveLength(query.split('\n').length)
+    })
+
+    it('should ignore braces inside filter strings', () => {
+      const query = '{ q(func: has(name)) @filter(eq(bio, "a {b} c")) { name } }'
+      expect(addUidAndType(query)).toBe('{ q(func: has(name)) @filter(eq(bio, "a {b} c")) { uid dgraph.type name } }')
+    })
+
+    it('should leave var, groupby and aggregation blocks alone', () => {
+      const queries = [
+        '{ var(func: has(name)) { a as age } q(func: uid(a)) { total: sum(val(a)) } }',
+        '{ q(func: has(name)) @groupby(age) { count(uid) } }',
+        '{ q(func: has(name)) { friend @groupby(age) { count(uid) } uid dgraph.type } }',
+        '{ q(func: has(name)) { count(uid) } }',
+        '{ q(func: has(name)) { score: math(a + b) } }',
+      ]
+
+      queries.forEach(query => expect(addUidAndType(query)).toBe(query))
+    })
+
+    it('should not touch schema queries or queries that do not parse', () => {
+      expect(addUidAndType('schema {}')).toBe('schema {}')
+      expect(addUidAndType('{ q(func: has(name)) { name }')).toBe('{ q(func: has(name)) { name }')
+    })
+  })
+
+  describe('getDqlCompletionContext', () => {
+    const contextAt = (text: string) => getDqlCompletionContext(text, text.length)
+
+    it('should detect directives and root functions', () => {
+      expect(contextAt('{ q(func: has(name)) @fil')).toBe('directive')
+      expect(contextAt('{ q(func: ')).toBe('function')
+      expect(contextAt('{ q(func: al')).toBe('function')
+    })
+
+    it('should expect functions at filter level and predicates as arguments', () => {
+      expect(contextAt('{ q(func: has(name)) @filter(')).toBe('function')
+      expect(contextAt('{ q(func: has(name)) @filter(has(age) and ')).toBe('function')
+      expect(contextAt('{ q(func: has(name)) @filter(eq(')).toBe('predicate')
+    })
+
+    it('should expect predicates inside selections', () => {
+      expect(contextAt('{ q(func: has(name)) { na')).toBe('predicate')
+    })
+
+    it('should not complete inside strings or comments', () => {
+      expect(contextAt('{ q(func: eq(name, "Al')).toBe('none')
+      expect(contextAt('{ # list all')).toBe('none')
+    })
+  })
+})
@@ -0,0 +1,91 @@
+import { dqlLanguage } from '../dqlLanguage'
+import {
+  findDqlSymbols,
+  getDqlSymbolAt,
+  getDqlSymbolDiagnostics,
+  isValidDqlSymbolName,
+  renameDqlSymbol,
+} from '../dqlSymbols'
+
+const symbols = (text: string) => findDqlSymbols(dqlLanguage.parser.parse(text), text)
+
+// Texts of each symbol's definitions and usages
+const occurrences = (text: string) =>
+  symbols(text).map(symbol => ({
+    kind: symbol.kind,
+    name: symbol.name,
+    definitions: symbol.definitions.map(range => text.slice(range.from, range.to)),
+    usages: symbol.usages.length,
+  }))
+
+// Apply changes the way the editor does, from the end of the text
+const applyChanges = (text: string, changes: Array<{ from: number; to: number; insert: string }>) =>
+  [...changes].reverse().reduce((result, change) => result.slice(0, change.from) + change.insert + result.slice(change.to), text)
+
+const query = `query people($name: string, $limit: int = 10) {
+  me(func: eq(name, $name), first: $limit) {
+    friends as friend
+    score as math(1 + count)
+  }
+  others(func: uid(friends), orderdesc: val(score)) @filter(gt(len(friends), 0)) {
+    name
+    rank: math(exp(score) * 2)
+    val(score)
+  }
+}`
+
+describe('DQL symbols', () => {
+  it('should find variables and $params with their definitions and usages', () => {
+    expect(occurrences(query)).toEqual([
+      { kind: 'parameter', name: 'name', definitions: ['$name'], usages: 1 },
+      { kind: 'parameter', name: 'limit', definitions: ['$limit'], usages: 1 },
+      { kind: 'variable', name: 'friends', definitions: ['friends'], usages: 2 },
+      { kind: 'variable', name: 'score', definitions: ['score'], usages: 3 },
+      { kind: 'variable', name: 'count', definitions: [], usages: 1 },
+    ])
+  })
+
+  it('should follow variables from upsert queries into mutations', () => {
+    const upsert = 'upsert { query { q(func: eq(email, "a@b.c")) { v as uid } } mutation @if(eq(len(v), 0)) { set { uid(v) <email> "a@b.c" . } } }'
+    expect(occurrences(upsert)).toEqual([{ kind: 'variable', name: 'v', definitions: ['v'], usages: 2 }])
+  })
+
+  it('should find the symbol at a position', () => {
+    const found = symbols(query)
+    expect(getDqlSymbolAt(found, query.indexOf('uid(friends)') + 6)?.name).toBe('friends')
+    expect(getDqlSymbolAt(found, query.indexOf('$limit)'))).toMatchObject({ kind: 'parameter', name: 'limit' })
+    expect(getDqlSymbolAt(found, query.indexOf('others'))).toBeNull()
+  })
+
+  it('should warn about unused and undefined variables', () => {
+    const text = 'query q($unused: string) { a as var(func: has(name)) { b as friend } q(func: uid(a, c)) { uid } }'
+    const diagnostics = getDqlSymbolDiagnostics(symbols(text))
+
+    expect(diagnostics.map(diagnostic => [text.slice(diagnostic.from, diagnostic.to), diagnostic.message])).toEqual([
+      ['$unused', '$unused is declared but never used'],
+      ['b', 'b is defined but never used'],
+      ['c', 'c is used but not defined'],
+    ])
+    expect(diagnostics.every(diagnostic => diagnostic.severity === 'warning')).toBe(true)
+    expect(getDqlSymbolDiagnostics(symbols('{ q(func: has($missing)) { uid } }'))[0].message).toBe('$missing is used but not declared')
+  })
+
+  it('should rename every definition and usage', () => {
+    const found = symbols(query)
+    const renamed = applyChanges(query, renameDqlSymbol(found.find(symbol => symbol.name === 'score')!, 'rating'))
+    expect(renamed).toContain('rating as math(1 + count)')
+    expect(renamed).toContain('orderdesc: val(rating)')
+    expect(renamed).toContain('math(exp(rating) * 2)')
+    expect(renamed).not.toContain('score')
+
+    const parameter = applyChanges(query, renameDqlSymbol(found.find(symbol => symbol.name === 'limit')!, 'max'))
+    expect(parameter).toContain('$max: int = 10')
+    expect(parameter).toContain('first: $max')
+  })
+
+  it('should validate new names', () => {
+    expect(isValidDqlSymbolName('friends_2')).toBe(true)
+    expect(isValidDqlSymbolName('2friends')).toBe(false)
+    expect(isValidDqlSymbolName('my var')).toBe(false)
+  })
+})
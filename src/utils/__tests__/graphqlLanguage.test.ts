@@ -0,0 +1,124 @@
+import {
+  parseIntrospection,
+  getGraphQLOperationType,
+  getGraphQLCompletionScope,
+  normalizeGraphQLResult,
+} from '../graphqlLanguage'
+
+const named = (name: string, kind = 'OBJECT') => ({ kind, name, ofType: null })
+const list = (ofType: any) => ({ kind: 'LIST', name: null, ofType })
+const nonNull = (ofType: any) => ({ kind: 'NON_NULL', name: null, ofType })
+
+const introspection = {
+  data: {
+    __schema: {
+      queryType: { name: 'Query' },
+      mutationType: { name: 'Mutation' },
+      types: [
+        {
+          kind: 'OBJECT',
+          name: 'Query',
+          fields: [
+            {
+              name: 'queryPerson',
+              args: [{ name: 'first', type: named('Int', 'SCALAR') }, { name: 'filter', type: named('PersonFilter', 'INPUT_OBJECT') }],
+              type: list(named('Person')),
+            },
+          ],
+        },
+        {
+          kind: 'OBJECT',
+          name: 'Mutation',
+          fields: [{ name: 'addPerson', args: [], type: named('AddPersonPayload') }],
+        },
+        {
+          kind: 'OBJECT',
+          name: 'Person',
+          description: 'A person',
+          fields: [
+            { name: 'id', args: [], type: nonNull(named('ID', 'SCALAR')) },
+            { name: 'name', args: [], type: named('String', 'SCALAR') },
+            { name: 'friends', args: [], type: list(nonNull(named('Person'))) },
+          ],
+        },
+        { kind: 'OBJECT', name: '__Schema', fields: [] },
+      ],
+    },
+  },
+}
+
+describe('GraphQL Language Utils', () => {
+  const schema = parseIntrospection(introspection)
+
+  describe('parseIntrospection', () => {
+    it('should read root types and print field types', () => {
+      expect(schema.queryType).toBe('Query')
+      expect(schema.mutationType).toBe('Mutation')
+      expect(schema.types.__Schema).toBeUndefined()
+
+      const friends = schema.types.Person.fields.find(field => field.name === 'friends')
+      expect(friends).toMatchObject({ type: '[Person!]', namedType: 'Person' })
+      expect(schema.types.Query.fields[0].args).toEqual([
+        { name: 'first', type: 'Int' },
+        { name: 'filter', type: 'PersonFilter' },
+      ])
+    })
+  })
+
+  describe('getGraphQLOperationType', () => {
+    it('should read the operation keyword', () => {
+      expect(getGraphQLOperationType('# comment\nmutation { addPerson { id } }')).toBe('mutation')
+      expect(getGraphQLOperationType('{ queryPerson { id } }')).toBe('query')
+    })
+  })
+
+  describe('getGraphQLCompletionScope', () => {
+    const scopeAt = (text: string) => getGraphQLCompletionScope(schema, text, text.length)
+
+    it('should follow field types into nested selections', () => {
+      expect(scopeAt('query { queryPerson(first: 2) { friends { na')).toMatchObject({ kind: 'field', type: { name: 'Person' } })
+      expect(scopeAt('{ que')).toMatchObject({ kind: 'field', type: { name: 'Query' } })
+      expect(scopeAt('mutation { ')).toMatchObject({ kind: 'field', type: { name: 'Mutation' } })
+    })
+
+    it('should complete argument names of the enclosing field', () => {
+      const scope = scopeAt('{ queryPerson(first: 2, ')
+      expect(scope.kind).toBe('argument')
+      expect(scope.kind === 'argument' && scope.field?.name).toBe('queryPerson')
+      expect(scopeAt('{ queryPerson(first: ').kind).toBe('none')
+    })
+
+    it('should handle aliases and inline fragments', () => {
+      expect(scopeAt('{ people: queryPerson { ... on Person { fr')).toMatchObject({ kind: 'field', type: { name: 'Person' } })
+    })
+
+    it('should offer operation keywords at the top level', () => {
+      expect(scopeAt('qu').kind).toBe('operation')
+      expect(scopeAt('{ queryPerson { id } }\n').kind).toBe('operation')
+    })
+  })
+
+  describe('normalizeGraphQLResult', () => {
+    it('should add uid and dgraph.type from the schema', () => {
+      const body = {
+        data: {
+          queryPerson: [{ id: '0x1', name: 'Alice', friends: [{ id: '0x2', name: 'Bob' }] }],
+        },
+      }
+      const result = normalizeGraphQLResult(body, schema)
+
+      expect(result.data.queryPerson[0]).toMatchObject({ uid: '0x1', 'dgraph.type': ['Person'] })
+      expect(result.data.queryPerson[0].friends[0]).toMatchObject({ uid: '0x2', 'dgraph.type': ['Person'] })
+    })
+
+    it('should fall back to __typename and id without a schema', () => {
+      const result = normalizeGraphQLResult({ data: { q: { __typename: 'Person', id: '0x3' } } }, null)
+      expect(result.data.q.uid).toBe('0x3')
+    })
+
+    it('should pass bodies without data through', () => {
+      const body = { errors: [{ message: 'bad' }] }
+      expect(normalizeGraphQLResult(body, schema)).toBe(body)
+    })
+  })
+})
@@ -0,0 +1,26 @@
+import { diffLines } from '../lineDiff'
+
+describe('Line Diff Utils', () => {
+  describe('diffLines', () => {
+    it('should mark identical texts as unchanged', () => {
+      expect(diffLines('a\nb', 'a\nb')).toEqual([
+        { type: 'same', text: 'a' },
+        { type: 'same', text: 'b' },
+      ])
+    })
+
+    it('should pair changed lines as removed then added', () => {
+      expect(diffLines('{\n  q {\n}', '{\n  q { uid\n}')).toEqual([
+        { type: 'same', text: '{' },
+        { type: 'removed', text: '  q {' },
+        { type: 'added', text: '  q { uid' },
+        { type: 'same', text: '}' },
+      ])
+    })
+
+    it('should handle inserted and deleted lines', () => {
+      expect(diffLines('a\nc', 'a\nb\nc').map(line => line.type)).toEqual(['same', 'added', 'same'])
+      expect(diffLines('a\nb\nc', 'a\nc').map(line => line.type)).toEqual(['same', 'removed', 'same'])
+    })
+  })
+})
@@ -0,0 +1,95 @@
+import {
+  MAX_HISTORY_ITEMS,
+  QueryHistoryItem,
+  addHistoryItem,
+  filterQueryHistory,
+  getResultSize,
+  parseQueryHistory,
+} from '../queryHistory'
+
+const run = (overrides: Partial<QueryHistoryItem> = {}): QueryHistoryItem => ({
+  id: String(Math.random()),
+  query: '{ q(func: has(name)) { name } }',
+  timestamp: 1000,
+  type: 'query',
+  status: 'success',
+  durationMs: 12,
+  resultSize: 40,
+  variables: {},
+  endpoint: 'http://localhost:8080',
+  ...overrides,
+})
+
+describe('Query History Utils', () => {
+  describe('addHistoryItem', () => {
+    it('should fold a repeat of the latest run into one entry', () => {
+      const first = run({ id: 'a' })
+      const history = addHistoryItem(addHistoryItem([], first), run({ id: 'b', timestamp: 2000, durationMs: 8 }))
+
+      expect(history).toHaveLength(1)
+      expect(history[0]).toMatchObject({ id: 'a', timestamp: 2000, durationMs: 8, runCount: 2 })
+      expect(addHistoryItem(history, run({ id: 'c' }))[0].runCount).toBe(3)
+    })
+
+    it('should keep runs that differ in variables, endpoint or type', () => {
+      let history = addHistoryItem([], run({ variables: { $name: 'Alice' } }))
+      history = addHistoryItem(history, run({ variables: { $name: 'Bob' } }))
+      history = addHistoryItem(history, run({ variables: { $name: 'Bob' }, endpoint: 'http://other:8080' }))
+      history = addHistoryItem(history, run({ variables: { $name: 'Bob' }, endpoint: 'http://other:8080', type: 'graphql' }))
+
+      expect(history).toHaveLength(4)
+    })
+
+    it('should only fold consecutive runs', () => {
+      const history = [run({ query: '{ b() {} }' }), run()]
+      expect(addHistoryItem(history, run())).toHaveLength(3)
+    })
+
+    it('should keep the newest entries', () => {
+      const history = Array.from({ length: MAX_HISTORY_ITEMS }, (_, i) => run({ query: `{ q${i}() {} }` }))
+      const updated = addHistoryItem(history, run({ query: '{ latest() {} }' }))
+
+      expect(updated).toHaveLength(MAX_HISTORY_ITEMS)
+      expect(updated[0].query).toBe('{ latest() {} }')
+    })
+  })
+
+  it('should filter by outcome, type and connection', () => {
+    const history = [
+      run({ id: 'query' }),
+      run({ id: 'failed', status: 'error', error: 'boom' }),
+      run({ id: 'mutation', type: 'mutation' }),
+      run({ id: 'upsert', type: 'upsert', status: 'error', endpoint: 'http://other:8080' }),
+      { id: 'legacy', query: '{}', timestamp: 1 },
+    ]
+    const ids = (filters: Partial<Parameters<typeof filterQueryHistory>[1]>) =>
+      filterQueryHistory(history, { failedOnly: false, mutationsOnly: false, endpoint: null, ...filters }).map(item => item.id)
+
+    expect(ids({})).toHaveLength(5)
+    expect(ids({ failedOnly: true })).toEqual(['failed', 'upsert'])
+    expect(ids({ mutationsOnly: true })).toEqual(['mutation', 'upsert'])
+    expect(ids({ endpoint: 'http://localhost:8080' })).toEqual(['query', 'failed', 'mutation'])
+    expect(ids({ failedOnly: true, mutationsOnly: true, endpoint: 'http://other:8080' })).toEqual(['upsert'])
+  })
+
+  it('should measure results', () => {
+    expect(getResultSize({ data: { q: [] } })).toBe(17)
+    expect(getResultSize(null)).toBe(0)
+  })
+
+  it('should read old entries and drop malformed ones', () => {
+    expect(parseQueryHistory(null)).toEqual([])
+    expect(parseQueryHistory('not json')).toEqual([])
+    expect(parseQueryHistory('{}')).toEqual([])
+
+    const history = parseQueryHistory(JSON.stringify([
+      { id: '1', query: '{ q() {} }', timestamp: 5 },
+      { id: '2', query: 'set {}', timestamp: 6, type: 'mutation', status: 'error', error: 'boom' },
+      { query: 'no id' },
+    ]))
+    expect(history).toEqual([
+      { id: '1', query: '{ q() {} }', timestamp: 5, type: 'query' },
+      { id: '2', query: 'set {}', timestamp: 6, type: 'mutation', status: 'error', error: 'boom' },
+    ])
+  })
+})
@@ -0,0 +1,94 @@
+import {
+  extractQueryProfile,
+  formatDuration,
+  getProfileKey,
+  summarizeProfileRuns,
+  ProfileHistory,
+  ProfileRun,
+} from '../queryProfile'
+
+const makeResponse = (totalNs: number) => ({
+  data: { q: [] },
+  extensions: {
+    server_latency: {
+      parsing_ns: 1000,
+      processing_ns: totalNs - 3000,
+      encoding_ns: 2000,
+      assign_timestamp_ns: 0,
+      total_ns: totalNs,
+    },
+    txn: { start_ts: 42 },
+    metrics: { num_uids: { _total: 12, name: 10, uid: 2 } },
+  },
+})
+
+describe('Query Profile Utils', () => {
+  describe('extractQueryProfile', () => {
+    it('should read latency phases, uid counts and start_ts', () => {
+      const profile = extractQueryProfile(makeResponse(10000))
+
+      expect(profile).not.toBeNull()
+      expect(profile!.totalNs).toBe(10000)
+      expect(profile!.phases.map(phase => phase.key)).toEqual(['parsing', 'processing', 'encoding'])
+      expect(profile!.numUids).toEqual({ _total: 12, name: 10, uid: 2 })
+      expect(profile!.startTs).toBe(42)
+    })
+
+    it('should return null without server_latency', () => {
+      expect(extractQueryProfile({ data: {} })).toBeNull()
+      expect(extractQueryProfile(null)).toBeNull()
+    })
+  })
+
+  describe('formatDuration', () => {
+    it('should pick a readable unit', () => {
+      expect(formatDuration(500)).toBe('500 ns')
+      expect(formatDuration(1500)).toBe('1.5 µs')
+      expect(formatDuration(2500000)).toBe('2.50 ms')
+      expect(formatDuration(3000000000)).toBe('3.00 s')
+    })
+  })
+
+  describe('getProfileKey', () => {
+    it('should ignore whitespace differences', () => {
+      expect(getProfileKey('{ q(func: has(name)) {\n  name\n} }'))
+        .toBe(getProfileKey('{ q(func: has(name)) { name } }'))
+    })
+  })
+
+  describe('summarizeProfileRuns', () => {
+    it('should compute min, max, average and the last delta', () => {
+      const runs: ProfileRun[] = [10000, 30000, 20000].map(total => ({
+        timestamp: 0,
+        profile: extractQueryProfile(makeResponse(total))!,
+      }))
+
+      expect(summarizeProfileRuns(runs)).toEqual({
+        runs: 3,
+        minNs: 10000,
+        maxNs: 30000,
+        avgNs: 20000,
+        deltaNs: -10000,
+      })
+    })
+
+    it('should return null for no runs', () => {
+      expect(summarizeProfileRuns([])).toBeNull()
+    })
+  })
+
+  describe('ProfileHistory', () => {
+    it('should group runs by query and record each response once', () => {
+      const history = new ProfileHistory()
+      const first = makeResponse(10000)
+
+      history.record('{ q(func: has(name)) { name } }', first)
+      history.record('{ q(func: has(name)) { name } }', first)
+      history.record('{  q(func: has(name))  { name } }', makeResponse(20000))
+      history.record('{ other(func: has(age)) { age } }', makeResponse(5000))
+
+      expect(history.getRuns('{ q(func: has(name)) { name } }')).toHaveLength(2)
+      expect(history.getRuns('{ other(func: has(age)) { age } }')).toHaveLength(1)
+    })
+  })
+})
@@ -0,0 +1,114 @@
+import {
+  DEFAULT_TEXTS,
+  MAX_PERSISTED_RESULT_LENGTH,
+  createWorkspace,
+  createWorkspaceTab,
+  closeWorkspaceTab,
+  getNextTabName,
+  getWorkspaceStorageKey,
+  isTabDirty,
+  parseWorkspace,
+  serializeWorkspace,
+} from '../queryWorkspace'
+
+describe('Query Workspace Utils', () => {
+  describe('createWorkspaceTab', () => {
+    it('should number tabs and keep ids unique', () => {
+      const first = createWorkspaceTab([])
+      const second = createWorkspaceTab([first])
+
+      expect(first.name).toBe('Query 1')
+      expect(second.name).toBe('Query 2')
+      expect(second.id).not.toBe(first.id)
+      expect(getNextTabName([{ ...first, name: 'Query 2' }])).toBe('Query 1')
+      expect(first.texts).toEqual(DEFAULT_TEXTS)
+    })
+  })
+
+  describe('isTabDirty', () => {
+    it('should report edits since the last run', () => {
+      const tab = createWorkspaceTab([])
+      expect(isTabDirty(tab)).toBe(false)
+
+      const edited = { ...tab, texts: { ...tab.texts, upsert: 'upsert {}' } }
+      expect(isTabDirty(edited)).toBe(true)
+      expect(isTabDirty({ ...edited, savedTexts: { ...edited.texts } })).toBe(false)
+    })
+  })
+
+  describe('closeWorkspaceTab', () => {
+    it('should activate the neighbour of the closed tab', () => {
+      const a = createWorkspaceTab([])
+      const b = createWorkspaceTab([a])
+      const c = createWorkspaceTab([a, b])
+      const workspace = { tabs: [a, b, c], activeTabId: b.id }
+
+      expect(closeWorkspaceTab(workspace, b.id)).toEqual({ tabs: [a, c], activeTabId: c.id })
+      expect(closeWorkspaceTab({ tabs: [a, b], activeTabId: b.id }, b.id).activeTabId).toBe(a.id)
+      expect(closeWorkspaceTab(workspace, a.id).activeTabId).toBe(b.id)
+    })
+
+    it('should leave a fresh tab when the last one is closed', () => {
+      const workspace = createWorkspace()
+      const closed = closeWorkspaceTab(workspace, workspace.activeTabId)
+
+      expect(closed.tabs).toHaveLength(1)
+      expect(closed.tabs[0].texts).toEqual(DEFAULT_TEXTS)
+    })
+  })
+
+  describe('parseWorkspace and serializeWorkspace', () => {
+    it('should round-trip tabs', () => {
+      const tab = {
+        ...createWorkspaceTab([], 'People'),
+        operation: 'graphql' as const,
+        variables: { $name: 'Alice' },
+        sendAsWritten: true,
+        result: { data: { q: [{ uid: '0x1' }] } },
+        resultQuery: '{ q(func: uid(0x1)) { uid } }',
+        viewMode: 'json' as const,
+      }
+      const workspace = { tabs: [tab], activeTabId: tab.id }
+
+      expect(parseWorkspace(serializeWorkspace(workspace))).toEqual(workspace)
+    })
+
+    it('should drop results too large to store', () => {
+      const tab = { ...createWorkspaceTab([]), result: { data: 'x'.repeat(MAX_PERSISTED_RESULT_LENGTH) }, resultQuery: '{}' }
+      const [restored] = parseWorkspace(serializeWorkspace({ tabs: [tab], activeTabId: tab.id })).tabs
+
+      expect(restored.result).toBeNull()
+      expect(restored.resultQuery).toBeUndefined()
+      expect(restored.texts).toEqual(tab.texts)
+    })
+
+    it('should leave out every result when asked to', () => {
+      const tab = { ...createWorkspaceTab([]), result: { data: { q: [] } }, resultQuery: '{}' }
+      const [restored] = parseWorkspace(serializeWorkspace({ tabs: [tab], activeTabId: tab.id }, false)).tabs
+
+      expect(restored.result).toBeNull()
+      expect(restored.resultQuery).toBeUndefined()
+      expect(restored.texts).toEqual(tab.texts)
+    })
+
+    it('should repair malformed storage', () => {
+      expect(parseWorkspace(null).tabs).toHaveLength(1)
+      expect(parseWorkspace('not json').tabs).toHaveLength(1)
+      expect(parseWorkspace('{"tabs":[{"name":"no id"}]}').tabs[0].name).toBe('Query 1')
+
+      const workspace = parseWorkspace(JSON.stringify({
+        tabs: [{ id: 'a', name: 'Old', operation: 'sql', texts: { query: '{ q() {} }' }, viewMode: 'table' }],
+        activeTabId: 'missing',
+      }))
+      expect(workspace.activeTabId).toBe('a')
+      expect(workspace.tabs[0]).toMatchObject({ operation: 'query', viewMode: 'graph', graphqlVariables: '{}', sendAsWritten: false })
+      expect(workspace.tabs[0].texts).toEqual({ ...DEFAULT_TEXTS, query: '{ q() {} }' })
+      expect(isTabDirty(workspace.tabs[0])).toBe(false)
+    })
+  })
+
+  it('should keep a workspace per connection profile', () => {
+    expect(getWorkspaceStorageKey('profile-1')).not.toBe(getWorkspaceStorageKey('profile-2'))
+    expect(getWorkspaceStorageKey(null)).toBe(getWorkspaceStorageKey(undefined))
+  })
+})
@@ -0,0 +1,106 @@
+import { StringStream } from '@codemirror/language'
+import { rdfStreamParser, isRdfMutation } from '../rdfLanguage'
+
+// Tokenize a single line and return [text, style] pairs for non-whitespace tokens
+const tokenize = (line: string) => {
+  const state = rdfStreamParser.startState!(2)
+  const stream = new StringStream(line, 2, 2)
+  const tokens: Array<[string, string | null]> = []
+
+  while (!stream.eol()) {
+    const style = rdfStreamParser.token(stream, state)
+    const text = stream.current()
+    if (text.trim()) {
+      tokens.push([text, style])
+    }
+    stream.start = stream.pos
+  }
+
+  return tokens
+}
+
+describe('RDF Language Utils', () => {
+  describe('isRdfMutation', () => {
+    it('should detect RDF set blocks', () => {
+      expect(isRdfMutation('{ set { _:a <name> "Alice" . } }')).toBe(true)
+    })
+
+    it('should detect RDF from the shape of its block', () => {
+      expect(isRdfMutation('{\n  # Add Bob\n  delete { <0x1> <name> * . }\n}')).toBe(true)
+      expect(isRdfMutation('upsert {\n  query { q(func: eq(email, "a")) { v as uid } }\n  mutation { set { uid(v) <name> "A" . } }\n}')).toBe(true)
+      expect(isRdfMutation('{\n  # Enter your mutation here\n}')).toBe(true)
+    })
+
+    it('should not treat JSON mutations as RDF', () => {
+      expect(isRdfMutation('{"set": [{"name": "Alice"}]}')).toBe(false)
+      expect(isRdfMutation('[{"name": "Alice"}]')).toBe(false)
+      expect(isRdfMutation('{}')).toBe(false)
+    })
+
+    it('should keep malformed JSON as JSON', () => {
+      expect(isRdfMutation('{"set": [{"name": "Alice",}]}')).toBe(false)
+      expect(isRdfMutation('{set: [{"name": "Alice"}]}')).toBe(false)
+    })
+
+    it('should return false for empty input', () => {
+      expect(isRdfMutation('   ')).toBe(false)
+    })
+  })
+
+  describe('rdfStreamParser', () => {
+    it('should highlight a basic triple', () => {
+      expect(tokenize('_:alice <name> "Alice" .')).toEqual([
+        ['_:alice', 'variableName'],
+        ['<name>', 'propertyName'],
+        ['"Alice"', 'string'],
+        ['.', 'punctuation'],
+      ])
+    })
+
+    it('should highlight language tags and datatypes', () => {
+      const tokens = tokenize('<0x1> <name> "Alicia"@es-MX . <0x1> <age> "30"^^<xs:int> .')
+
+      expect(tokens).toContainEqual(['@es-MX', 'attributeName'])
+      expect(tokens).toContainEqual(['^^', 'operator'])
+      expect(tokens).toContainEqual(['<xs:int>', 'typeName'])
+    })
+
+    it('should highlight facets', () => {
+      const tokens = tokenize('_:a <friend> _:b (since=2006-01-02T15:04:05, close=true, weight=0.5) .')
+
+      expect(tokens).toContainEqual(['since', 'labelName'])
+      expect(tokens).toContainEqual(['2006-01-02T15:04:05', 'atom'])
+      expect(tokens).toContainEqual(['true', 'bool'])
+      expect(tokens).toContainEqual(['0.5', 'number'])
+      expect(tokens[tokens.length - 1]).toEqual(['.', 'punctuation'])
+    })
+
+    it('should highlight upsert conditions and variable references', () => {
+      const tokens = tokenize('mutation @if(eq(len(v), 0) AND NOT gt(len(u), 1)) { set { uid(v) <name> "x" . } }')
+
+      expect(tokens.slice(0, 4)).toEqual([
+        ['mutation', 'keyword'],
+        ['@if', 'keyword'],
+        ['(', 'paren'],
+        ['eq', 'keyword'],
+      ])
+      expect(tokens).toContainEqual(['AND', 'operator'])
+      expect(tokens).toContainEqual(['v', 'variableName'])
+      expect(tokens).toContainEqual(['uid(v)', 'variableName'])
+      expect(tokens).toContainEqual(['set', 'keyword'])
+    })
+
+    it('should highlight keywords, wildcards and comments', () => {
+      expect(tokenize('delete { <0x1> * * . } # remove all')).toEqual([
+        ['delete', 'keyword'],
+        ['{', 'brace'],
+        ['<0x1>', 'propertyName'],
+        ['*', 'atom'],
+        ['*', 'atom'],
+        ['.', 'punctuation'],
+        ['}', 'brace'],
+        ['# remove all', 'comment'],
+      ])
+    })
+  })
+})
@@ -0,0 +1,133 @@
+import DgraphService from '@/services/dgraphService'
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  DEFAULT_RETRY_POLICY,
+  getBackoffDelay,
+  isTransientError,
+  waitForRetry,
+} from '../requestRetry'
+
+describe('Request Retry Utils', () => {
+  describe('isTransientError', () => {
+    it('should retry network failures and 5xx responses', () => {
+      expect(isTransientError({ code: 'ECONNRESET' })).toBe(true)
+      expect(isTransientError({ message: 'Network Error' })).toBe(true)
+      expect(isTransientError({ response: { status: 503 } })).toBe(true)
+    })
+
+    it('should not retry client errors or cancelled requests', () => {
+      expect(isTransientError({ response: { status: 400 } })).toBe(false)
+      expect(isTransientError({ name: 'CanceledError', code: 'ERR_CANCELED' })).toBe(false)
+      expect(isTransientError(new Error('Mutation cannot be empty'))).toBe(false)
+    })
+
+    it('should not retry timed-out requests', () => {
+      expect(isTransientError({ code: 'ECONNABORTED', message: 'timeout of 30000ms exceeded' })).toBe(false)
+      expect(isTransientError({ code: 'ETIMEDOUT' })).toBe(false)
+    })
+  })
+
+  describe('getBackoffDelay', () => {
+    it('should grow exponentially up to the max delay', () => {
+      const maxRandom = () => 1
+      expect(getBackoffDelay(0, DEFAULT_RETRY_POLICY, maxRandom)).toBe(300)
+      expect(getBackoffDelay(2, DEFAULT_RETRY_POLICY, maxRandom)).toBe(1200)
+      expect(getBackoffDelay(10, DEFAULT_RETRY_POLICY, maxRandom)).toBe(5000)
+    })
+
+    it('should apply jitter', () => {
+      expect(getBackoffDelay(2, DEFAULT_RETRY_POLICY, () => 0.5)).toBe(600)
+    })
+  })
+
+  describe('waitForRetry', () => {
+    it('should reject when the signal aborts', async () => {
+      const controller = new AbortController()
+      const wait = waitForRetry(10000, controller.signal)
+      controller.abort()
+      await expect(wait).rejects.toBeDefined()
+    })
+
+    it('should reject like a cancelled request when aborted during backoff', async () => {
+      jest.spyOn(console, 'log').mockImplementation(() => {})
+      jest.spyOn(console, 'warn').mockImplementation(() => {})
+      const controller = new AbortController()
+      const adapter = jest.fn(async () => {
+        setTimeout(() => controller.abort(), 0)
+        throw Object.assign(new Error('Network Error'), { code: 'ERR_NETWORK' })
+      })
+      const service = new DgraphService({
+        endpoint: 'http://dgraph',
+        adapter,
+        retry: { baseDelay: 10000, maxDelay: 10000 },
+      })
+
+      const error = await service.query('{ q(func: has(name)) { uid } }', undefined, { signal: controller.signal }).catch(err => err)
+
+      expect(DgraphService.isCancelledError(error)).toBe(true)
+      expect(isTransientError(error)).toBe(false)
+      expect(adapter).toHaveBeenCalledTimes(1)
+      jest.restoreAllMocks()
+    })
+  })
+
+  describe('CircuitBreaker', () => {
+    it('should open after consecutive failures', () => {
+      const onStateChange = jest.fn()
+      const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeout: 1000 }, onStateChange)
+
+      breaker.recordFailure(0)
+      expect(breaker.getState()).toBe('closed')
+      breaker.recordFailure(0)
+      expect(breaker.getState()).toBe('open')
+      expect(onStateChange).toHaveBeenCalledWith('open')
+      expect(() => breaker.assertCanRequest(500)).toThrow(CircuitOpenError)
+    })
+
+    it('should reset the failure count on success', () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeout: 1000 })
+      breaker.recordFailure(0)
+      breaker.recordSuccess()
+      breaker.recordFailure(0)
+      expect(breaker.getState()).toBe('closed')
+    })
+
+    it('should half-open after the reset timeout and close on success', () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 })
+      breaker.recordFailure(0)
+
+      expect(() => breaker.assertCanRequest(1000)).not.toThrow()
+      expect(breaker.getState()).toBe('half-open')
+      breaker.recordSuccess()
+      expect(breaker.getState()).toBe('closed')
+    })
+
+    it('should let a single trial request through while half-open', () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 })
+      breaker.recordFailure(0)
+
+      expect(breaker.assertCanRequest(1000)).toBe(true)
+      expect(() => breaker.assertCanRequest(1001)).toThrow(CircuitOpenError)
+
+      // A cancelled trial lets the next request try instead
+      breaker.releaseProbe()
+      expect(() => breaker.assertCanRequest(1002)).not.toThrow()
+      breaker.recordSuccess()
+      expect(breaker.assertCanRequest(1003)).toBe(false)
+      expect(() => breaker.assertCanRequest(1004)).not.toThrow()
+    })
+
+    it('should re-open when the trial request fails', () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeout: 1000 })
+      breaker.recordFailure(0)
+      breaker.recordFailure(0)
+      breaker.recordFailure(0)
+      breaker.assertCanRequest(1000)
+      breaker.recordFailure(1000)
+
+      expect(breaker.getState()).toBe('open')
+      expect(() => breaker.assertCanRequest(1500)).toThrow(CircuitOpenError)
+    })
+  })
+})
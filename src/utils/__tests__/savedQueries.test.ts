@@ -0,0 +1,119 @@
+import {
+  SavedQuery,
+  SavedQueryInput,
+  exportSavedQueries,
+  getFolders,
+  groupByFolder,
+  importSavedQueries,
+  matchesConnection,
+  parseSavedQueries,
+  parseTags,
+  saveQuery,
+  searchSavedQueries,
+} from '../savedQueries'
+
+const input = (overrides: Partial<SavedQueryInput> = {}): SavedQueryInput => ({
+  name: 'People',
+  description: 'Everyone with a name',
+  folder: 'Reports',
+  tags: ['people'],
+  operation: 'query',
+  text: '{ q(func: has(name)) { uid name } }',
+  variables: {},
+  connection: { profileId: 'profile-1', endpoint: 'http://localhost:8080' },
+  ...overrides,
+})
+
+describe('Saved Queries Utils', () => {
+  describe('saveQuery', () => {
+    it('should add new queries and update ones with the same name and folder', () => {
+      const [saved] = saveQuery([], input(), 1000)
+      expect(saved).toMatchObject({ name: 'People', folder: 'Reports', starred: false, createdAt: 1000, updatedAt: 1000 })
+
+      const starred = [{ ...saved, starred: true }]
+      const updated = saveQuery(starred, input({ name: ' people ', folder: 'reports', text: '{ q() {} }' }), 2000)
+      expect(updated).toHaveLength(1)
+      expect(updated[0]).toMatchObject({ id: saved.id, text: '{ q() {} }', starred: true, createdAt: 1000, updatedAt: 2000 })
+
+      const other = saveQuery(updated, input({ folder: 'Archive' }), 2000)
+      expect(other).toHaveLength(2)
+      expect(other[1].id).not.toBe(saved.id)
+    })
+  })
+
+  it('should parse tags from free text', () => {
+    expect(parseTags('people, #reports  people\tdaily')).toEqual(['people', 'reports', 'daily'])
+    expect(parseTags('  ')).toEqual([])
+  })
+
+  describe('searchSavedQueries', () => {
+    const queries: SavedQuery[] = [
+      { ...saveQuery([], input(), 1000)[0], id: 'a' },
+      { ...saveQuery([], input({ name: 'Films', folder: '', tags: ['movies'], text: '{ q(func: has(film)) { uid } }' }), 2000)[0], id: 'b' },
+      { ...saveQuery([], input({ name: 'Directors', description: 'People who made films', tags: [] }), 3000)[0], id: 'c', starred: true },
+    ]
+
+    it('should match every word across all fields', () => {
+      expect(searchSavedQueries(queries, 'films').map(query => query.id)).toEqual(['c', 'b'])
+      expect(searchSavedQueries(queries, 'reports people').map(query => query.id)).toEqual(['c', 'a'])
+      expect(searchSavedQueries(queries, 'has(film)').map(query => query.id)).toEqual(['b'])
+      expect(searchSavedQueries(queries, '#mov').map(query => query.id)).toEqual(['b'])
+      expect(searchSavedQueries(queries, '#people').map(query => query.id)).toEqual(['a'])
+    })
+
+    it('should list starred queries first, then the newest', () => {
+      expect(searchSavedQueries(queries, '').map(query => query.id)).toEqual(['c', 'b', 'a'])
+    })
+
+    it('should group by folder with unfiled queries last', () => {
+      expect(groupByFolder(queries).map(group => group.folder)).toEqual(['Reports', ''])
+      expect(getFolders(queries)).toEqual(['Reports'])
+    })
+  })
+
+  it('should match queries to their connection', () => {
+    const [query] = saveQuery([], input(), 1000)
+
+    expect(matchesConnection(query, { profileId: 'profile-1', endpoint: 'http://other:8080' })).toBe(true)
+    expect(matchesConnection(query, { profileId: 'profile-2', endpoint: 'http://localhost:8080' })).toBe(false)
+    expect(matchesConnection(query, { profileId: null, endpoint: 'http://localhost:8080' })).toBe(true)
+    expect(matchesConnection({ ...query, connection: null }, { profileId: 'profile-2', endpoint: 'x' })).toBe(true)
+  })
+
+  describe('import and export', () => {
+    it('should round-trip the library', () => {
+      const queries = saveQuery([], input({ variables: { $name: 'Alice' } }), 1000)
+      const { queries: imported, added, updated } = importSavedQueries(exportSavedQueries(queries), [])
+
+      expect(imported).toEqual(queries)
+      expect(added).toBe(1)
+      expect(updated).toBe(0)
+    })
+
+    it('should keep the newer copy of queries already in the library', () => {
+      const [query] = saveQuery([], input(), 1000)
+      const newer = { ...query, text: '{ newer() {} }', updatedAt: 2000 }
+
+      expect(importSavedQueries(JSON.stringify([newer]), [query])).toEqual({ queries: [newer], added: 0, updated: 1 })
+      expect(importSavedQueries(JSON.stringify([query]), [newer])).toEqual({ queries: [newer], added: 0, updated: 0 })
+    })
+
+    it('should reject files that are not a library', () => {
+      expect(() => importSavedQueries('not json', [])).toThrow('not valid JSON')
+      expect(() => importSavedQueries('{"tabs":[]}', [])).toThrow('does not contain saved queries')
+      expect(() => importSavedQueries('{"version":99,"queries":[]}', [])).toThrow('Unsupported export version 99')
+    })
+  })
+
+  it('should drop malformed stored entries', () => {
+    expect(parseSavedQueries(null)).toEqual([])
+    expect(parseSavedQueries('not json')).toEqual([])
+    expect(parseSavedQueries('{}')).toEqual([])
+
+    const [query] = parseSavedQueries(JSON.stringify([
+      { id: 'a', name: 'Old', text: '{}', operation: 'sql', tags: ['x', 1], connection: { profileId: 5 } },
+      { name: 'no id', text: '{}' },
+    ]))
+    expect(query).toMatchObject({ id: 'a', operation: 'query', tags: ['x'], connection: null, folder: '', starred: false })
+  })
+})
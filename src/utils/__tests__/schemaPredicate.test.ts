@@ -0,0 +1,35 @@
+import { formatSchemaText, getSchemaPredicate, parseSchema } from '../schemaParser'
+
+describe('Schema predicates', () => {
+  const schema = {
+    schema: [
+      { predicate: 'name', type: 'string', index: true, tokenizer: ['exact'] },
+      { predicate: 'age', type: 'int', index: true },
+      { predicate: 'follows', type: 'uid', reverse: true, count: true },
+    ],
+    types: [{ name: 'Person', fields: [{ name: 'name' }, { name: 'follows' }] }],
+  }
+
+  it('should keep indexes, flags and declaring types of Dgraph predicates', () => {
+    const result = parseSchema(schema)
+
+    expect(getSchemaPredicate(result, 'name')).toMatchObject({ tokenizers: ['exact'], declaredIn: ['Person'] })
+    expect(getSchemaPredicate(result, '~follows')).toMatchObject({ reverse: true, count: true, upsert: false })
+    expect(getSchemaPredicate(result, '<age>')).toMatchObject({ tokenizers: [], declaredIn: [] })
+    expect(getSchemaPredicate(result, 'missing')).toBeNull()
+  })
+
+  it('should not list predicates of GraphQL schemas', () => {
+    const graphqlSchema = { data: { __schema: { types: [{ name: 'Person', fields: [{ name: 'name', type: { name: 'String' } }] }] } } }
+    expect(parseSchema(graphqlSchema).predicates).toBeUndefined()
+  })
+
+  it('should format Dgraph predicates as schema text', () => {
+    expect(formatSchemaText({
+      schema: [
+        { predicate: 'name', type: 'string', index: true, tokenizer: ['exact', 'term'], lang: true },
+        { predicate: 'friend', type: 'uid', list: true, reverse: true, count: true },
+      ],
+    })).toBe('name: string @index(exact, term) @lang .\nfriend: [uid] @reverse @count .')
+  })
+})
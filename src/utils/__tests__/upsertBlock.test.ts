@@ -0,0 +1,144 @@
+import {
+  findMatchingBrace,
+  parseUpsertBlock,
+  extractUpsertVariables,
+  buildInstrumentedUpsert,
+  evaluateUpsertCondition,
+  summarizeUpsertResponse,
+} from '../upsertBlock'
+import { dqlLanguage } from '../dqlLanguage'
+
+const RDF_UPSERT = `upsert {
+  query {
+    q(func: eq(email, "a@b.com")) @filter(regexp(name, /{x}/)) {
+      v as uid
+    }
+  }
+
+  mutation @if(eq(len(v), 0)) {
+    set {
+      _:new <email> "a@b.com" .
+    }
+  }
+
+  mutation @if(gt(len(v), 0)) {
+    set {
+      uid(v) <name> "{still a string}" .
+    }
+  }
+}`
+
+describe('Upsert Block Utils', () => {
+  describe('findMatchingBrace', () => {
+    it('should skip braces inside strings and comments', () => {
+      const text = '{ a "}" # }\n b }'
+      expect(findMatchingBrace(text, 0)).toBe(text.length - 1)
+    })
+
+    it('should return -1 for unclosed blocks', () => {
+      expect(findMatchingBrace('{ { }', 0)).toBe(-1)
+    })
+  })
+
+  describe('parseUpsertBlock', () => {
+    it('should parse the query and conditional mutations of an RDF upsert', () => {
+      const parsed = parseUpsertBlock(RDF_UPSERT)
+
+      expect(parsed.format).toBe('rdf')
+      expect(parsed.query).toContain('v as uid')
+      expect(parsed.mutations).toHaveLength(2)
+      expect(parsed.mutations[0].cond).toBe('@if(eq(len(v), 0))')
+      expect(parsed.mutations[1].body).toContain('uid(v) <name>')
+    })
+
+    it('should parse JSON upserts', () => {
+      const parsed = parseUpsertBlock(JSON.stringify({
+        query: '{ q(func: eq(email, "a@b.com")) { v as uid } }',
+        mutations: [{ cond: '@if(eq(len(v), 0))', set: { email: 'a@b.com' } }],
+      }))
+
+      expect(parsed.format).toBe('json')
+      expect(parsed.mutations[0]).toEqual({
+        cond: '@if(eq(len(v), 0))',
+        body: { set: { email: 'a@b.com' } },
+      })
+    })
+
+    it('should reject blocks without a mutation', () => {
+      expect(() => parseUpsertBlock('upsert { query { q(func: has(name)) { uid } } }'))
+        .toThrow('at least one mutation')
+    })
+  })
+
+  describe('buildInstrumentedUpsert', () => {
+    it('should add probe blocks for referenced variables inside the query block', () => {
+      const parsed = parseUpsertBlock(RDF_UPSERT)
+      expect(extractUpsertVariables(parsed)).toEqual(['v'])
+
+      const instrumented = buildInstrumentedUpsert(RDF_UPSERT, parsed) as string
+      const reparsed = parseUpsertBlock(instrumented)
+
+      expect(reparsed.query).toContain('__upsert_count_v(func: uid(v)) { count(uid) }')
+      expect(reparsed.query).toContain('__upsert_uids_v(func: uid(v), first: 100) { uid }')
+      expect(reparsed.mutations).toEqual(parsed.mutations)
+    })
+
+    it('should add probe blocks inside the braces of a JSON upsert query', () => {
+      const text = JSON.stringify({
+        query: '{ q(func: eq(email, "a@b.com")) { v as uid } }',
+        mutations: [{ cond: '@if(eq(len(v), 0))', set: { email: 'a@b.com' } }],
+      })
+      const instrumented = buildInstrumentedUpsert(text, parseUpsertBlock(text)) as Record<string, any>
+      const query: string = instrumented.query
+
+      // One block wraps the original query and the probes
+      expect(findMatchingBrace(query, 0)).toBe(query.trimEnd().length - 1)
+      expect(query).toContain('__upsert_count_v(func: uid(v)) { count(uid) }')
+      expect(instrumented.mutations).toEqual([{ cond: '@if(eq(len(v), 0))', set: { email: 'a@b.com' } }])
+
+      let errors = 0
+      dqlLanguage.parser.parse(query).iterate({ enter: node => { if (node.type.isError) errors++ } })
+      expect(errors).toBe(0)
+    })
+  })
+
+  describe('evaluateUpsertCondition', () => {
+    it('should evaluate comparisons on len()', () => {
+      expect(evaluateUpsertCondition('@if(eq(len(v), 0))', { v: 0 })).toBe(true)
+      expect(evaluateUpsertCondition('@if(gt(len(v), 0))', { v: 0 })).toBe(false)
+    })
+
+    it('should support AND, OR, NOT and grouping', () => {
+      const lengths = { u: 1, v: 0 }
+      expect(evaluateUpsertCondition('@if(eq(len(u), 1) AND eq(len(v), 0))', lengths)).toBe(true)
+      expect(evaluateUpsertCondition('@if(NOT eq(len(u), 1) OR (ge(len(v), 1)))', lengths)).toBe(false)
+    })
+
+    it('should return null for unknown variables or functions', () => {
+      expect(evaluateUpsertCondition('@if(eq(len(w), 0))', { v: 0 })).toBeNull()
+      expect(evaluateUpsertCondition('@if(foo(len(v), 0))', { v: 0 })).toBeNull()
+    })
+  })
+
+  describe('summarizeUpsertResponse', () => {
+    it('should strip probe blocks and report fired mutations', () => {
+      const parsed = parseUpsertBlock(RDF_UPSERT)
+      const { response, summary } = summarizeUpsertResponse(parsed, {
+        data: {
+          code: 'Success',
+          queries: {
+            q: [],
+            __upsert_count_v: [{ count: 0 }],
+            __upsert_uids_v: [],
+          },
+          uids: { new: '0x2a' },
+        },
+      })
+
+      expect(response.data.queries).toEqual({ q: [] })
+      expect(summary.matched).toEqual({ v: { count: 0, uids: [] } })
+      expect(summary.created).toEqual({ new: '0x2a' })
+      expect(summary.mutations.map(m => m.fired)).toEqual([true, false])
+    })
+  })
+})
@@ -0,0 +1,54 @@
+/**
+ * Helpers for Dgraph ACL sessions (access/refresh JWTs from the /admin login mutation)
+ */
+
+export interface AclSession {
+  userId: string;
+  namespace: number;
+  accessJWT: string;
+  refreshJWT: string;
+  // Access token expiry in milliseconds since the epoch, null when the token has no exp claim
+  expiresAt: number | null;
+}
+
+// Refresh the access token this long before it expires
+export const ACL_REFRESH_MARGIN = 60 * 1000;
+
+// Never schedule refreshes closer together than this
+const MIN_REFRESH_DELAY = 5 * 1000;
+
+/**
+ * Decode the payload of a JWT without verifying its signature
+ */
+export function decodeJwtPayload(token: string): Record<string, any> | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  try {
+    const base64 = parts[1].replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+    return JSON.parse(atob(padded));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Expiry of a JWT in milliseconds since the epoch
+ */
+export function getJwtExpiry(token: string): number | null {
+  const exp = decodeJwtPayload(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+}
+
+/**
+ * Milliseconds to wait before refreshing the session, or null if it never expires
+ */
+export function getRefreshDelay(session: AclSession, now: number = Date.now()): number | null {
+  if (session.expiresAt === null) {
+    return null;
+  }
+  return Math.max(session.expiresAt - ACL_REFRESH_MARGIN - now, MIN_REFRESH_DELAY);
+}
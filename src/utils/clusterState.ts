@@ -0,0 +1,145 @@
+/**
+ * Utilities for reading Dgraph's /state and /health?all responses
+ */
+
+export interface ClusterMember {
+  id: string;
+  addr: string;
+  groupId: number;
+  leader: boolean;
+  amDead: boolean;
+}
+
+export interface ClusterTablet {
+  predicate: string;
+  groupId: number;
+  onDiskBytes: number;
+  uncompressedBytes: number;
+  // Fraction of all tablet bytes held by this tablet
+  share: number;
+  hot: boolean;
+}
+
+export interface ClusterGroup {
+  id: number;
+  members: ClusterMember[];
+  tablets: ClusterTablet[];
+  totalBytes: number;
+}
+
+export interface ClusterState {
+  groups: ClusterGroup[];
+  zeros: ClusterMember[];
+  // All tablets across groups, largest first
+  tablets: ClusterTablet[];
+  totalBytes: number;
+  maxUID?: string;
+  maxTxnTs?: string;
+}
+
+export interface ClusterInstanceHealth {
+  instance: string;
+  address: string;
+  status: string;
+  group: string;
+  version: string;
+  uptime: number;
+  lastEcho: number;
+}
+
+// Tablets holding at least this share of all data are flagged as hot
+export const HOT_TABLET_SHARE = 0.25;
+
+const toNumber = (value: any): number => Number(value) || 0;
+
+const parseMember = (member: any, fallbackId: string): ClusterMember => ({
+  id: String(member?.id ?? fallbackId),
+  addr: member?.addr || '',
+  groupId: toNumber(member?.groupId),
+  leader: Boolean(member?.leader),
+  amDead: Boolean(member?.amDead),
+});
+
+/**
+ * Normalise a /state response. Groups, members and tablets come back as
+ * objects keyed by id; tablet sizes are onDiskBytes on current versions
+ * and space on older ones.
+ */
+export function parseClusterState(raw: any): ClusterState {
+  const groupEntries = Object.entries<any>(raw?.groups || {});
+
+  const groups: ClusterGroup[] = groupEntries.map(([groupId, group]) => {
+    const id = toNumber(groupId);
+    const members = Object.entries<any>(group?.members || {})
+      .map(([memberId, member]) => parseMember({ groupId: id, ...member }, memberId));
+    const tablets = Object.entries<any>(group?.tablets || {}).map(([predicate, tablet]) => ({
+      predicate: tablet?.predicate || predicate,
+      groupId: toNumber(tablet?.groupId ?? id),
+      onDiskBytes: toNumber(tablet?.onDiskBytes ?? tablet?.space),
+      uncompressedBytes: toNumber(tablet?.uncompressedBytes),
+      share: 0,
+      hot: false,
+    }));
+
+    return {
+      id,
+      members,
+      tablets,
+      totalBytes: tablets.reduce((sum, tablet) => sum + tablet.onDiskBytes, 0),
+    };
+  }).sort((a, b) => a.id - b.id);
+
+  const totalBytes = groups.reduce((sum, group) => sum + group.totalBytes, 0);
+  const tabletCount = groups.reduce((sum, group) => sum + group.tablets.length, 0);
+
+  groups.forEach(group => {
+    group.tablets.forEach(tablet => {
+      tablet.share = totalBytes > 0 ? tablet.onDiskBytes / totalBytes : 0;
+      // A lone tablet holds everything by definition, so it isn't flagged
+      tablet.hot = tabletCount > 1 && tablet.share >= HOT_TABLET_SHARE;
+    });
+    group.tablets.sort((a, b) => b.onDiskBytes - a.onDiskBytes);
+  });
+
+  const zeros = Object.entries<any>(raw?.zeros || {})
+    .map(([zeroId, zero]) => parseMember(zero, zeroId));
+
+  return {
+    groups,
+    zeros,
+    tablets: groups.flatMap(group => group.tablets).sort((a, b) => b.onDiskBytes - a.onDiskBytes),
+    totalBytes,
+    maxUID: raw?.maxUID,
+    maxTxnTs: raw?.maxTxnTs,
+  };
+}
+
+/**
+ * Normalise a /health?all response (a single object on some versions)
+ */
+export function parseClusterHealth(raw: any): ClusterInstanceHealth[] {
+  const entries = Array.isArray(raw) ? raw : raw ? [raw] : [];
+  return entries.map(entry => ({
+    instance: entry.instance || '',
+    address: entry.address || '',
+    status: entry.status || '',
+    group: String(entry.group ?? ''),
+    version: entry.version || '',
+    uptime: toNumber(entry.uptime),
+    lastEcho: toNumber(entry.lastEcho),
+  }));
+}
+
+/**
+ * Format a byte count with a binary unit
+ */
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KiB', 'MiB', 'GiB', 'TiB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${value} ${units[unit]}` : `${value.toFixed(1)} ${units[unit]}`;
+}
@@ -0,0 +1,112 @@
+/**
+ * Named connection profiles (local, staging, prod ...) stored in localStorage
+ */
+
+import { EmbeddingProvider } from '@/services/embeddingService';
+
+// How the browser reaches Dgraph: directly, or through the built-in /api/dgraph proxy
+export type ConnectionMode = 'direct' | 'proxy';
+
+// Everything a profile restores when it's selected. The ACL password is
+// never stored; only the user and namespace are.
+export interface ConnectionSettings {
+  endpoint: string;
+  apiKey: string;
+  hypermodeRouterKey: string;
+  embeddingProvider: EmbeddingProvider;
+  embeddingApiKey: string;
+  embeddingModel: string;
+  ollamaEndpoint: string;
+  mcpConfig: string;
+  mcpServerUrl: string;
+  mcpBearerToken: string;
+  // Seconds
+  requestTimeout: number;
+  connectionMode: ConnectionMode;
+  allowPublicProxies: boolean;
+  aclUserId: string;
+  aclNamespace: number;
+}
+
+// Chakra colour palettes used for profile badges
+export const PROFILE_COLORS = ['blue', 'green', 'orange', 'red', 'purple', 'teal', 'pink', 'gray'] as const;
+
+export type ProfileColor = typeof PROFILE_COLORS[number];
+
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  color: ProfileColor;
+  settings: ConnectionSettings;
+}
+
+export const DEFAULT_CONNECTION_SETTINGS: ConnectionSettings = {
+  endpoint: 'http://localhost:8080',
+  apiKey: '',
+  hypermodeRouterKey: '',
+  embeddingProvider: 'openai',
+  embeddingApiKey: '',
+  embeddingModel: '',
+  ollamaEndpoint: 'http://localhost:11434',
+  mcpConfig: '',
+  mcpServerUrl: '',
+  mcpBearerToken: '',
+  requestTimeout: 30,
+  connectionMode: 'direct',
+  allowPublicProxies: false,
+  aclUserId: '',
+  aclNamespace: 0,
+};
+
+/**
+ * Read stored profiles, dropping malformed entries and filling in settings
+ * added after a profile was saved
+ */
+export function parseProfiles(raw: string | null): ConnectionProfile[] {
+  if (!raw) {
+    return [];
+  }
+
+  let stored: unknown;
+  try {
+    stored = JSON.parse(raw);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(stored)) {
+    return [];
+  }
+
+  return stored
+    .filter((profile: any) => typeof profile?.id === 'string' && typeof profile?.name === 'string')
+    .map((profile: any) => ({
+      id: profile.id,
+      name: profile.name,
+      color: PROFILE_COLORS.includes(profile.color) ? profile.color : 'gray',
+      settings: { ...DEFAULT_CONNECTION_SETTINGS, ...profile.settings },
+    }));
+}
+
+/**
+ * The first colour not used by another profile, so new profiles stand apart
+ */
+export function getNextProfileColor(profiles: ConnectionProfile[]): ProfileColor {
+  const used = new Set(profiles.map(profile => profile.color));
+  return PROFILE_COLORS.find(color => !used.has(color)) ?? PROFILE_COLORS[profiles.length % PROFILE_COLORS.length];
+}
+
+/**
+ * Create a profile with a unique id
+ */
+export function createProfile(
+  name: string,
+  settings: ConnectionSettings,
+  profiles: ConnectionProfile[],
+  color: ProfileColor = getNextProfileColor(profiles)
+): ConnectionProfile {
+  let id = `profile-${Date.now().toString(36)}`;
+  while (profiles.some(profile => profile.id === id)) {
+    id = `${id}-${profiles.length}`;
+  }
+  return { id, name: name.trim() || 'Untitled', color, settings: { ...settings } };
+}
@@ -0,0 +1,107 @@
+/**
+ * Small film graph loaded into the offline emulator in demo mode
+ */
+
+export const DEMO_SCHEMA = `name: string @index(exact, term) @lang .
+email: string @index(exact) @upsert .
+born: datetime @index(year) .
+country: string @index(exact) .
+follows: [uid] @reverse @count .
+directed: [uid] @reverse .
+acted_in: [uid] @reverse .
+release_date: datetime @index(year) .
+rating: float @index(float) .
+runtime: int @index(int) .
+genre: [uid] @reverse @count .
+
+type Person {
+  name
+  email
+  born
+  country
+  follows
+  directed
+  acted_in
+}
+
+type Film {
+  name
+  release_date
+  rating
+  runtime
+  genre
+}
+
+type Genre {
+  name
+}`;
+
+const genres = {
+  scifi: { uid: '_:scifi', 'dgraph.type': 'Genre', name: 'Science Fiction' },
+  drama: { uid: '_:drama', 'dgraph.type': 'Genre', name: 'Drama' },
+  thriller: { uid: '_:thriller', 'dgraph.type': 'Genre', name: 'Thriller' },
+  comedy: { uid: '_:comedy', 'dgraph.type': 'Genre', name: 'Comedy' },
+};
+
+const films = {
+  arrival: {
+    uid: '_:arrival', 'dgraph.type': 'Film', name: 'Arrival', 'name@fr': 'Premier Contact',
+    release_date: '2016-11-11T00:00:00Z', rating: 7.9, runtime: 116, genre: [genres.scifi, genres.drama],
+  },
+  sicario: {
+    uid: '_:sicario', 'dgraph.type': 'Film', name: 'Sicario',
+    release_date: '2015-09-18T00:00:00Z', rating: 7.6, runtime: 121, genre: [genres.thriller, genres.drama],
+  },
+  dune: {
+    uid: '_:dune', 'dgraph.type': 'Film', name: 'Dune',
+    release_date: '2021-10-22T00:00:00Z', rating: 8.0, runtime: 155, genre: [genres.scifi],
+  },
+  ladybird: {
+    uid: '_:ladybird', 'dgraph.type': 'Film', name: 'Lady Bird',
+    release_date: '2017-11-03T00:00:00Z', rating: 7.4, runtime: 94, genre: [genres.comedy, genres.drama],
+  },
+  littlewomen: {
+    uid: '_:littlewomen', 'dgraph.type': 'Film', name: 'Little Women',
+    release_date: '2019-12-25T00:00:00Z', rating: 7.8, runtime: 135, genre: [genres.drama],
+  },
+};
+
+const people = {
+  denis: {
+    uid: '_:denis', 'dgraph.type': 'Person', name: 'Denis Villeneuve', email: 'denis@example.com',
+    born: '1967-10-03T00:00:00Z', country: 'Canada', directed: [films.arrival, films.sicario, films.dune],
+  },
+  greta: {
+    uid: '_:greta', 'dgraph.type': 'Person', name: 'Greta Gerwig', email: 'greta@example.com',
+    born: '1983-08-04T00:00:00Z', country: 'USA', directed: [films.ladybird, films.littlewomen],
+  },
+  amy: {
+    uid: '_:amy', 'dgraph.type': 'Person', name: 'Amy Adams', email: 'amy@example.com',
+    born: '1974-08-20T00:00:00Z', country: 'USA', acted_in: [films.arrival],
+  },
+  emily: {
+    uid: '_:emily', 'dgraph.type': 'Person', name: 'Emily Blunt', email: 'emily@example.com',
+    born: '1983-02-23T00:00:00Z', country: 'UK', acted_in: [films.sicario],
+  },
+  timothee: {
+    uid: '_:timothee', 'dgraph.type': 'Person', name: 'Timothée Chalamet', email: 'timothee@example.com',
+    born: '1995-12-27T00:00:00Z', country: 'USA', acted_in: [films.dune, films.ladybird, films.littlewomen],
+  },
+  saoirse: {
+    uid: '_:saoirse', 'dgraph.type': 'Person', name: 'Saoirse Ronan', email: 'saoirse@example.com',
+    born: '1994-04-12T00:00:00Z', country: 'Ireland', acted_in: [films.ladybird, films.littlewomen],
+  },
+};
+
+/**
+ * JSON mutation creating the demo graph, follows edges included
+ */
+export const DEMO_DATA = {
+  set: [
+    ...Object.values(people),
+    { uid: people.amy.uid, follows: [{ uid: people.denis.uid }, { uid: people.emily.uid }] },
+    { uid: people.timothee.uid, follows: [{ uid: people.saoirse.uid }, { uid: people.greta.uid }, { uid: people.denis.uid }] },
+    { uid: people.saoirse.uid, follows: [{ uid: people.greta.uid }, { uid: people.timothee.uid }] },
+    { uid: people.emily.uid, follows: [{ uid: people.amy.uid }] },
+  ],
+};
@@ -0,0 +1,107 @@
+/**
+ * Typed errors for failed Dgraph requests
+ */
+
+export interface DgraphErrorLocation {
+  // 1-based, as reported by Dgraph
+  line: number;
+  column: number;
+}
+
+export interface DgraphErrorEntry {
+  message: string;
+  code?: string;
+  location?: DgraphErrorLocation;
+}
+
+/**
+ * A failed Dgraph request. message is the first server message, location
+ * points into the submitted query when the server reported one, and
+ * serverResponse keeps the raw body for a details view.
+ */
+export class DgraphError extends Error {
+  code: string;
+  location?: DgraphErrorLocation;
+  status?: number;
+  errors: DgraphErrorEntry[];
+  serverResponse?: any;
+
+  constructor(errors: DgraphErrorEntry[], options: { status?: number; serverResponse?: any; code?: string } = {}) {
+    super(errors[0]?.message || 'Dgraph request failed');
+    this.name = 'DgraphError';
+    this.errors = errors;
+    this.code = errors[0]?.code || options.code || 'ErrorUnknown';
+    this.location = errors.find(error => error.location)?.location;
+    this.status = options.status;
+    this.serverResponse = options.serverResponse;
+  }
+}
+
+/**
+ * Find a "line 3 column 12" style location in a Dgraph error message
+ */
+export function parseErrorLocation(message: string): DgraphErrorLocation | undefined {
+  const match = /line\s*:?\s*(\d+)[\s,]+col(?:umn)?\s*:?\s*(\d+)/i.exec(message);
+  if (!match) {
+    return undefined;
+  }
+  return { line: Number(match[1]), column: Number(match[2]) };
+}
+
+const toEntry = (error: any): DgraphErrorEntry => {
+  const message = typeof error === 'string' ? error : String(error?.message ?? error);
+  // GraphQL endpoints report locations separately from the message
+  const graphqlLocation = error?.locations?.[0];
+  return {
+    message,
+    code: error?.extensions?.code,
+    location: graphqlLocation?.line
+      ? { line: graphqlLocation.line, column: graphqlLocation.column || 1 }
+      : parseErrorLocation(message),
+  };
+};
+
+/**
+ * Build a DgraphError from a response body carrying an errors array
+ */
+export function fromDgraphResponse(body: any, status?: number): DgraphError {
+  const errors: DgraphErrorEntry[] = Array.isArray(body?.errors) && body.errors.length > 0
+    ? body.errors.map(toEntry)
+    : [{ message: typeof body === 'string' && body.trim() ? body.trim() : `Request failed with status ${status}` }];
+  return new DgraphError(errors, { status, serverResponse: body });
+}
+
+/**
+ * Convert a failed axios request into a DgraphError. Errors without a
+ * response (network failures, timeouts) keep their message and get the axios error code.
+ */
+export function toDgraphError(error: any): DgraphError {
+  if (error instanceof DgraphError) {
+    return error;
+  }
+
+  if (error?.response) {
+    return fromDgraphResponse(error.response.data, error.response.status);
+  }
+
+  return new DgraphError([toEntry(error)], { code: error?.code || 'ErrorNetwork' });
+}
+
+/**
+ * Convert a 1-based line/column location into a document range, widened to
+ * the token at that position so the underline is visible
+ */
+export function getLocationRange(text: string, location: DgraphErrorLocation): { from: number; to: number } {
+  const lines = text.split('\n');
+  const lineIndex = Math.min(Math.max(location.line, 1), lines.length) - 1;
+  const lineStart = lines.slice(0, lineIndex).reduce((offset, line) => offset + line.length + 1, 0);
+  const lineText = lines[lineIndex];
+
+  const column = Math.min(Math.max(location.column, 1), Math.max(lineText.length, 1)) - 1;
+  const from = lineStart + column;
+
+  const token = /^[\w.@~$-]+/.exec(lineText.substring(column));
+  const to = token ? from + token[0].length : Math.min(from + 1, lineStart + lineText.length);
+
+  return { from, to: Math.max(to, from) };
+}
@@ -0,0 +1,98 @@
+/**
+ * Helpers for the built-in Dgraph proxy route (/api/dgraph/[...path])
+ */
+
+// Header carrying the Dgraph endpoint the proxy should forward to
+export const PROXY_TARGET_HEADER = 'X-Dgraph-Target';
+
+// Base path of the proxy route
+export const PROXY_BASE_PATH = '/api/dgraph';
+
+// Hosts that may be proxied when DGRAPH_PROXY_ALLOWED_HOSTS is not set
+const DEFAULT_ALLOWED_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+// Dgraph HTTP endpoints the proxy forwards, optionally under the /dgraph prefix used by hosted clusters
+const ALLOWED_PATH_REGEX = /^(dgraph\/)?(query|mutate|alter|commit|health|state|admin|graphql)$/;
+
+// Request headers forwarded to Dgraph
+export const FORWARDED_REQUEST_HEADERS = [
+  'content-type',
+  'authorization',
+  'x-dgraph-apikey',
+  'x-dgraph-accesstoken',
+  'x-auth-token',
+];
+
+/**
+ * Parse a comma-separated allow-list of hosts. Entries may include a port
+ * (localhost:8080) or a leading wildcard (*.hypermode.host).
+ */
+export function parseAllowedHosts(value: string | undefined): string[] {
+  if (!value || value.trim() === '') {
+    return DEFAULT_ALLOWED_HOSTS;
+  }
+  return value
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(host => host.length > 0);
+}
+
+/**
+ * Check whether a target URL's host is on the allow-list
+ */
+export function isHostAllowed(target: URL, allowedHosts: string[]): boolean {
+  const hostname = target.hostname.toLowerCase();
+  const host = target.host.toLowerCase();
+
+  return allowedHosts.some(entry => {
+    if (entry.startsWith('*.')) {
+      const suffix = entry.substring(1);
+      return hostname.endsWith(suffix) && hostname.length > suffix.length;
+    }
+    // Entries with a port must match host:port exactly
+    return entry === host || entry === hostname;
+  });
+}
+
+/**
+ * Check whether a path (relative to the Dgraph endpoint) may be proxied
+ */
+export function isProxyPathAllowed(path: string): boolean {
+  return ALLOWED_PATH_REGEX.test(path.replace(/^\/+/, ''));
+}
+
+/**
+ * Validate the proxy target and build the upstream URL
+ */
+export function buildProxyTargetUrl(
+  target: string | null,
+  path: string,
+  search: string,
+  allowedHosts: string[]
+): { url: string } | { error: string; status: number } {
+  if (!target) {
+    return { error: `Missing ${PROXY_TARGET_HEADER} header`, status: 400 };
+  }
+
+  let targetUrl: URL;
+  try {
+    targetUrl = new URL(target);
+  } catch {
+    return { error: 'Invalid proxy target URL', status: 400 };
+  }
+
+  if (targetUrl.protocol !== 'http:' && targetUrl.protocol !== 'https:') {
+    return { error: 'Proxy target must use http or https', status: 400 };
+  }
+
+  if (!isHostAllowed(targetUrl, allowedHosts)) {
+    return { error: `Host ${targetUrl.host} is not in the proxy allow-list`, status: 403 };
+  }
+
+  if (!isProxyPathAllowed(path)) {
+    return { error: `Path /${path} cannot be proxied`, status: 404 };
+  }
+
+  const basePath = targetUrl.pathname.replace(/\/+$/, '');
+  return { url: `${targetUrl.origin}${basePath}/${path.replace(/^\/+/, '')}${search}` };
+}
@@ -0,0 +1,218 @@
+/**
+ * Pretty-printer for DQL queries and upsert blocks
+ */
+
+import { DqlToken, DIRECTIVE_NAMES, tokenizeDql } from './dqlParser';
+
+export interface DqlFormatOptions {
+  // Indentation per nesting level (default two spaces)
+  indent?: string;
+}
+
+// Punctuation whose spacing is always normalised, even where the source had none
+const STRUCTURAL = [',', ':', '(', ')', '[', ']', '{', '}'];
+
+// Filter connectives, which keep a space before a parenthesised group
+const CONNECTIVES = ['and', 'or', 'not'];
+
+// Blocks whose body is N-Quads, kept line by line
+const NQUAD_BLOCKS = ['set', 'delete'];
+
+const isPunct = (token: DqlToken | undefined, ...values: string[]) =>
+  !!token && token.type === 'punct' && values.includes(token.value);
+
+const isStructural = (token: DqlToken) => token.type === 'punct' && STRUCTURAL.includes(token.value);
+
+function isBalanced(tokens: DqlToken[]): boolean {
+  const pairs: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+  const stack: string[] = [];
+  for (const token of tokens) {
+    if (isPunct(token, '(', '[', '{')) stack.push(token.value);
+    if (isPunct(token, ')', ']', '}') && stack.pop() !== pairs[token.value]) return false;
+  }
+  return stack.length === 0;
+}
+
+// Parts of a language tag list after the @: name@en:fr, name@., name@en-GB
+const LANG_TAG_PARTS = [':', '.', '*', '-'];
+
+/**
+ * Join predicates and their language tags into one token, so name@en:. and
+ * name@. are spaced and split into fields like plain predicates
+ */
+function joinLangTags(tokens: DqlToken[], text: string): DqlToken[] {
+  const joined: DqlToken[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const at = tokens[i + 1];
+    const tag = tokens[i + 2];
+    const isLangTag = (token.type === 'name' || token.type === 'iri')
+      && isPunct(at, '@') && at.start === token.end
+      && !!tag && tag.start === at.end
+      && (tag.type === 'name' ? !DIRECTIVE_NAMES.includes(tag.value) : isPunct(tag, ...LANG_TAG_PARTS));
+    if (!isLangTag) {
+      joined.push(token);
+      continue;
+    }
+
+    let end = i + 2;
+    while (
+      tokens[end + 1] && tokens[end + 1].start === tokens[end].end &&
+      (tokens[end + 1].type === 'name' || isPunct(tokens[end + 1], ...LANG_TAG_PARTS))
+    ) {
+      end++;
+    }
+    joined.push({ type: token.type, value: text.substring(token.start, tokens[end].end), start: token.start, end: tokens[end].end });
+    i = end;
+  }
+  return joined;
+}
+
+/**
+ * Whether a token inside a selection starts the next field or block
+ */
+function startsField(previous: DqlToken, token: DqlToken): boolean {
+  if (token.type !== 'name' && token.type !== 'iri') return false;
+  // x as friend, friend as x
+  if (token.value === 'as' || previous.value === 'as') return false;
+  if (previous.type === 'punct') return isPunct(previous, ')', ']', '}');
+  return previous.type !== 'comment';
+}
+
+function needsSpace(previous: DqlToken, token: DqlToken, next: DqlToken | undefined): boolean {
+  // Directives are separated from what they follow: name @filter(...)
+  if (isPunct(token, '@') && next?.type === 'name' && DIRECTIVE_NAMES.includes(next.value)) return true;
+  // Variable defaults: $name: string = "Bob"
+  if (isPunct(previous, '=') || isPunct(token, '=')) return true;
+  // Keep 0x1, name@en, ~friend and -1 together
+  if (previous.end === token.start && !isStructural(previous) && !isStructural(token)) return false;
+  if (isPunct(token, ')', ']', ',', ':')) return false;
+  if (isPunct(previous, '(', '[', '@')) return false;
+  if (isPunct(token, '(')) {
+    return !(previous.type === 'name' || previous.type === 'iri') || CONNECTIVES.includes(previous.value.toLowerCase());
+  }
+  return true;
+}
+
+/**
+ * Normalise indentation, argument spacing, directive placement and blank
+ * lines. Each field goes on its own line, directives stay on the line of
+ * the field they belong to, and root blocks are separated by one blank line.
+ * Comments and N-Quads in set/delete blocks are kept. Text with unbalanced
+ * brackets or unterminated strings is returned unchanged.
+ */
+export function formatDql(text: string, options: DqlFormatOptions = {}): string {
+  const { tokens: allTokens, errors } = tokenizeDql(text);
+  const tokens = joinLangTags(allTokens, text)
+    .map(token => (token.type === 'comment' ? { ...token, value: token.value.trimEnd() } : token));
+  if (errors.length > 0 || !isBalanced(tokens) || tokens.length === 0) {
+    return text;
+  }
+
+  const unit = options.indent ?? '  ';
+  const lines: string[] = [];
+  let line = '';
+  let depth = 0;
+  let parens = 0;
+  let previous: DqlToken | undefined;
+  // Last token written, comments included
+  let last: DqlToken | undefined;
+
+  const breakLine = (blank = false) => {
+    if (line.trim()) lines.push(line.trimEnd());
+    line = '';
+    if (blank && lines.length > 0 && lines[lines.length - 1] !== '') lines.push('');
+  };
+
+  const write = (value: string, space: boolean) => {
+    if (!line) {
+      line = unit.repeat(depth + (parens > 0 ? 1 : 0)) + value;
+    } else {
+      line += (space ? ' ' : '') + value;
+    }
+  };
+
+  const hadBlankLine = (to: DqlToken) => !!last && /\n[ \t]*\n/.test(text.substring(last.end, to.start));
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const blankBefore = hadBlankLine(token);
+
+    if (token.type === 'comment') {
+      const trailing = !!last && !text.substring(last.end, token.start).includes('\n');
+      if (trailing && !line && lines.length > 0) {
+        // Comment after an opening brace, which has already ended its line
+        lines[lines.length - 1] += ' ' + token.value;
+      } else {
+        if (!trailing) breakLine(blankBefore);
+        write(token.value, true);
+        breakLine();
+      }
+      last = token;
+      continue;
+    }
+    last = token;
+
+    if (isPunct(token, '{')) {
+      const close = tokens.findIndex((candidate, index) => index > i && candidate.type !== 'comment');
+
+      // Empty braces stay together: schema {}
+      if (isPunct(tokens[close], '}')) {
+        write('{}', true);
+        previous = last = tokens[close];
+        i = close;
+        continue;
+      }
+
+      write('{', true);
+
+      // N-Quads are kept one statement per line
+      if (previous?.type === 'name' && NQUAD_BLOCKS.includes(previous.value.toLowerCase()) && parens === 0) {
+        let level = 1;
+        let end = i + 1;
+        for (; end < tokens.length; end++) {
+          if (isPunct(tokens[end], '{')) level++;
+          if (isPunct(tokens[end], '}') && --level === 0) break;
+        }
+        breakLine();
+        text.substring(token.end, tokens[end].start).split('\n').forEach(statement => {
+          if (statement.trim()) lines.push(unit.repeat(depth + 1) + statement.trim());
+        });
+        write('}', false);
+        previous = last = tokens[end];
+        i = end;
+        continue;
+      }
+
+      depth++;
+      breakLine();
+      previous = token;
+      continue;
+    }
+
+    if (isPunct(token, '}')) {
+      breakLine();
+      depth--;
+      write('}', false);
+      previous = token;
+      continue;
+    }
+
+    if (previous && depth > 0 && parens === 0 && startsField(previous, token)) {
+      // One blank line between root blocks, and at most one where the source had any
+      breakLine((depth === 1 && isPunct(previous, '}')) || blankBefore);
+    } else if (previous && depth === 0 && parens === 0 && isPunct(previous, '}')) {
+      breakLine(true);
+    }
+
+    const next = tokens.slice(i + 1).find(candidate => candidate.type !== 'comment');
+    write(token.value, !!previous && needsSpace(previous, token, next));
+
+    if (isPunct(token, '(', '[')) parens++;
+    if (isPunct(token, ')', ']')) parens--;
+    previous = token;
+  }
+
+  breakLine();
+  return lines.join('\n');
+}
@@ -0,0 +1,173 @@
+/**
+ * Reference of DQL functions: signatures and the index each one needs
+ */
+
+export interface DqlFunctionDoc {
+  name: string;
+  signature: string;
+  description: string;
+  // The predicate of the first argument needs an @index with one of these tokenizers
+  tokenizers?: string[];
+  // The index is only needed when the function is the query root's func
+  rootOnly?: boolean;
+}
+
+// Tokenizers Dgraph can use for equality
+const EQUALITY_TOKENIZERS = ['exact', 'hash', 'term', 'fulltext', 'int', 'float', 'bool', 'year', 'month', 'day', 'hour'];
+
+// Tokenizers that keep values sortable
+const ORDERED_TOKENIZERS = ['exact', 'int', 'float', 'year', 'month', 'day', 'hour'];
+
+const comparison = (name: string, description: string): DqlFunctionDoc => ({
+  name,
+  signature: `${name}(predicate, value)`,
+  description,
+  tokenizers: ORDERED_TOKENIZERS,
+  rootOnly: true,
+});
+
+const geo = (name: string, signature: string, description: string): DqlFunctionDoc => ({
+  name,
+  signature,
+  description,
+  tokenizers: ['geo'],
+});
+
+export const DQL_FUNCTIONS: Record<string, DqlFunctionDoc> = Object.fromEntries([
+  {
+    name: 'eq',
+    signature: 'eq(predicate, value | [values])',
+    description: 'Nodes where the predicate equals the value, or any of the values',
+    tokenizers: EQUALITY_TOKENIZERS,
+    rootOnly: true,
+  },
+  comparison('lt', 'Nodes where the predicate is less than the value'),
+  comparison('le', 'Nodes where the predicate is less than or equal to the value'),
+  comparison('gt', 'Nodes where the predicate is greater than the value'),
+  comparison('ge', 'Nodes where the predicate is greater than or equal to the value'),
+  {
+    name: 'between',
+    signature: 'between(predicate, low, high)',
+    description: 'Nodes where the predicate lies between low and high, inclusive',
+    tokenizers: ORDERED_TOKENIZERS,
+    rootOnly: true,
+  },
+  {
+    name: 'allofterms',
+    signature: 'allofterms(predicate, "space-separated terms")',
+    description: 'Nodes where the predicate contains all of the terms, in any order',
+    tokenizers: ['term'],
+  },
+  {
+    name: 'anyofterms',
+    signature: 'anyofterms(predicate, "space-separated terms")',
+    description: 'Nodes where the predicate contains any of the terms',
+    tokenizers: ['term'],
+  },
+  {
+    name: 'alloftext',
+    signature: 'alloftext(predicate, "text")',
+    description: 'Full-text search with stemming and stop words: all of the words must match',
+    tokenizers: ['fulltext'],
+  },
+  {
+    name: 'anyoftext',
+    signature: 'anyoftext(predicate, "text")',
+    description: 'Full-text search with stemming and stop words: any of the words may match',
+    tokenizers: ['fulltext'],
+  },
+  {
+    name: 'regexp',
+    signature: 'regexp(predicate, /regular-expression/flags)',
+    description: 'Nodes where the predicate matches the regular expression',
+    tokenizers: ['trigram'],
+  },
+  {
+    name: 'match',
+    signature: 'match(predicate, "string", distance)',
+    description: 'Fuzzy match: nodes within the Levenshtein distance of the string',
+    tokenizers: ['trigram'],
+  },
+  geo('near', 'near(predicate, [long, lat], distance)', 'Nodes within distance metres of the point'),
+  geo('within', 'within(predicate, [[[long, lat], ...]])', 'Nodes whose location lies within the polygon'),
+  geo('contains', 'contains(predicate, [long, lat] | [[[long, lat], ...]])', 'Nodes whose polygon contains the point or polygon'),
+  geo('intersects', 'intersects(predicate, [[[long, lat], ...]])', 'Nodes whose polygon intersects the polygon'),
+  {
+    name: 'similar_to',
+    signature: 'similar_to(predicate, k, vector | $vector)',
+    description: 'The k nodes whose vector embedding is closest to the vector',
+    tokenizers: ['hnsw'],
+  },
+  {
+    name: 'has',
+    signature: 'has(predicate)',
+    description: 'Nodes that have a value for the predicate',
+  },
+  {
+    name: 'uid',
+    signature: 'uid(0x1, ... | variable)',
+    description: 'Nodes with the given uids, or the uids of a variable',
+  },
+  {
+    name: 'uid_in',
+    signature: 'uid_in(predicate, uid | [uids] | uid(variable))',
+    description: 'Nodes with an edge through the predicate to one of the uids',
+  },
+  {
+    name: 'type',
+    signature: 'type(TypeName)',
+    description: 'Nodes whose dgraph.type is the type',
+  },
+  {
+    name: 'count',
+    signature: 'count(predicate)',
+    description: 'Number of edges of the predicate; fast with @count on the predicate',
+  },
+  {
+    name: 'val',
+    signature: 'val(variable)',
+    description: 'Values of a value variable',
+  },
+  {
+    name: 'len',
+    signature: 'len(variable)',
+    description: 'Number of uids in a uid variable',
+  },
+  {
+    name: 'checkpwd',
+    signature: 'checkpwd(predicate, "password")',
+    description: 'Whether the password matches the stored password predicate',
+  },
+].map(doc => [doc.name, doc]));
+
+/**
+ * How to index a predicate for a function, e.g. "@index(term)"
+ */
+export function describeRequiredIndex(doc: DqlFunctionDoc): string | null {
+  if (!doc.tokenizers) {
+    return null;
+  }
+  return doc.tokenizers.length === 1
+    ? `@index(${doc.tokenizers[0]})`
+    : `@index with one of: ${doc.tokenizers.join(', ')}`;
+}
+
+// Tokenizers Dgraph accepts for each predicate type, most useful first
+const TYPE_TOKENIZERS: Record<string, string[]> = {
+  string: ['exact', 'hash', 'term', 'fulltext', 'trigram'],
+  int: ['int'],
+  float: ['float'],
+  bool: ['bool'],
+  datetime: ['year', 'month', 'day', 'hour'],
+  geo: ['geo'],
+  float32vector: ['hnsw'],
+};
+
+/**
+ * The tokenizer to add to a predicate of the given type so the function can
+ * use it, or null when no index on that type would do, e.g. gt on a bool
+ */
+export function suggestTokenizer(doc: DqlFunctionDoc, type: string): string | null {
+  const accepted = TYPE_TOKENIZERS[type] ?? [];
+  return accepted.find(tokenizer => doc.tokenizers?.includes(tokenizer)) ?? null;
+}
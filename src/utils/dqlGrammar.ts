@@ -0,0 +1,22 @@
+// This file was generated by lezer-generator. You probably shouldn't edit it.
+import {LRParser} from "@lezer/lr"
+const spec_identifier = {__proto__:null,query:9, math:44, true:66, false:68, as:88, not:102, NOT:104, and:108, AND:110, or:112, OR:114, upsert:129, mutation:135, set:141, delete:143, fragment:167, schema:171}
+export const parser = LRParser.deserialize({
+  version: 14,
+  states: "<zQYQPOOO|QPO'#DVOOQO'#C_'#C_OOQO'#Ee'#EeOOQO'#EU'#EUQYQPOOO!TQPO'#C_O!`QPO'#DmO!eQPO'#EQO!jQPO'#ESO#gQPO'#DXO#nQPO'#D[OOQO'#D['#D[O$bQPO'#DWO#sQPO'#DWO$iQPO'#DWO!eQPO'#DjOOQO'#Em'#EmOOQO'#EZ'#EZO$nQPO,59qOOQO,59q,59qO$uQPO'#CqO$zQPO'#DWOOQO-E8S-E8SOOQO'#Ca'#CaO%PQPO'#CdOOQO,58y,58yO!mQPO,58yO%XQPO,58yO%aQPO'#DoOOQO,5:X,5:XOOQO'#Dl'#DlO!mQPO,5:lO&dQPO'#CmOOQO,5:n,5:nO!mQPO,5:nOOQO,59v,59vO&kQPO'#D]OOQO'#E['#E[O'YQPO,59rOOQO,59r,59rO'YQPO,59rO'tQPO,59rO'{QPO,59rOOQO,5:U,5:UOOQO-E8X-E8XOOQO1G/]1G/]O(oQQO'#CsOOQO,59],59]O(vQPO,59rO)UQPO'#CeO)ZQPO'#EgO)cQPO,59OOOQO1G.e1G.eO!mQPO1G.eOOQO'#E^'#E^O)hQPO,5:ZOOQO,5:Z,5:ZO)vQPO'#DpOOQO1G0W1G0WO*OQPO'#ClO*aQPO'#CnOOQO'#Ej'#EjO*fQPO'#EiO*nQPO,59XO*sQPO'#CkO*xQPO'#CwOOQO'#Cw'#CwO+rQPO'#DSOOQO'#Eh'#EhOOQO'#C|'#C|OOQO1G0Y1G0YO,_QPO'#D_OOQO,59w,59wOOQO-E8Y-E8YOOQO1G/^1G/^O,fQPO1G/^O,fQPO1G/^O-QQPO1G/^O-[QPO1G/^OOQO'#Ct'#CtOOQO'#Ek'#EkOOQO'#EW'#EWO-cQQO,59_OOQO,59_,59_O!rQPO'#DZO-jQPO1G/^O-oQPO,59PO-tQPO'#EYO-yQPO,5;ROOQO1G.j1G.jOOQO7+$P7+$POOQO-E8[-E8[OOQO1G/u1G/uO)vQPO,5:[O.RQPO'#DrOOQO,5:[,5:[OOQO,59c,59cO*}QPO,59YO%oQPO'#EVO.^QPO,5;TOOQO1G.s1G.sOOQO,59V,59VO.fQPO,59cO.tQPO'#ClO/VQPO'#ElO/_QPO,59nO/dQPO'#ClOOQO'#Eq'#EqO/kQPO'#D`O/yQPO'#EoO/kQPO'#DhOOQO'#Ep'#EpOOQO'#Eo'#EoO0_QPO'#EnO0gQPO,59yO0lQPO'#DiOOQO7+$x7+$xO0qQPO7+$xO0qQPO7+$xO1]QPO7+$xOOQO-E8U-E8UOOQO1G.y1G.yO'{QPO7+$xOOQO'#Ch'#ChO1dQPO1G.kOOQO,5:t,5:tOOQO-E8W-E8WOOQO1G/v1G/vOOQO'#E_'#E_O1rQPO,5:^OOQO,5:^,5:^O1}QPO'#DsOOQO1G.t1G.tOOQO,5:q,5:qOOQO-E8T-E8TOOQO1G.}1G.}O*}QPO'#EXO2SQPO,5;WOOQO1G/Y1G/YOOQO'#Cl'#ClOOQO,59z,59zOOQO'#Er'#ErOOQO'#Es'#EsO/kQPO,59}O/kQPO,59}O2[QPO,5:SO+yQPO'#E]O2mQPO,5;YOOQO1G/e1G/eO2uQPO,5:TOOQO<<Hd<<HdO3QQPO<<HdO3QQPO<<HdO3lQPO<<HdO3vQPO<<HdO*}QPO7+$VO3}QPO7+$VOOQO-E8]-E8]OOQO1G/x1G/xO4YQPO'#DvOOQO,5:_,5:_OOQO,5:s,5:sOOQO-E8V-E8VOOQO1G/i1G/iO4kQPO1G/iOOQO1G/n1G/nOOQO,5:w,5:wOOQO-E8Z-E8ZO5PQPO'#CwOOQO1G/o1G/oOOQOAN>OAN>OO5[QPOAN>OO5[QPOAN>OO5vQPOAN>OOOQO<<Gq<<GqO*}QPO<<GqOOQO'#Et'#EtO5}QPO'#DxOOQO'#E`'#E`O6VQPO,5:bOOQO,5:b,5:bOOQOG23jG23jO6hQPOG23jO6hQPOG23jOOQOAN=]AN=]OOQO'#Eu'#EuO7SQPO,5:dOOQO-E8^-E8^OOQO1G/|1G/|OOQOLD)ULD)UO7eQPOLD)UO8PQQO'#D{OOQO'#Ev'#EvO8_QQO1G0OOOQO!$'Lp!$'LpOOQO,5:g,5:gO8gQPO,5:gO8lQPO'#D}OOQO7+%j7+%jO8tQQO7+%jOOQO1G0R1G0ROOQO'#EP'#EPO8yQPO'#EOO9OQPO'#EwO9WQPO,5:iOOQO<<IU<<IUO*}QPO,5:jO9]QPO'#EaO9bQPO,5;cOOQO1G0T1G0TOOQO1G0U1G0UOOQO,5:{,5:{OOQO-E8_-E8_",
+  stateData: "9q~O#WOSPOS~OSUOxPO!bVO!uWO!wXO~OfeOlZOn[O!_`O#YYO~OwdO~PkOViOxPO#YhO~OxmO~O#YoO~OVqOxPO~OV!OXZ}Xf!OXl!OXm!OXn!OXw!OXx!OX!Q!OX!_!OX#Y!OX~O|{X~P!rO#YtO~OVqOxPO!QuOfzXlzXnzXwzX!_zX#YzX~OmzO~P#sOZ{O~Ow!OO~PkOV!PO~O|!RO~OY!SOU#ZP~OViOxPO~OSUOw!ZOxPO!e![O~OY!gOfeOi!gOl!dOn!eOo!gOq!hOr!hOs!gOu!fO#Y!^O~OU#]P~P%oOV!jOf!PXl!PXn!PXw!PXx!PX!Q!PX!_!PX#Y!PX~OxPO!QuOfzalzanzawza!_za#Yza~OVqO~P'YOfeOlZOn[O#Y[O~OV!POY!sOd!sOi!sOj!sO#Y!rO~OU!vO~P(ZOfeOlZOn[O#Y!wO~OZ!yO~Od!zOU#ZX~OU!|O~OSUOw#POxPO!e![O~Ox#RO!QuO~Om#TOUkXV`XZcXdkX~OZ#UO~Od#VOU#]X~OU#XO~OVqO~O#Y#ZO~OY!gOfeOi!gOl!dOn!eOo!gOq!hOr!hOs!gOu!fO#Y#[O~Ot#`P~P*}OV#cOl!dOn!eO!T#`O!U#`O#Y#_O~OU#bP~P+yOxPO!QuOfzilzinziwzi!_zi#Yzi~OVqOm#lO~P,fOVqO~P,fOU#nO~P(ZOZ#oO~O#Y#pO~OY!SO~Od!zOU#Za~Ow#wO!h#xO!i#xO~Od#VOU#]a~Om#|OUkadkatka~Om#TOV`XdkXtkXUkX~Od#}Ot#`X~Ot$PO~O|{X~P*OOV#cO!T#`O!U#`O#Y$QO~O!W$SO!X$SO!Y$TO!Z$TOU#cXd#cX~Od$XOU#bX~OU$ZO~O|$[O~OxPO!QuOfzqlzqnzqwzq!_zq#Yzq~OVqO~P0qO]$cO^$bOUXidXi~Ow$eO!h#xO!i#xO~Ox$fO~Od#}Ot#`a~OU$lO!W$SO!X$SO!Y$TO!Z$TO~Od$XOU#ba~Ol!dOn!eO#Y$oO~OxPO!QuOfzylzynzywzy!_zy#Yzy~OVqOm$tO~P3QOVqO~P3QO^$vOUXqdXq~On$wOw${O!m$wO!n$wO#Y$QO~O!W$SO!X$SOU!Vid!Vi!Y!Vi!Z!Vi~Om#TOUkXdkX~OxPO!QuOfz!Rlz!Rnz!Rwz!R!_z!R#Yz!R~OVqO~P5[On%QO!n%QO~On$wOw%TO!m$wO!n$wO#Y$QO~OxPO!QuOfz!Zlz!Znz!Zwz!Z!_z!Z#Yz!Z~On%XOo%WO!m%XO!n%XO#Y$QO~OxPO!QuOfz!clz!cnz!cwz!c!_z!c#Yz!c~Om%[O!p%]OV!oX!k!oX~OV%^O!k%_O~On%aO~O#Y%bOU#kP~O!k%fO~O^%gO~Od%hOU#kX~OU%jO~O#Y%bO~Od%hOU#ka~O!Qmij!m#Y~",
+  goto: "/l#lPPP#mP#uPP#x$OPP$UPP$X$r%V%r%zP&QP&g&jPP&nPPPP'PPPPPP'PPP'Z(l(pP(x)P)[P)v)yPP)yPPPP)y%v(lP*R*XP*]#qP*`*fPP*jP*mPP$oP*q*t*z*XP*XP+O+U+[+b+h+n+t,p,v,|-S-YPPP-`P-d-g-}.Q.W.[._.c.f.l.|/U/Z/_/c/f/iSROTT!Xm!YRlUQkUR!WlQ!TiR#r!zR#q!y`!gq!f#U#V#}$b$v%g[#d!j#a#c$U$V$XS$w$f$zR%X%Rs!cq!f!j#U#V#a#c#}$U$V$X$b$f$v$z%R%gQsXSy]^Q!ozQ#Y!cS#k!p!qQ$_#lS$s$`$aR%O$tS!`q#VT#e!j$XX!_q!j#V$XS^Pc`!gq!f#U#V#}$b$v%gS!q{!RR$a#oQ!QeT!s!P!u`!gq!f#U#V#}$b$v%gS#e!j$XR$p$[a!gq!f#U#V#}$b$v%gWQOTm!YQjUQrXSx]^S!VklQ!]pQ!isU!mwyzQ!}!WW#i!n!o!p!qU$]#j#k#lW$q$^$_$`$aU$|$r$s$tS%U$}%OR%Z%VTaPcSfPcT#h!j$XS_PcR!x!RS]PcS!p{!RR$`#o!Rv]^wyz![!n!o!p!q#Q#j#k#l$^$_$`$a$r$s$t$}%O%VR!ku]#d!j#a#c$U$V$XQpWR|`TROTRnVQ#S![R#t#QT#u#R#vR$g#xT$y$f$zR%`%YQ%d%^R%l%hT%c%^%hQTORgTQ#W!aR#{#WQ!u!PR#m!uQ$O#]R$i$OQ!{!TR#s!{QcPR}cSw]^`!lw!n#Q#j$^$r$}%VS!nyzQ#Q![U#j!o!p!qS$^#k#lU$r$_$`$aS$}$s$tR%V%OQ$Y#fR$n$YQ!YmR#O!YQ#v#RR$d#vQ$z$fR%S$zQ%i%dR%m%iTSOTR!UiS!`q#VQ#]!fQ#y#UQ$h#}Q$u$bQ%P$vR%k%gR!bqQ!aqR#z#VT!t!P!uR#^!fTbPcR#g!jQ#f!jR$m$XS#b!j$XQ$R#aQ$W#cQ$j$UR$k$V]#a!j#a#c$U$V$XV$U#b$W$kT$V#b$WT$x$f$zR%R$xR%Y%RR%e%^",
+  nodeNames: "⚠ Comment Document Query query QueryName ) ( VariableDefinitions VariableDefinition Variable : TypeName ! = FunctionCall FunctionName Arguments NamedArgument ArgumentName , MathCall math MathExpression MathOperand Number ArithOp PredicateRef ~ LangTag IRI String Boolean true false Regex ] [ List } { SelectionSet Field VariableName as Alias FieldName Directive DirectiveName DirectiveArguments NotExpression not not LogicalExpression and and or or ParenthesizedExpression VariableAssignment FragmentSpread ... FragmentName Upsert upsert UpsertBody Mutation mutation MutationBody MutationBlock set delete NQuadBlock . NQuad BlankNode * Literal ^^ Facets Facet FacetName Fragment fragment SchemaQuery schema",
+  maxTerm: 119,
+  nodeProps: [
+    ["openedBy", 6,"(",36,"[",39,"{"],
+    ["closedBy", 7,")",37,"]",40,"}"]
+  ],
+  skippedNodes: [0,1],
+  repeatNodeCount: 12,
+  tokenData: "!%c~RyX^#rpq#rqr$grs&Xst'utu(^uv%avw%axy({yz)Qz{)V{|%a|}*P}!O*U!O!P,b!P!Q,u!Q!R2^!R![+P![!]3^!^!_3c!_!`7W!`!a%a!b!c8Q!c!}!!r!}#O!#W#P#Q!#]#Q#R!#b#R#S!#m#T#o!!r#o#p!%S#p#q%a#q#r!%X#r#s!%^#y#z#r$f$g#r#BY#BZ#r$IS$I_#r$I|$JO#r$JT$JU#r$KV$KW#r&FU&FV#r~#wY#W~X^#rpq#r#y#z#r$f$g#r#BY#BZ#r$IS$I_#r$I|$JO#r$JT$JU#r$KV$KW#r&FU&FV#rR$nZ]PjQqr%auv%avw%az{%a{|%a}!O%a!P!Q%a!^!_%a!_!`%a!`!a%a#p#q%aQ%fZjQqr%auv%avw%az{%a{|%a}!O%a!P!Q%a!^!_%a!_!`%a!`!a%a#p#q%a~&[VOr&Xrs&qs#O&X#O#P&v#P;'S&X;'S;=`'o<%lO&X~&vOo~~&yRO;'S&X;'S;=`'S;=`O&X~'VWOr&Xrs&qs#O&X#O#P&v#P;'S&X;'S;=`'o;=`<%l&X<%lO&X~'rP;=`<%l&X~'zSP~OY'uZ;'S'u;'S;=`(W<%lO'u~(ZP;=`<%l'u~(aR!c!}(j#R#S(j#T#o(j~(oSY~!Q![(j!c!}(j#R#S(j#T#o(j~)QOV~~)VOU~R)^Z!nPjQqr%auv%avw%az{%a{|%a}!O%a!P!Q%a!^!_%a!_!`%a!`!a%a#p#q%a~*UOd~~*Z[jQqr%auv%avw%az{%a{|%a}!O%a!P!Q%a!Q![+P!^!_%a!_!`%a!`!a%a#p#q%a~+USi~!O!P+b!Q![+P!g!h+v#X#Y+v~+eP!Q![+h~+mRi~!Q![+h!g!h+v#X#Y+v~+yR{|,S}!O,S!Q![,Y~,VP!Q![,Y~,_Pi~!Q![,YR,gP!kQ!O!P,jP,mP!O!P,pP,uO!_PR,zhjQOY.fZq.fqr/pru.fuv/pvw/pwz.fz{/p{|/p|}.f}!O/p!O!P.f!P!Q%a!Q!^.f!^!_/p!_!`/p!`!a/p!a#O.f#O#P/Z#P#p.f#p#q/p#q;'S.f;'S;=`/j<%lO.fP.iWOY.fZ!P.f!P!Q/R!Q#O.f#O#P/Z#P;'S.f;'S;=`/j<%lO.fP/WPsP#T#o/RP/^SOY.fZ;'S.f;'S;=`/j<%lO.fP/mP;=`<%l.fR/uhjQOY.fZq.fqr/pru.fuv/pvw/pwz.fz{/p{|/p|}.f}!O/p!O!P.f!P!Q1a!Q!^.f!^!_/p!_!`/p!`!a/p!a#O.f#O#P/Z#P#p.f#p#q/p#q;'S.f;'S;=`/j<%lO.fR1h[sPjQqr%auv%avw%az{%a{|%a}!O%a!P!Q%a!^!_%a!_!`%a!`!a%a#T#o/R#p#q%a~2cTi~!O!P+b!Q![+P!g!h+v#X#Y+v#l#m2r~2uR!Q![3O!c!i3O#T#Z3O~3TRi~!Q![3O!c!i3O#T#Z3O~3cOZ~R3hijQOY5VZp5Vqr3csu5Vuv3cvw3cwz5Vz{3c{|3c|}5V}!O3c!O!P5V!P!Q3c!Q!^5V!^!_%a!_!`3c!`!a6^!a#O5V#P#Q5V#R#S5V#T#o5V#p#q%a#r;'S5V;'S;=`6W<%lO5VP5Y]OY5VZp5Vqr5Vs!^5V!_!`5V!`!a6R!a#O5V#P#Q5V#R#S5V#T#o5V#r;'S5V;'S;=`6W<%lO5VP6WOnPP6ZP;=`<%l5VR6eZnPjQqr%auv%avw%az{%a{|%a}!O%a!P!Q%a!^!_%a!_!`%a!`!a%a#p#q%aR7_Z^PjQqr%auv%avw%az{%a{|%a}!O%a!P!Q%a!^!_%a!_!`%a!`!a%a#p#q%a~8T_z{9S!O!P9S!c!}9X#T#V9X#V#W:e#W#Y9X#Y#Z=r#Z#[B^#[#]9X#]#^E^#^#b9X#b#cJx#c#f9X#f#gNZ#g#o9X~9XOm~~9^Sm~}!O9j![!]:[!c!}9X#T#o9X~9mR!Q![9v!c!}9v#T#o9v~9{Tm~}!O9j!Q![9v![!]:[!c!}9v#T#o9v~:_Q!c!}9X#T#o9X~:jTm~}!O9j![!]:[!c!}9X#T#U:y#U#o9X~;OUm~}!O9j![!]:[!c!}9X#T#g9X#g#h;b#h#o9X~;gUm~}!O9j![!]:[!c!}9X#T#V9X#V#W;y#W#o9X~<OTm~}!O9j![!]:[!c!}9X#T#U<_#U#o9X~<dUm~}!O9j![!]:[!c!}9X#T#W9X#W#X<v#X#o9X~<{Um~}!O9j![!]:[!c!}9X#T#X9X#X#Y=_#Y#o9X~=fS!Q~m~}!O9j![!]:[!c!}9X#T#o9X~=wVm~}!O9j![!]:[!c!}9X#T#U>^#U#]9X#]#^@^#^#o9X~>cUm~}!O9j![!]:[!c!}9X#T#V9X#V#W>u#W#o9X~>zUm~}!O9j![!]:[!c!}9X#T#X9X#X#Y?^#Y#o9X~?cUm~}!O9j![!]:[!c!}9X#T#h9X#h#i?u#i#o9X~?zUm~}!O9j![!]:[!c!}9X#T#g9X#g#h=_#h#o9X~@cUm~}!O9j![!]:[!c!}9X#T#`9X#`#a@u#a#o9X~@zUm~}!O9j![!]:[!c!}9X#T#h9X#h#iA^#i#o9X~AcUm~}!O9j![!]:[!c!}9X#T#X9X#X#YAu#Y#o9X~AzUm~}!O9j![!]:[!c!}9X#T#f9X#f#g=_#g#o9X~BcUm~}!O9j![!]:[!c!}9X#T#f9X#f#gBu#g#o9X~BzUm~}!O9j![!]:[!c!}9X#T#c9X#c#dC^#d#o9X~CcUm~}!O9j![!]:[!c!}9X#T#i9X#i#jCu#j#o9X~CzUm~}!O9j![!]:[!c!}9X#T#d9X#d#eD^#e#o9X~DcUm~}!O9j![!]:[!c!}9X#T#U9X#U#VDu#V#o9X~DzUm~}!O9j![!]:[!c!}9X#T#m9X#m#n=_#n#o9X~EcVm~}!O9j![!]:[!c!}9X#T#Y9X#Y#Z=_#Z#[Ex#[#o9X~E}Um~}!O9j![!]:[!c!}9X#T#b9X#b#cFa#c#o9X~FfUm~}!O9j![!]:[!c!}9X#T#c9X#c#dFx#d#o9X~F}Um~}!O9j![!]:[!c!}9X#T#f9X#f#gGa#g#o9X~GfUm~}!O9j![!]:[!c!}9X#T#X9X#X#YGx#Y#o9X~G}Um~}!O9j![!]:[!c!}9X#T#f9X#f#gHa#g#o9X~HfUm~}!O9j![!]:[!c!}9X#T#X9X#X#YHx#Y#o9X~H}Um~}!O9j![!]:[!c!}9X#T#Y9X#Y#ZIa#Z#o9X~IfUm~}!O9j![!]:[!c!}9X#T#`9X#`#aIx#a#o9X~I}Um~}!O9j![!]:[!c!}9X#T#X9X#X#YJa#Y#o9X~JfUm~}!O9j![!]:[!c!}9X#T#l9X#l#m=_#m#o9X~J}Um~}!O9j![!]:[!c!}9X#T#c9X#c#dKa#d#o9X~KfUm~}!O9j![!]:[!c!}9X#T#f9X#f#gKx#g#o9X~K}Um~}!O9j![!]:[!c!}9X#T#a9X#a#bLa#b#o9X~LfTm~}!O9j![!]:[!c!}9X#T#ULu#U#o9X~LzUm~}!O9j![!]:[!c!}9X#T#`9X#`#aM^#a#o9X~McUm~}!O9j![!]:[!c!}9X#T#]9X#]#^Mu#^#o9X~MzTm~}!O9j![!]:[!c!}9X#T#n9X#n#o<v~N`Um~}!O9j![!]:[!c!}9X#T#X9X#X#YNr#Y#o9X~NwUm~}!O9j![!]:[!c!}9X#T#V9X#V#W! Z#W#o9X~! `Um~}!O9j![!]:[!c!}9X#T#i9X#i#j! r#j#o9X~! wUm~}!O9j![!]:[!c!}9X#T#f9X#f#g!!Z#g#o9X~!!`Um~}!O9j![!]:[!c!}9X#T#g9X#g#h<v#h#o9X~!!wT#Y~!O!P!!r!Q![!!r!c!}!!r#R#S!!r#T#o!!r~!#]Ou~~!#bOt~~!#eP#Q#R!#h~!#mO!p~~!#rU#Y~!O!P!!r!Q![!!r![!]!$U!c!}!!r#R#S!!r#T#o!!r~!$XU}!O!$k!O!P!$k!Q![!$k!c!}!$k#R#S!$k#T#o!$k~!$pU!m~}!O!$k!O!P!$k!Q![!$k!c!}!$k#R#S!$k#T#o!$k~!%XOx~~!%^Ow~~!%cOl~",
+  tokenizers: [0, 1],
+  topRules: {"Document":[0,2]},
+  specialized: [{term: 102, get: (value: keyof typeof spec_identifier) => spec_identifier[value] || -1}],
+  tokenPrec: 1130
+})
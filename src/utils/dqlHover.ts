@@ -0,0 +1,152 @@
+/**
+ * Hover documentation for DQL: predicate schema and function reference
+ */
+
+import { syntaxTree } from '@codemirror/language';
+import { EditorView, hoverTooltip } from '@codemirror/view';
+import { SyntaxNode, Tree } from '@lezer/common';
+import { ParsedSchema, SchemaPredicate, getSchemaPredicate } from './schemaParser';
+import { DQL_FUNCTIONS, DqlFunctionDoc, describeRequiredIndex } from './dqlFunctions';
+import { isVariableArgument } from './dqlSymbols';
+
+export type DqlHoverTarget =
+  | { kind: 'predicate'; from: number; to: number; name: string; predicate: SchemaPredicate | null }
+  | { kind: 'function'; from: number; to: number; doc: DqlFunctionDoc };
+
+// Node types that name a predicate
+const PREDICATE_NODES = ['FieldName', 'PredicateRef'];
+
+const functionTarget = (node: SyntaxNode, name: string): DqlHoverTarget | null => {
+  const doc = DQL_FUNCTIONS[name];
+  return doc ? { kind: 'function', from: node.from, to: node.to, doc } : null;
+};
+
+// IRIs name a predicate in the second position of an N-Quad
+const isNQuadPredicate = (node: SyntaxNode): boolean =>
+  node.name === 'IRI' && node.parent?.name === 'NQuad' && node.prevSibling !== null && node.prevSibling.prevSibling === null;
+
+/**
+ * What the text at pos documents, if anything. Predicates unknown to the
+ * schema are still returned so the tooltip can say so.
+ */
+export function getDqlHoverTarget(tree: Tree, text: string, pos: number, side: -1 | 1 = 1): DqlHoverTarget | null {
+  let node: SyntaxNode | null = tree.resolveInner(pos, side);
+  // Hovering name@en resolves to the language tag
+  if (node.name === 'LangTag' && node.parent?.name === 'PredicateRef') {
+    node = node.parent;
+  }
+
+  if (node.name === 'FunctionName') {
+    return functionTarget(node, text.slice(node.from, node.to));
+  }
+
+  if (PREDICATE_NODES.includes(node.name) || isNQuadPredicate(node)) {
+    // uid(x), val(x) and len(x) name variables, not predicates
+    if (isVariableArgument(node, text)) {
+      return null;
+    }
+    const name = text.slice(node.from, node.to).replace(/@.*$/, '');
+    // count(friends) and val(x) in a selection set parse as fields with arguments
+    if (node.name === 'FieldName' && node.nextSibling?.name === 'Arguments') {
+      return functionTarget(node, name);
+    }
+    const predicateName = name.replace(/^~/, '').replace(/^<(.*)>$/, '$1');
+    return { kind: 'predicate', from: node.from, to: node.to, name: predicateName, predicate: null };
+  }
+
+  return null;
+}
+
+/**
+ * Attach the schema entry to a predicate target. Returns null for
+ * predicates when no schema is loaded.
+ */
+export function resolveDqlHoverTarget(target: DqlHoverTarget | null, schema: ParsedSchema): DqlHoverTarget | null {
+  if (!target || target.kind === 'function') {
+    return target;
+  }
+  if (!schema.predicates?.length || target.name === 'uid') {
+    return null;
+  }
+  return { ...target, predicate: getSchemaPredicate(schema, target.name) };
+}
+
+/**
+ * The lines of a predicate tooltip: type, index and flags, declaring types
+ */
+export function describePredicate(predicate: SchemaPredicate): string[] {
+  const directives = [
+    predicate.tokenizers.length > 0 ? `@index(${predicate.tokenizers.join(', ')})` : '',
+    predicate.reverse ? '@reverse' : '',
+    predicate.count ? '@count' : '',
+    predicate.upsert ? '@upsert' : '',
+    predicate.lang ? '@lang' : '',
+  ].filter(Boolean);
+
+  return [
+    `${predicate.name}: ${predicate.list ? `[${predicate.type}]` : predicate.type}`,
+    directives.length > 0 ? directives.join(' ') : 'Not indexed',
+    predicate.declaredIn.length > 0
+      ? `Declared in ${predicate.declaredIn.join(', ')}`
+      : 'Not declared in any type',
+  ];
+}
+
+const renderTooltip = (target: DqlHoverTarget): HTMLElement => {
+  const dom = document.createElement('div');
+  dom.className = 'cm-dql-hover';
+
+  const addLine = (text: string, className: string) => {
+    const line = document.createElement('div');
+    line.className = className;
+    line.textContent = text;
+    dom.appendChild(line);
+  };
+
+  if (target.kind === 'function') {
+    addLine(target.doc.signature, 'cm-dql-hover-title');
+    addLine(target.doc.description, 'cm-dql-hover-detail');
+    const index = describeRequiredIndex(target.doc);
+    const where = target.doc.rootOnly ? ' at the query root' : '';
+    addLine(index ? `Requires ${index}${where}` : 'No index required', 'cm-dql-hover-detail');
+  } else if (target.predicate) {
+    const [title, ...details] = describePredicate(target.predicate);
+    addLine(title, 'cm-dql-hover-title');
+    details.forEach(detail => addLine(detail, 'cm-dql-hover-detail'));
+  } else {
+    addLine(target.name, 'cm-dql-hover-title');
+    addLine('Not in the schema', 'cm-dql-hover-detail');
+  }
+
+  return dom;
+};
+
+const hoverTheme = EditorView.baseTheme({
+  '.cm-dql-hover': { padding: '4px 8px', maxWidth: '420px', fontSize: '12px' },
+  '.cm-dql-hover-title': { fontFamily: 'monospace', fontWeight: 'bold' },
+  '.cm-dql-hover-detail': { opacity: 0.8 },
+});
+
+/**
+ * Tooltips for predicates and functions under the mouse, from the loaded schema
+ */
+export function dqlHover(schema: ParsedSchema) {
+  return [
+    hoverTooltip((view, pos, side) => {
+      const target = resolveDqlHoverTarget(
+        getDqlHoverTarget(syntaxTree(view.state), view.state.doc.toString(), pos, side),
+        schema
+      );
+      if (!target) {
+        return null;
+      }
+      return {
+        pos: target.from,
+        end: target.to,
+        above: true,
+        create: () => ({ dom: renderTooltip(target) }),
+      };
+    }),
+    hoverTheme,
+  ];
+}
@@ -0,0 +1,164 @@
+/**
+ * Index-aware lint: function calls that Dgraph would reject because the
+ * predicate lacks the index they need
+ */
+
+import { Diagnostic } from '@codemirror/lint';
+import { SyntaxNode, Tree } from '@lezer/common';
+import { ParsedSchema, SchemaPredicate, formatSchemaPredicate, getSchemaPredicate } from './schemaParser';
+import { DQL_FUNCTIONS, describeRequiredIndex, suggestTokenizer } from './dqlFunctions';
+
+// An index to add to a predicate
+export interface IndexFix {
+  predicate: SchemaPredicate;
+  tokenizer: string;
+}
+
+export interface IndexProblem {
+  from: number;
+  to: number;
+  message: string;
+  // null when no index on the predicate's type would serve the function
+  fix: IndexFix | null;
+}
+
+const PUNCTUATION = ['(', ')', ','];
+
+const firstArgument = (call: SyntaxNode): SyntaxNode | null => {
+  let argument = call.getChild('Arguments')?.firstChild ?? null;
+  while (argument && PUNCTUATION.includes(argument.name)) {
+    argument = argument.nextSibling;
+  }
+  return argument;
+};
+
+// func: of a query block, as opposed to a filter
+const isRootFunction = (call: SyntaxNode, text: string): boolean => {
+  const argument = call.parent;
+  const name = argument?.name === 'NamedArgument' ? argument.getChild('ArgumentName') : null;
+  return name !== null && text.slice(name.from, name.to) === 'func';
+};
+
+// Functions in @facets, @if and the like don't look up predicate indexes
+const isInNonFilterDirective = (call: SyntaxNode, text: string): boolean => {
+  for (let node = call.parent; node; node = node.parent) {
+    if (node.name === 'Directive') {
+      const name = node.getChild('DirectiveName');
+      return name === null || text.slice(name.from, name.to) !== '@filter';
+    }
+  }
+  return false;
+};
+
+/**
+ * Function calls whose predicate has no index with a tokenizer the function
+ * can use. Predicates missing from the schema are left alone.
+ */
+export function findIndexProblems(tree: Tree, text: string, schema: ParsedSchema): IndexProblem[] {
+  if (!schema.predicates?.length) {
+    return [];
+  }
+
+  const problems: IndexProblem[] = [];
+  tree.iterate({
+    enter: node => {
+      if (node.name !== 'FunctionCall') return;
+
+      const call = node.node;
+      const functionName = call.getChild('FunctionName');
+      const doc = functionName ? DQL_FUNCTIONS[text.slice(functionName.from, functionName.to)] : undefined;
+      if (!doc?.tokenizers || (doc.rootOnly && !isRootFunction(call, text)) || isInNonFilterDirective(call, text)) {
+        return;
+      }
+
+      const argument = firstArgument(call);
+      if (argument?.name !== 'PredicateRef') return;
+      const name = text.slice(argument.from, argument.to).replace(/@.*$/, '');
+      if (name.startsWith('~')) return;
+
+      const predicate = getSchemaPredicate(schema, name);
+      if (!predicate || predicate.tokenizers.some(tokenizer => doc.tokenizers!.includes(tokenizer))) {
+        return;
+      }
+
+      const indexed = predicate.tokenizers.length > 0
+        ? `is indexed with ${predicate.tokenizers.join(', ')}`
+        : 'is not indexed';
+      const tokenizer = suggestTokenizer(doc, predicate.type);
+      problems.push({
+        from: argument.from,
+        to: argument.to,
+        message: `${doc.name} needs ${describeRequiredIndex(doc)} on ${predicate.name}, which ${indexed}`,
+        fix: tokenizer ? { predicate, tokenizer } : null,
+      });
+    },
+  });
+  return problems;
+}
+
+/**
+ * Editor diagnostics for index problems, with a quick fix when onAddIndex is
+ * given and an index would help
+ */
+export function getIndexDiagnostics(problems: IndexProblem[], onAddIndex?: (fix: IndexFix) => void): Diagnostic[] {
+  return problems.map(({ from, to, message, fix }) => ({
+    from,
+    to,
+    severity: 'warning',
+    source: 'index',
+    message,
+    actions: onAddIndex && fix
+      ? [{ name: `Add @index(${fix.tokenizer})`, apply: () => onAddIndex(fix) }]
+      : undefined,
+  }));
+}
+
+// Split "exact, hnsw(metric: "cosine")" at top-level commas
+const splitTokenizers = (list: string): string[] => {
+  const tokenizers: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of list) {
+    if (char === ',' && depth === 0) {
+      tokenizers.push(current.trim());
+      current = '';
+      continue;
+    }
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    current += char;
+  }
+  tokenizers.push(current.trim());
+  return tokenizers.filter(Boolean);
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Add a tokenizer to the predicate's line of a schema text, or append a
+ * line for the predicate when it has none
+ */
+export function addIndexToSchema(schemaText: string, fix: IndexFix): string {
+  const { predicate, tokenizer } = fix;
+  const lines = schemaText.split('\n');
+  const definition = new RegExp(`^(\\s*<?${escapeRegExp(predicate.name)}>?\\s*:\\s*(?:\\[\\s*\\w+\\s*\\]|\\w+))(.*)$`);
+  const index = lines.findIndex(line => definition.test(line));
+
+  if (index === -1) {
+    const line = formatSchemaPredicate({ ...predicate, tokenizers: [...predicate.tokenizers, tokenizer] });
+    return schemaText.trim() ? `${schemaText.trimEnd()}\n${line}` : line;
+  }
+
+  const [, head, rest] = definition.exec(lines[index])!;
+  const existing = /@index\(((?:[^()]|\([^()]*\))*)\)/.exec(rest);
+  if (!existing) {
+    lines[index] = `${head} @index(${tokenizer})${rest}`;
+  } else {
+    const tokenizers = splitTokenizers(existing[1]);
+    if (tokenizers.some(entry => entry.split('(')[0] === tokenizer)) {
+      return schemaText;
+    }
+    lines[index] = head + rest.replace(existing[0], `@index(${[...tokenizers, tokenizer].join(', ')})`);
+  }
+  return lines.join('\n');
+}
@@ -1,38 +1,107 @@
 import { CompletionContext, CompletionResult, autocompletion } from '@codemirror/autocomplete';
-import { LanguageSupport, LRLanguage, syntaxHighlighting, HighlightStyle } from '@codemirror/language';
+import {
+  LanguageSupport,
+  LRLanguage,
+  syntaxHighlighting,
+  HighlightStyle,
+  foldNodeProp,
+  foldInside,
+  indentNodeProp,
+  delimitedIndent,
+} from '@codemirror/language';
 import { styleTags, tags as t } from '@lezer/highlight';
-import { sql } from '@codemirror/lang-sql';
+import { parser } from './dqlGrammar';
 import { ParsedSchema } from './schemaParser';
+import { parseDql, getDqlCompletionContext } from './dqlParser';
 
-// Extend SQL parser with DQL-specific syntax highlighting
+// Highlighting for the node types of the DQL grammar
 const dqlHighlighting = syntaxHighlighting(HighlightStyle.define([
   { tag: t.keyword, color: '#5a67d8' },
-  { tag: t.operator, color: '#6b7280' },
+  { tag: [t.definitionKeyword, t.logicOperator], color: '#5a67d8', fontWeight: 'bold' },
+  { tag: [t.operator, t.arithmeticOperator], color: '#6b7280' },
   { tag: t.special(t.variableName), color: '#047857' },
+  { tag: t.definition(t.variableName), color: '#c2410c' },
   { tag: t.propertyName, color: '#047857' },
+  { tag: t.labelName, color: '#0369a1', fontStyle: 'italic' },
+  { tag: t.attributeName, color: '#7c3aed' },
+  { tag: t.annotation, color: '#7c3aed' },
   { tag: t.typeName, color: '#c026d3' },
+  { tag: t.definition(t.name), color: '#1d4ed8' },
   { tag: t.number, color: '#0369a1' },
+  { tag: t.bool, color: '#0369a1' },
   { tag: t.string, color: '#b91c1c' },
+  { tag: t.regexp, color: '#be185d' },
+  { tag: t.url, color: '#047857' },
   { tag: t.comment, color: '#9ca3af', fontStyle: 'italic' },
   { tag: t.function(t.variableName), color: '#0284c7' },
   { tag: t.modifier, color: '#c026d3' }
 ]));
 
-// DQL keywords for syntax highlighting
-const dqlKeywords = [
-  'func', 'has', 'uid', 'eq', 'lt', 'le', 'gt', 'ge', 'allof', 'anyof',
-  'allofterms', 'anyofterms', 'regexp', 'near', 'within', 'contains',
-  'intersects', 'uid_in', 'type', 'first', 'offset', 'after', 'orderasc',
-  'orderdesc', 'count', 'sum', 'avg', 'min', 'max', 'filter', 'facets',
-  'cascade', 'normalize', 'groupby', 'ignorereflex', 'recurse', 'lambda',
-  'query', 'mutation', 'schema', 'fragment'
-];
+/**
+ * DQL language built on the Lezer grammar in dql.grammar. The syntax tree
+ * drives highlighting, bracket matching, folding by block, indentation and
+ * structural selection.
+ */
+export const dqlLanguage = LRLanguage.define({
+  name: 'dql',
+  parser: parser.configure({
+    props: [
+      styleTags({
+        'query upsert mutation fragment schema set delete math': t.keyword,
+        as: t.definitionKeyword,
+        'and or not': t.logicOperator,
+        'QueryName FragmentName': t.definition(t.name),
+        TypeName: t.typeName,
+        Variable: t.special(t.variableName),
+        VariableName: t.definition(t.variableName),
+        Alias: t.labelName,
+        'FieldName PredicateRef MathOperand FacetName': t.propertyName,
+        ArgumentName: t.attributeName,
+        FunctionName: t.function(t.variableName),
+        DirectiveName: t.modifier,
+        LangTag: t.annotation,
+        BlankNode: t.labelName,
+        IRI: t.url,
+        String: t.string,
+        Number: t.number,
+        Boolean: t.bool,
+        Regex: t.regexp,
+        Comment: t.lineComment,
+        ArithOp: t.arithmeticOperator,
+        '= ^^ ~ "*"': t.operator,
+        '( )': t.paren,
+        '[ ]': t.squareBracket,
+        '{ }': t.brace,
+        ', : . "..."': t.punctuation,
+      }),
+      foldNodeProp.add({
+        'SelectionSet UpsertBody MutationBody NQuadBlock': foldInside,
+      }),
+      indentNodeProp.add({
+        'SelectionSet UpsertBody MutationBody NQuadBlock': delimitedIndent({ closing: '}' }),
+        'Arguments DirectiveArguments VariableDefinitions Facets MathExpression': delimitedIndent({ closing: ')', align: false }),
+        List: delimitedIndent({ closing: ']', align: false }),
+      }),
+    ],
+  }),
+  languageData: {
+    commentTokens: { line: '#' },
+    closeBrackets: { brackets: ['(', '[', '{', '"'] },
+  },
+});
+
+/**
+ * DQL syntax support without completions, for editors that bring their own
+ */
+export function dqlSyntax(): LanguageSupport {
+  return new LanguageSupport(dqlLanguage, [dqlHighlighting]);
+}
 
 // Create a function to generate completions based on schema
 function createDqlCompletions(schema: ParsedSchema) {
   return (context: CompletionContext): CompletionResult | null => {
     // Don't autocomplete in comments or strings
-    if (context.tokenBefore(['LineComment', 'BlockComment', 'String'])) {
+    if (context.tokenBefore(['Comment', 'String'])) {
       return null;
     }
     
@@ -40,15 +109,13 @@ function createDqlCompletions(schema: ParsedSchema) {
     const word = context.matchBefore(/\w*/);
     if (!word) return null;
     
-        // Simple context detection
+    const parsedContext = getDqlCompletionContext(context.state.doc.toString(), context.pos);
+    if (parsedContext === 'none') return null;
+
     const beforeCursor = context.state.doc.toString().substring(0, context.pos);
-    let cursorContext: 'function' | 'predicate' | 'directive' | 'type' = 'predicate';
+    let cursorContext: 'function' | 'predicate' | 'directive' | 'type' = parsedContext;
 
-    if (beforeCursor.match(/@[\w]*$/)) {
-      cursorContext = 'directive';
-    } else if (beforeCursor.match(/:\s*[\w]*$/)) {
-      cursorContext = 'function';
-    } else if (beforeCursor.match(/type\s+[\w]*$/)) {
+    if (parsedContext === 'predicate' && beforeCursor.match(/type\s+[\w]*$/)) {
       cursorContext = 'type';
     }
 
@@ -91,15 +158,9 @@ function createDqlCompletions(schema: ParsedSchema) {
 
 // Create DQL language support with schema-aware autocomplete
 export function dql(schema: ParsedSchema = { types: [] }) {
-  // Instead of returning a LanguageSupport object, return an array of extensions
-  // that can be directly passed to CodeMirror
   return [
-    // Use SQL extension as base
-    sql(),
-    // Add autocompletion
+    dqlSyntax(),
     autocompletion({ override: [createDqlCompletions(schema)] }),
-    // Add syntax highlighting
-    dqlHighlighting
   ];
 }
 
@@ -304,34 +365,8 @@ export function validateDQLSyntax(input: string): DQLValidationResult {
     return { isValid: false, errors };
   }
   
-  // Check for balanced braces
-  const braceStack: string[] = [];
-  const bracePairs: { [key: string]: string } = {
-    '{': '}',
-    '(': ')',
-    '[': ']'
-  };
-  
-  for (let i = 0; i < input.length; i++) {
-    const char = input[i];
-    
-    if (bracePairs[char]) {
-      braceStack.push(char);
-    } else if (Object.values(bracePairs).includes(char)) {
-      const expectedOpen = Object.keys(bracePairs).find(key => bracePairs[key] === char);
-      if (braceStack.length === 0 || braceStack.pop() !== expectedOpen) {
-        errors.push(`Mismatched brace: unexpected '${char}'`);
-      }
-    }
-  }
-  
-  // Check for unclosed braces
-  if (braceStack.length > 0) {
-    braceStack.forEach(openBrace => {
-      const closeBrace = bracePairs[openBrace];
-      errors.push(`Missing closing brace '${closeBrace}' for '${openBrace}'`);
-    });
-  }
+  // Brackets inside strings and comments don't count
+  parseDql(input).errors.forEach(error => errors.push(error.message));
   
   // Check for basic DQL structure - but be more lenient
   if (!input.includes('{') && !input.includes('}')) {
@@ -0,0 +1,658 @@
+/**
+ * Lexer and parser for DQL queries.
+ *
+ * The parser is deliberately tolerant: it always returns a document, records
+ * what it couldn't make sense of in `errors`, and keeps source offsets on
+ * every node so callers can rewrite the original text in place.
+ */
+
+export type DqlTokenType = 'name' | 'variable' | 'string' | 'number' | 'regex' | 'iri' | 'punct' | 'comment';
+
+export interface DqlToken {
+  type: DqlTokenType;
+  value: string;
+  start: number;
+  end: number;
+}
+
+export interface DqlSyntaxError {
+  message: string;
+  from: number;
+  to: number;
+}
+
+export interface DqlArguments {
+  // Offsets of the opening and closing parenthesis
+  start: number;
+  end: number;
+  // Text between the parentheses
+  raw: string;
+}
+
+export interface DqlDirective {
+  name: string;
+  args?: DqlArguments;
+  start: number;
+  end: number;
+}
+
+export interface DqlSelection {
+  fields: DqlField[];
+  // Offsets of the opening and closing brace (close is -1 when missing)
+  open: number;
+  close: number;
+}
+
+export type DqlFieldKind =
+  | 'predicate'
+  | 'uid'
+  // count(predicate)
+  | 'count'
+  // count(uid), min/max/sum/avg(val(x))
+  | 'aggregate'
+  | 'value'
+  | 'math'
+  | 'expand';
+
+export interface DqlField {
+  kind: DqlFieldKind;
+  name: string;
+  alias?: string;
+  // Variable defined by this field (x as predicate)
+  varName?: string;
+  languages?: string;
+  args?: DqlArguments;
+  directives: DqlDirective[];
+  selection?: DqlSelection;
+  start: number;
+  end: number;
+}
+
+export interface DqlBlock {
+  name: string;
+  // Variable defined by the block (x as q(func: ...))
+  varName?: string;
+  isVar: boolean;
+  // Root function name, e.g. "has" for q(func: has(name))
+  func?: string;
+  args?: DqlArguments;
+  directives: DqlDirective[];
+  selection?: DqlSelection;
+  start: number;
+  end: number;
+}
+
+export interface DqlVariableDefinition {
+  name: string;
+  type: string;
+  defaultValue?: string;
+  start: number;
+  end: number;
+}
+
+export interface DqlDocument {
+  operation?: {
+    name?: string;
+    variables: DqlVariableDefinition[];
+  };
+  blocks: DqlBlock[];
+  // schema {} and schema(pred: [...]) { ... } queries
+  isSchemaQuery: boolean;
+  errors: DqlSyntaxError[];
+}
+
+// Directives that may directly follow a predicate, as opposed to language tags (name@en)
+export const DIRECTIVE_NAMES = ['filter', 'facets', 'cascade', 'normalize', 'groupby', 'recurse', 'ignorereflex', 'if'];
+
+// Fields that aggregate over the whole result set
+const AGGREGATE_FUNCTIONS = ['min', 'max', 'sum', 'avg'];
+
+const NAME_START = /[\p{L}_~]/u;
+const NAME_PART = /[\p{L}\p{N}_.~]/u;
+const BRACKET_PAIRS: Record<string, string> = { '{': '}', '(': ')', '[': ']' };
+
+/**
+ * Split DQL text into tokens. Strings, regex literals and comments are single
+ * tokens, so braces inside them never affect the structure.
+ */
+export function tokenizeDql(text: string): { tokens: DqlToken[]; errors: DqlSyntaxError[] } {
+  const tokens: DqlToken[] = [];
+  const errors: DqlSyntaxError[] = [];
+  let pos = 0;
+
+  const lastSignificant = () => {
+    for (let i = tokens.length - 1; i >= 0; i--) {
+      if (tokens[i].type !== 'comment') return tokens[i];
+    }
+    return undefined;
+  };
+
+  while (pos < text.length) {
+    const char = text[pos];
+    const start = pos;
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    if (char === '#') {
+      while (pos < text.length && text[pos] !== '\n') pos++;
+      tokens.push({ type: 'comment', value: text.substring(start, pos), start, end: pos });
+      continue;
+    }
+
+    if (char === '"') {
+      pos++;
+      while (pos < text.length && text[pos] !== '"' && text[pos] !== '\n') {
+        if (text[pos] === '\\') pos++;
+        pos++;
+      }
+      if (text[pos] === '"') {
+        pos++;
+      } else {
+        errors.push({ message: 'Unterminated string', from: start, to: pos });
+      }
+      tokens.push({ type: 'string', value: text.substring(start, pos), start, end: pos });
+      continue;
+    }
+
+    // Regex literals only appear as function arguments: regexp(name, /^Ste/i)
+    const previous = lastSignificant();
+    if (char === '/' && previous && (previous.value === ',' || previous.value === '(')) {
+      pos++;
+      while (pos < text.length && text[pos] !== '/' && text[pos] !== '\n') {
+        if (text[pos] === '\\') pos++;
+        pos++;
+      }
+      if (text[pos] === '/') {
+        pos++;
+        while (pos < text.length && /[a-z]/i.test(text[pos])) pos++;
+      } else {
+        errors.push({ message: 'Unterminated regular expression', from: start, to: pos });
+      }
+      tokens.push({ type: 'regex', value: text.substring(start, pos), start, end: pos });
+      continue;
+    }
+
+    if (char === '<') {
+      const iri = /^<[^\s<>"{}]+>/.exec(text.substring(pos));
+      if (iri) {
+        pos += iri[0].length;
+        tokens.push({ type: 'iri', value: iri[0], start, end: pos });
+        continue;
+      }
+    }
+
+    if (char === '$') {
+      pos++;
+      while (pos < text.length && /\w/.test(text[pos])) pos++;
+      tokens.push({ type: 'variable', value: text.substring(start, pos), start, end: pos });
+      continue;
+    }
+
+    if (/\d/.test(char)) {
+      const number = /^\d+(\.\d+)?([eE][+-]?\d+)?/.exec(text.substring(pos));
+      pos += number ? number[0].length : 1;
+      tokens.push({ type: 'number', value: text.substring(start, pos), start, end: pos });
+      continue;
+    }
+
+    if (NAME_START.test(char)) {
+      pos++;
+      while (pos < text.length && NAME_PART.test(text[pos])) pos++;
+      tokens.push({ type: 'name', value: text.substring(start, pos), start, end: pos });
+      continue;
+    }
+
+    pos++;
+    tokens.push({ type: 'punct', value: char, start, end: pos });
+  }
+
+  return { tokens, errors };
+}
+
+/**
+ * Report mismatched or unclosed brackets, ignoring strings and comments
+ */
+function checkBrackets(tokens: DqlToken[]): DqlSyntaxError[] {
+  const errors: DqlSyntaxError[] = [];
+  const stack: DqlToken[] = [];
+  const closers = Object.values(BRACKET_PAIRS);
+
+  tokens.forEach(token => {
+    if (token.type !== 'punct') return;
+
+    if (BRACKET_PAIRS[token.value]) {
+      stack.push(token);
+    } else if (closers.includes(token.value)) {
+      const open = stack.pop();
+      if (!open || BRACKET_PAIRS[open.value] !== token.value) {
+        errors.push({ message: `Mismatched brace: unexpected '${token.value}'`, from: token.start, to: token.end });
+      }
+    }
+  });
+
+  stack.forEach(open => {
+    errors.push({
+      message: `Missing closing brace '${BRACKET_PAIRS[open.value]}' for '${open.value}'`,
+      from: open.start,
+      to: open.end,
+    });
+  });
+
+  return errors;
+}
+
+class DqlParser {
+  private tokens: DqlToken[];
+  private text: string;
+  private pos = 0;
+  errors: DqlSyntaxError[] = [];
+
+  constructor(text: string, tokens: DqlToken[]) {
+    this.text = text;
+    this.tokens = tokens.filter(token => token.type !== 'comment');
+  }
+
+  private peek(offset = 0): DqlToken | undefined {
+    return this.tokens[this.pos + offset];
+  }
+
+  private next(): DqlToken | undefined {
+    return this.tokens[this.pos++];
+  }
+
+  private is(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return !!token && token.type === 'punct' && token.value === value;
+  }
+
+  private isName(offset = 0, value?: string): boolean {
+    const token = this.peek(offset);
+    return !!token && (token.type === 'name' || token.type === 'iri') && (value === undefined || token.value === value);
+  }
+
+  private lastEnd(): number {
+    return this.tokens[this.pos - 1]?.end ?? 0;
+  }
+
+  private unexpected(token: DqlToken) {
+    // Stray closing brackets are already reported by checkBrackets
+    if (token.type === 'punct' && [')', ']', '}'].includes(token.value)) return;
+    this.errors.push({ message: `Unexpected '${token.value}'`, from: token.start, to: token.end });
+  }
+
+  parseDocument(): DqlDocument {
+    const document: DqlDocument = { blocks: [], isSchemaQuery: false, errors: this.errors };
+
+    while (this.peek()) {
+      if (this.isName(0, 'schema')) {
+        // Schema queries have their own grammar and are never rewritten
+        document.isSchemaQuery = true;
+        this.pos = this.tokens.length;
+        break;
+      }
+
+      if (this.isName(0, 'query')) {
+        this.next();
+        const operation: NonNullable<DqlDocument['operation']> = { variables: [] };
+        if (this.isName()) {
+          operation.name = this.next()!.value;
+        }
+        if (this.is('(')) {
+          operation.variables = this.parseVariableDefinitions();
+        }
+        document.operation = operation;
+        continue;
+      }
+
+      if (this.is('{')) {
+        this.next();
+        while (this.peek() && !this.is('}')) {
+          const block = this.parseBlock();
+          if (block) document.blocks.push(block);
+        }
+        this.next();
+        continue;
+      }
+
+      this.unexpected(this.next()!);
+    }
+
+    return document;
+  }
+
+  private parseVariableDefinitions(): DqlVariableDefinition[] {
+    const variables: DqlVariableDefinition[] = [];
+    this.next(); // (
+
+    while (this.peek() && !this.is(')')) {
+      const token = this.peek()!;
+      if (token.type !== 'variable') {
+        if (!this.is(',')) this.unexpected(token);
+        this.next();
+        continue;
+      }
+
+      this.next();
+      const variable: DqlVariableDefinition = { name: token.value, type: '', start: token.start, end: token.end };
+      if (this.is(':')) {
+        this.next();
+        const typeStart = this.peek()?.start ?? token.end;
+        while (this.peek() && !this.is('=') && !this.is(',') && !this.is(')')) this.next();
+        variable.type = this.text.substring(typeStart, this.lastEnd()).trim();
+      }
+      if (this.is('=')) {
+        this.next();
+        const valueStart = this.peek()?.start ?? token.end;
+        while (this.peek() && !this.is(',') && !this.is(')')) this.next();
+        variable.defaultValue = this.text.substring(valueStart, this.lastEnd()).trim();
+      }
+      variable.end = this.lastEnd();
+      variables.push(variable);
+    }
+
+    this.next(); // )
+    return variables;
+  }
+
+  /**
+   * Skip a balanced parenthesised group starting at the current '('
+   */
+  private parseArguments(): DqlArguments {
+    const open = this.next()!;
+    let depth = 1;
+    while (this.peek() && depth > 0) {
+      const token = this.next()!;
+      if (token.type === 'punct' && token.value === '(') depth++;
+      if (token.type === 'punct' && token.value === ')') depth--;
+    }
+    const closeEnd = this.lastEnd();
+    const end = depth === 0 ? closeEnd - 1 : closeEnd;
+    return { start: open.start, end, raw: this.text.substring(open.end, end) };
+  }
+
+  private parseDirectives(): DqlDirective[] {
+    const directives: DqlDirective[] = [];
+    while (this.is('@') && this.isName(1)) {
+      const at = this.next()!;
+      const name = this.next()!.value;
+      const directive: DqlDirective = { name, start: at.start, end: this.lastEnd() };
+      if (this.is('(')) {
+        directive.args = this.parseArguments();
+        directive.end = this.lastEnd();
+      }
+      directives.push(directive);
+    }
+    return directives;
+  }
+
+  private parseSelection(): DqlSelection {
+    const open = this.next()!;
+    const selection: DqlSelection = { fields: [], open: open.start, close: -1 };
+
+    while (this.peek() && !this.is('}')) {
+      const field = this.parseField();
+      if (field) selection.fields.push(field);
+    }
+
+    if (this.is('}')) {
+      selection.close = this.next()!.start;
+    }
+    return selection;
+  }
+
+  private parseBlock(): DqlBlock | null {
+    const start = this.peek()!;
+    let varName: string | undefined;
+
+    if (this.isName() && this.isName(1, 'as')) {
+      varName = this.next()!.value;
+      this.next();
+    }
+
+    if (!this.isName()) {
+      this.unexpected(this.next()!);
+      return null;
+    }
+
+    const name = this.next()!.value;
+    const block: DqlBlock = {
+      name,
+      varName,
+      isVar: name === 'var',
+      directives: [],
+      start: start.start,
+      end: this.lastEnd(),
+    };
+
+    if (this.is('(')) {
+      block.args = this.parseArguments();
+      const func = /\bfunc\s*:\s*([\w.~]+)/.exec(block.args.raw);
+      block.func = func?.[1];
+    }
+    block.directives = this.parseDirectives();
+    if (this.is('{')) {
+      block.selection = this.parseSelection();
+    }
+
+    block.end = this.lastEnd();
+    return block;
+  }
+
+  private parseField(): DqlField | null {
+    const start = this.peek()!;
+    let alias: string | undefined;
+    let varName: string | undefined;
+
+    if (this.isName() && this.is(':', 1)) {
+      alias = this.next()!.value;
+      this.next();
+    }
+    if (this.isName() && this.isName(1, 'as')) {
+      varName = this.next()!.value;
+      this.next();
+    }
+
+    if (!this.isName()) {
+      this.unexpected(this.next()!);
+      return null;
+    }
+
+    const nameToken = this.next()!;
+    const field: DqlField = {
+      kind: 'predicate',
+      name: nameToken.value,
+      alias,
+      varName,
+      directives: [],
+      start: start.start,
+      end: nameToken.end,
+    };
+
+    // Language tags are written without whitespace: name@en, name@en:fr, name@.
+    const tag = this.peek(1);
+    if (
+      this.is('@') && this.peek()!.start === nameToken.end &&
+      !(tag?.type === 'name' && DIRECTIVE_NAMES.includes(tag.value))
+    ) {
+      const at = this.next()!;
+      while (this.peek() && this.peek()!.start === this.lastEnd() && !this.is('(') && !this.is('{') && !this.is('@')) {
+        this.next();
+      }
+      field.languages = this.text.substring(at.end, this.lastEnd());
+    }
+
+    if (this.is('(')) {
+      field.args = this.parseArguments();
+    }
+
+    field.kind = this.getFieldKind(field);
+    field.directives = this.parseDirectives();
+    if (this.is('{')) {
+      field.selection = this.parseSelection();
+    }
+
+    field.end = this.lastEnd();
+    return field;
+  }
+
+  private getFieldKind(field: DqlField): DqlFieldKind {
+    const name = field.name.toLowerCase();
+
+    if (!field.args) {
+      return name === 'uid' ? 'uid' : 'predicate';
+    }
+
+    const argument = field.args.raw.trim();
+    if (name === 'count') return argument === 'uid' ? 'aggregate' : 'count';
+    if (AGGREGATE_FUNCTIONS.includes(name)) return 'aggregate';
+    if (name === 'val') return 'value';
+    if (name === 'math') return 'math';
+    if (name === 'expand') return 'expand';
+    // Predicate with pagination/ordering arguments: friend(first: 10)
+    return 'predicate';
+  }
+}
+
+/**
+ * Parse a DQL query into a document with source offsets
+ */
+export function parseDql(text: string): DqlDocument {
+  const { tokens, errors } = tokenizeDql(text);
+  const parser = new DqlParser(text, tokens);
+  const document = parser.parseDocument();
+  document.errors = [...errors, ...checkBrackets(tokens), ...parser.errors]
+    .sort((a, b) => a.from - b.from);
+  return document;
+}
+
+const hasDirective = (node: { directives: DqlDirective[] }, name: string) =>
+  node.directives.some(directive => directive.name === name);
+
+/**
+ * Whether uid and dgraph.type can be added to a selection without changing
+ * its meaning: aggregation sets (count(uid), min(val(x)) ...) and sets of
+ * only computed values (val/math) are left alone.
+ */
+function canEnhanceSelection(selection: DqlSelection): boolean {
+  if (selection.fields.length === 0 || selection.close === -1) {
+    return false;
+  }
+  if (selection.fields.some(field => field.kind === 'aggregate')) {
+    return false;
+  }
+  return selection.fields.some(field => field.kind !== 'value' && field.kind !== 'math');
+}
+
+/**
+ * Add uid and dgraph.type to every result selection so nodes can be
+ * identified and coloured in the graph view. var blocks, @groupby blocks,
+ * aggregation and math-only selections are skipped, as are schema queries
+ * and queries that don't parse. Fields are inserted right after the opening
+ * brace so line numbers in server errors still match the original text.
+ */
+export function addUidAndType(query: string): string {
+  const document = parseDql(query);
+  if (document.isSchemaQuery || document.errors.length > 0) {
+    return query;
+  }
+
+  const inserts: { pos: number; text: string }[] = [];
+
+  const visit = (selection: DqlSelection | undefined) => {
+    if (!selection) return;
+
+    if (canEnhanceSelection(selection)) {
+      const missing: string[] = [];
+      if (!selection.fields.some(field => field.kind === 'uid')) {
+        missing.push('uid');
+      }
+      if (!selection.fields.some(field => field.name === 'dgraph.type')) {
+        missing.push('dgraph.type');
+      }
+      if (missing.length > 0) {
+        inserts.push({ pos: selection.open + 1, text: ` ${missing.join(' ')}` });
+      }
+    }
+
+    selection.fields.forEach(field => {
+      if (field.selection && !hasDirective(field, 'groupby')) {
+        visit(field.selection);
+      }
+    });
+  };
+
+  document.blocks.forEach(block => {
+    if (!block.isVar && !hasDirective(block, 'groupby')) {
+      visit(block.selection);
+    }
+  });
+
+  return inserts
+    .sort((a, b) => b.pos - a.pos)
+    .reduce((text, insert) => text.substring(0, insert.pos) + insert.text + text.substring(insert.pos), query);
+}
+
+export type DqlCompletionContext = 'predicate' | 'function' | 'directive' | 'none';
+
+// Filter connectives after which another function call is expected
+const FILTER_CONNECTIVES = ['and', 'or', 'not'];
+
+/**
+ * Work out what kind of completion fits at a cursor position
+ */
+export function getDqlCompletionContext(text: string, pos: number): DqlCompletionContext {
+  const { tokens } = tokenizeDql(text.substring(0, pos));
+  const last = tokens[tokens.length - 1];
+
+  // Inside a comment or an unterminated string
+  if (last && last.end === pos) {
+    if (last.type === 'comment') return 'none';
+    if (last.type === 'string' && (last.value.length === 1 || !last.value.endsWith('"'))) return 'none';
+  }
+
+  // Ignore the word being typed
+  const significant = tokens.filter(token => token.type !== 'comment');
+  if (significant.length > 0 && significant[significant.length - 1].type === 'name' && significant[significant.length - 1].end === pos) {
+    significant.pop();
+  }
+
+  const previous = significant[significant.length - 1];
+  if (previous?.type === 'punct' && previous.value === '@') {
+    return 'directive';
+  }
+
+  // Find the innermost open parenthesis and what it belongs to
+  const parens: { opener?: DqlToken; directive: boolean }[] = [];
+  significant.forEach((token, index) => {
+    if (token.type !== 'punct') return;
+    if (token.value === '(') {
+      const opener = significant[index - 1];
+      const directive = significant[index - 2]?.value === '@';
+      parens.push({ opener, directive });
+    } else if (token.value === ')') {
+      parens.pop();
+    }
+  });
+
+  const paren = parens[parens.length - 1];
+  if (!paren) {
+    return 'predicate';
+  }
+
+  if (previous?.value === ':' && significant[significant.length - 2]?.value === 'func') {
+    return 'function';
+  }
+
+  // @filter( ... ), and nested groups/connectives inside it
+  const opener = paren.opener?.value.toLowerCase();
+  const filterLevel = paren.directive || opener === '(' || FILTER_CONNECTIVES.includes(opener || '');
+  const expectsCall = previous?.value === '(' || FILTER_CONNECTIVES.includes(previous?.value.toLowerCase() || '');
+  if (filterLevel && expectsCall) {
+    return 'function';
+  }
+
+  return 'predicate';
+}
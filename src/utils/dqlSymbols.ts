@@ -0,0 +1,228 @@
+/**
+ * DQL variables and $params: where each is defined and used, with
+ * go-to-definition, usage highlighting and rename for the editor
+ */
+
+import { syntaxTree } from '@codemirror/language';
+import { Diagnostic } from '@codemirror/lint';
+import { EditorState, Range } from '@codemirror/state';
+import { Command, Decoration, DecorationSet, EditorView, ViewPlugin, ViewUpdate, keymap } from '@codemirror/view';
+import { SyntaxNode, Tree } from '@lezer/common';
+
+export interface DqlSymbolRange {
+  from: number;
+  to: number;
+}
+
+// Query and value variables ("friends as ...") share one namespace across
+// the request; $params come from the query's variable definitions
+export interface DqlSymbol {
+  kind: 'variable' | 'parameter';
+  name: string;
+  definitions: DqlSymbolRange[];
+  usages: DqlSymbolRange[];
+}
+
+// Functions whose arguments name variables rather than predicates
+const VARIABLE_FUNCTIONS = ['uid', 'val', 'len'];
+
+/**
+ * Whether node names a variable: the argument of uid(x), val(x) and len(x)
+ * as functions, or of val(x) as a field
+ */
+export const isVariableArgument = (node: SyntaxNode, text: string): boolean => {
+  const callee = node.parent?.name === 'Arguments' ? node.parent.prevSibling : null;
+  return callee !== null
+    && (callee.name === 'FunctionName' || callee.name === 'FieldName')
+    && VARIABLE_FUNCTIONS.includes(text.slice(callee.from, callee.to));
+};
+
+// Operands of math(), except the names of math functions such as exp(x)
+const isMathVariable = (node: SyntaxNode): boolean => node.nextSibling?.name !== 'MathExpression';
+
+/**
+ * Every variable and $param of a DQL document, in order of first appearance
+ */
+export function findDqlSymbols(tree: Tree, text: string): DqlSymbol[] {
+  const symbols = new Map<string, DqlSymbol>();
+  const add = (kind: DqlSymbol['kind'], name: string, range: DqlSymbolRange, definition: boolean) => {
+    const key = `${kind}:${name}`;
+    if (!symbols.has(key)) {
+      symbols.set(key, { kind, name, definitions: [], usages: [] });
+    }
+    const symbol = symbols.get(key)!;
+    (definition ? symbol.definitions : symbol.usages).push(range);
+  };
+
+  tree.iterate({
+    enter: ({ name, from, to, node }) => {
+      const range = { from, to };
+      if (name === 'VariableName') {
+        add('variable', text.slice(from, to), range, true);
+      } else if (
+        (name === 'PredicateRef' && isVariableArgument(node, text)) ||
+        (name === 'MathOperand' && isMathVariable(node))
+      ) {
+        add('variable', text.slice(from, to), range, false);
+      } else if (name === 'Variable') {
+        add('parameter', text.slice(from + 1, to), range, node.parent?.name === 'VariableDefinition');
+      }
+    },
+  });
+  return Array.from(symbols.values());
+}
+
+/**
+ * How a symbol is written, e.g. "friends" or "$name"
+ */
+export function getDqlSymbolLabel(symbol: DqlSymbol): string {
+  return symbol.kind === 'parameter' ? `$${symbol.name}` : symbol.name;
+}
+
+/**
+ * The symbol with a definition or usage at pos
+ */
+export function getDqlSymbolAt(symbols: DqlSymbol[], pos: number): DqlSymbol | null {
+  const contains = (range: DqlSymbolRange) => range.from <= pos && pos <= range.to;
+  return symbols.find(symbol => symbol.definitions.some(contains) || symbol.usages.some(contains)) ?? null;
+}
+
+/**
+ * Warnings for variables defined but never used, or used but never defined
+ */
+export function getDqlSymbolDiagnostics(symbols: DqlSymbol[]): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const warn = (range: DqlSymbolRange, message: string) => {
+    diagnostics.push({ ...range, severity: 'warning', source: 'variables', message });
+  };
+
+  symbols.forEach(symbol => {
+    const label = getDqlSymbolLabel(symbol);
+    const defined = symbol.kind === 'parameter' ? 'declared' : 'defined';
+    if (symbol.usages.length === 0) {
+      symbol.definitions.forEach(range => warn(range, `${label} is ${defined} but never used`));
+    }
+    if (symbol.definitions.length === 0) {
+      symbol.usages.forEach(range => warn(range, `${label} is used but not ${defined}`));
+    }
+  });
+  return diagnostics.sort((a, b) => a.from - b.from);
+}
+
+/**
+ * Whether a name can be used for a variable or $param
+ */
+export function isValidDqlSymbolName(name: string): boolean {
+  return /^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name);
+}
+
+/**
+ * Changes that rename every definition and usage of a symbol
+ */
+export function renameDqlSymbol(symbol: DqlSymbol, newName: string): Array<DqlSymbolRange & { insert: string }> {
+  const insert = symbol.kind === 'parameter' ? `$${newName}` : newName;
+  return [...symbol.definitions, ...symbol.usages]
+    .sort((a, b) => a.from - b.from)
+    .map(range => ({ ...range, insert }));
+}
+
+const symbolsOf = (state: EditorState) => findDqlSymbols(syntaxTree(state), state.doc.toString());
+
+const symbolAtCursor = (state: EditorState) => getDqlSymbolAt(symbolsOf(state), state.selection.main.head);
+
+// Select the first definition of the symbol at pos
+const goToDefinition = (view: EditorView, pos: number): boolean => {
+  const definition = getDqlSymbolAt(symbolsOf(view.state), pos)?.definitions[0];
+  if (!definition) {
+    return false;
+  }
+  view.dispatch({
+    selection: { anchor: definition.from, head: definition.to },
+    scrollIntoView: true,
+  });
+  return true;
+};
+
+const goToDefinitionCommand: Command = view => goToDefinition(view, view.state.selection.main.head);
+
+const renameCommand: Command = view => {
+  const symbol = symbolAtCursor(view.state);
+  if (!symbol) {
+    return false;
+  }
+  const newName = window.prompt(`Rename ${getDqlSymbolLabel(symbol)} to:`, symbol.name)?.trim().replace(/^\$/, '');
+  if (!newName || newName === symbol.name) {
+    return true;
+  }
+  if (!isValidDqlSymbolName(newName)) {
+    window.alert(`"${newName}" is not a valid variable name.`);
+    return true;
+  }
+  view.dispatch({ changes: renameDqlSymbol(symbol, newName) });
+  return true;
+};
+
+const definitionMark = Decoration.mark({ class: 'cm-dql-symbol-definition' });
+const usageMark = Decoration.mark({ class: 'cm-dql-symbol-usage' });
+
+const symbolDecorations = (state: EditorState): DecorationSet => {
+  const symbol = symbolAtCursor(state);
+  if (!symbol) {
+    return Decoration.none;
+  }
+  const marks: Range<Decoration>[] = [
+    ...symbol.definitions.map(({ from, to }) => definitionMark.range(from, to)),
+    ...symbol.usages.map(({ from, to }) => usageMark.range(from, to)),
+  ];
+  return Decoration.set(marks, true);
+};
+
+// Highlight every definition and usage of the symbol under the cursor
+const usageHighlighter = ViewPlugin.fromClass(class {
+  decorations: DecorationSet;
+
+  constructor(view: EditorView) {
+    this.decorations = symbolDecorations(view.state);
+  }
+
+  update(update: ViewUpdate) {
+    if (update.docChanged || update.selectionSet || syntaxTree(update.state) !== syntaxTree(update.startState)) {
+      this.decorations = symbolDecorations(update.state);
+    }
+  }
+}, {
+  decorations: plugin => plugin.decorations,
+});
+
+const symbolTheme = EditorView.baseTheme({
+  '.cm-dql-symbol-usage': { backgroundColor: 'rgba(99, 102, 241, 0.15)' },
+  '.cm-dql-symbol-definition': { backgroundColor: 'rgba(99, 102, 241, 0.3)', textDecoration: 'underline' },
+});
+
+/**
+ * Go to definition (F12 or Ctrl/Cmd-click), usage highlighting and rename (F2)
+ * for DQL variables and $params
+ */
+export function dqlSymbols() {
+  return [
+    keymap.of([
+      { key: 'F12', run: goToDefinitionCommand },
+      { key: 'F2', run: renameCommand },
+    ]),
+    EditorView.domEventHandlers({
+      mousedown: (event, view) => {
+        if (!(event.ctrlKey || event.metaKey)) {
+          return false;
+        }
+        const pos = view.posAtCoords({ x: event.clientX, y: event.clientY });
+        if (pos === null || !goToDefinition(view, pos)) {
+          return false;
+        }
+        event.preventDefault();
+        return true;
+      },
+    }),
+    usageHighlighter,
+    symbolTheme,
+  ];
+}
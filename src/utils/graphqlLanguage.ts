@@ -0,0 +1,367 @@
+import { CompletionContext, CompletionResult, autocompletion } from '@codemirror/autocomplete';
+
+/**
+ * GraphQL support for Dgraph's /graphql endpoint: schema introspection,
+ * schema-aware completions and conversion of results for the graph view.
+ */
+
+// Introspection query for the parts of the schema the editor uses
+export const GRAPHQL_INTROSPECTION_QUERY = `query IntrospectionQuery {
+  __schema {
+    queryType { name }
+    mutationType { name }
+    types {
+      kind
+      name
+      description
+      fields {
+        name
+        description
+        args { name type { ...TypeRef } }
+        type { ...TypeRef }
+      }
+    }
+  }
+}
+
+fragment TypeRef on __Type {
+  kind
+  name
+  ofType { kind name ofType { kind name ofType { kind name } } }
+}`;
+
+export type GraphQLOperationType = 'query' | 'mutation' | 'subscription';
+
+export interface GraphQLArgumentInfo {
+  name: string;
+  // Printed type, e.g. [String!]!
+  type: string;
+}
+
+export interface GraphQLFieldInfo {
+  name: string;
+  // Printed type, e.g. [Person]
+  type: string;
+  // Named type with list/non-null wrappers removed, e.g. Person
+  namedType: string;
+  args: GraphQLArgumentInfo[];
+  description?: string;
+}
+
+export interface GraphQLTypeInfo {
+  name: string;
+  kind: string;
+  fields: GraphQLFieldInfo[];
+  description?: string;
+}
+
+export interface GraphQLSchemaInfo {
+  queryType?: string;
+  mutationType?: string;
+  types: Record<string, GraphQLTypeInfo>;
+}
+
+const printTypeRef = (ref: any): string => {
+  if (!ref) return 'Unknown';
+  if (ref.kind === 'NON_NULL') return `${printTypeRef(ref.ofType)}!`;
+  if (ref.kind === 'LIST') return `[${printTypeRef(ref.ofType)}]`;
+  return ref.name || 'Unknown';
+};
+
+const namedTypeRef = (ref: any): string => {
+  while (ref?.ofType) ref = ref.ofType;
+  return ref?.name || 'Unknown';
+};
+
+/**
+ * Read an introspection response (with or without the data envelope)
+ */
+export function parseIntrospection(body: any): GraphQLSchemaInfo {
+  const schema = body?.data?.__schema ?? body?.__schema;
+  const types: Record<string, GraphQLTypeInfo> = {};
+
+  (schema?.types || []).forEach((type: any) => {
+    // Skip introspection types such as __Schema
+    if (!type?.name || type.name.startsWith('__')) return;
+
+    types[type.name] = {
+      name: type.name,
+      kind: type.kind,
+      description: type.description || undefined,
+      fields: (type.fields || []).map((field: any) => ({
+        name: field.name,
+        type: printTypeRef(field.type),
+        namedType: namedTypeRef(field.type),
+        args: (field.args || []).map((arg: any) => ({ name: arg.name, type: printTypeRef(arg.type) })),
+        description: field.description || undefined,
+      })),
+    };
+  });
+
+  return {
+    queryType: schema?.queryType?.name,
+    mutationType: schema?.mutationType?.name,
+    types,
+  };
+}
+
+interface GraphQLToken {
+  type: 'name' | 'punct' | 'string';
+  value: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Split GraphQL text into names, punctuation and strings, dropping comments
+ */
+function tokenizeGraphQL(text: string): GraphQLToken[] {
+  const tokens: GraphQLToken[] = [];
+  let pos = 0;
+
+  while (pos < text.length) {
+    const char = text[pos];
+    const start = pos;
+
+    if (/[\s,]/.test(char)) {
+      // Commas are insignificant in GraphQL but mark argument boundaries
+      if (char === ',') tokens.push({ type: 'punct', value: ',', start, end: pos + 1 });
+      pos++;
+    } else if (char === '#') {
+      while (pos < text.length && text[pos] !== '\n') pos++;
+    } else if (char === '"') {
+      const block = text.startsWith('"""', pos);
+      const closing = block ? '"""' : '"';
+      pos += closing.length;
+      while (pos < text.length && !text.startsWith(closing, pos) && (block || text[pos] !== '\n')) {
+        if (text[pos] === '\\') pos++;
+        pos++;
+      }
+      pos = Math.min(pos + closing.length, text.length);
+      tokens.push({ type: 'string', value: text.substring(start, pos), start, end: pos });
+    } else if (/[_A-Za-z]/.test(char)) {
+      while (pos < text.length && /\w/.test(text[pos])) pos++;
+      tokens.push({ type: 'name', value: text.substring(start, pos), start, end: pos });
+    } else {
+      pos++;
+      tokens.push({ type: 'punct', value: char, start, end: pos });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * The operation keyword of a document; shorthand `{ ... }` documents are queries
+ */
+export function getGraphQLOperationType(text: string): GraphQLOperationType {
+  const first = tokenizeGraphQL(text)[0];
+  if (first?.value === 'mutation' || first?.value === 'subscription') {
+    return first.value;
+  }
+  return 'query';
+}
+
+export type GraphQLCompletionScope =
+  | { kind: 'operation' }
+  | { kind: 'field'; type?: GraphQLTypeInfo }
+  | { kind: 'argument'; field?: GraphQLFieldInfo }
+  | { kind: 'none' };
+
+/**
+ * Find the selection set or argument list the cursor is in by walking the
+ * text up to it and tracking the type of every open selection set
+ */
+export function getGraphQLCompletionScope(schema: GraphQLSchemaInfo, text: string, pos: number): GraphQLCompletionScope {
+  const before = text.substring(0, pos);
+  // Inside a comment or a string
+  const lineStart = before.lastIndexOf('\n') + 1;
+  if (before.substring(lineStart).includes('#')) {
+    return { kind: 'none' };
+  }
+
+  const tokens = tokenizeGraphQL(before);
+  const last = tokens[tokens.length - 1];
+  if (last?.type === 'string' && (last.end === pos && (last.value.length === 1 || !last.value.endsWith('"')))) {
+    return { kind: 'none' };
+  }
+  // Ignore the word being typed
+  if (last?.type === 'name' && last.end === pos) {
+    tokens.pop();
+  }
+
+  // Each open selection set knows its type (undefined when unknown)
+  const selections: (GraphQLTypeInfo | undefined)[] = [];
+  const argumentFields: (GraphQLFieldInfo | undefined)[] = [];
+  let operation: GraphQLOperationType = 'query';
+  let lastField: GraphQLFieldInfo | undefined;
+  let typeCondition: string | undefined;
+
+  const fieldOf = (type: GraphQLTypeInfo | undefined, name: string) =>
+    type?.fields.find(field => field.name === name);
+
+  tokens.forEach((token, index) => {
+    const previous = tokens[index - 1];
+
+    if (token.type === 'name') {
+      if (selections.length === 0 && argumentFields.length === 0) {
+        if (token.value === 'mutation' || token.value === 'subscription' || token.value === 'query') {
+          operation = token.value;
+        }
+        if (previous?.value === 'on') typeCondition = token.value;
+        return;
+      }
+      if (argumentFields.length > 0) return;
+
+      if (previous?.value === 'on') {
+        // Inline fragment: ... on Person {
+        typeCondition = token.value;
+      } else if (previous?.value !== '@') {
+        lastField = fieldOf(selections[selections.length - 1], token.value);
+      }
+      return;
+    }
+
+    if (token.type !== 'punct') return;
+
+    if (token.value === '(') {
+      argumentFields.push(selections.length > 0 ? lastField : undefined);
+    } else if (token.value === ')') {
+      argumentFields.pop();
+    } else if (argumentFields.length > 0) {
+      // Braces inside arguments are input objects, not selections
+      return;
+    } else if (token.value === '{') {
+      if (typeCondition) {
+        selections.push(schema.types[typeCondition]);
+      } else if (selections.length === 0) {
+        const root = operation === 'mutation' ? schema.mutationType : schema.queryType;
+        selections.push(root ? schema.types[root] : undefined);
+      } else {
+        selections.push(lastField ? schema.types[lastField.namedType] : undefined);
+      }
+      typeCondition = undefined;
+      lastField = undefined;
+    } else if (token.value === '}') {
+      selections.pop();
+      lastField = undefined;
+    }
+  });
+
+  const previous = tokens[tokens.length - 1];
+
+  if (argumentFields.length > 0) {
+    // Only argument names are completed; values are free-form
+    if (previous?.value === '(' || previous?.value === ',') {
+      return { kind: 'argument', field: argumentFields[argumentFields.length - 1] };
+    }
+    return { kind: 'none' };
+  }
+
+  if (selections.length > 0) {
+    if (previous?.value === ':' || previous?.value === '@' || previous?.value === 'on') {
+      return { kind: 'none' };
+    }
+    return { kind: 'field', type: selections[selections.length - 1] };
+  }
+
+  return { kind: 'operation' };
+}
+
+function createGraphQLCompletions(schema: GraphQLSchemaInfo) {
+  return (context: CompletionContext): CompletionResult | null => {
+    const word = context.matchBefore(/\w*/);
+    if (!word || (word.from === word.to && !context.explicit)) return null;
+
+    const scope = getGraphQLCompletionScope(schema, context.state.doc.toString(), context.pos);
+
+    if (scope.kind === 'operation') {
+      return {
+        from: word.from,
+        options: ['query', 'mutation', 'fragment'].map(label => ({ label, type: 'keyword' })),
+      };
+    }
+
+    if (scope.kind === 'field' && scope.type) {
+      return {
+        from: word.from,
+        options: [
+          ...scope.type.fields.map(field => ({
+            label: field.name,
+            type: field.args.length > 0 ? 'function' : 'property',
+            detail: field.type,
+            info: field.description,
+          })),
+          { label: '__typename', type: 'property', detail: 'String!' },
+        ],
+      };
+    }
+
+    if (scope.kind === 'argument' && scope.field) {
+      return {
+        from: word.from,
+        options: scope.field.args.map(arg => ({ label: arg.name, type: 'variable', detail: arg.type })),
+      };
+    }
+
+    return null;
+  };
+}
+
+/**
+ * CodeMirror extensions for the GraphQL tab
+ */
+export function graphql(schema: GraphQLSchemaInfo | null) {
+  return schema ? [autocompletion({ override: [createGraphQLCompletions(schema)] })] : [];
+}
+
+/**
+ * Give GraphQL result objects the uid and dgraph.type keys the graph view
+ * reads nodes from. The type comes from __typename or the schema, the uid
+ * from the type's ID field.
+ */
+export function normalizeGraphQLResult(body: any, schema: GraphQLSchemaInfo | null, operation: GraphQLOperationType = 'query'): any {
+  const rootName = operation === 'mutation' ? schema?.mutationType : schema?.queryType;
+
+  const normalize = (value: any, typeName?: string): any => {
+    if (Array.isArray(value)) {
+      return value.map(item => normalize(item, typeName));
+    }
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+
+    const resolvedName = value.__typename || typeName;
+    const type = resolvedName ? schema?.types[resolvedName] : undefined;
+    const result: Record<string, any> = {};
+
+    Object.entries(value).forEach(([key, child]) => {
+      const field = type?.fields.find(candidate => candidate.name === key);
+      result[key] = normalize(child, field?.namedType);
+    });
+
+    const idField = type?.fields.find(field => field.namedType === 'ID' && value[field.name] != null);
+    const id = idField ? value[idField.name] : value.id;
+    if (id != null && !('uid' in result)) {
+      result.uid = String(id);
+    }
+    if (resolvedName && type?.kind === 'OBJECT' && !('dgraph.type' in result)) {
+      result['dgraph.type'] = [resolvedName];
+    }
+    return result;
+  };
+
+  if (!body?.data) {
+    return body;
+  }
+
+  // The root object itself is not a node
+  const data: Record<string, any> = {};
+  const root = rootName ? schema?.types[rootName] : undefined;
+  Object.entries(body.data).forEach(([key, value]) => {
+    const field = root?.fields.find(candidate => candidate.name === key);
+    data[key] = normalize(value, field?.namedType);
+  });
+
+  return { ...body, data };
+}
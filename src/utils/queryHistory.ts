@@ -0,0 +1,103 @@
+/**
+ * Operation history: every run of the editor with its outcome, kept in localStorage
+ */
+
+import { QueryOperation } from './queryWorkspace';
+
+export interface QueryHistoryItem {
+  id: string;
+  query: string;
+  timestamp: number;
+  description?: string;
+  type?: QueryOperation;
+  // Metadata of the run; entries recorded before these existed lack them
+  status?: 'success' | 'error';
+  error?: string;
+  durationMs?: number;
+  // Length of the JSON result
+  resultSize?: number;
+  // DQL variables keyed by $name, or the GraphQL variables object
+  variables?: Record<string, any>;
+  endpoint?: string;
+  // Consecutive identical runs are folded into one entry
+  runCount?: number;
+}
+
+export interface QueryHistoryFilters {
+  failedOnly: boolean;
+  mutationsOnly: boolean;
+  // Only runs against this endpoint
+  endpoint: string | null;
+}
+
+export const MAX_HISTORY_ITEMS = 50;
+
+const OPERATIONS: QueryOperation[] = ['query', 'mutation', 'upsert', 'graphql'];
+
+/**
+ * Size of a result as stored JSON; 0 when it can't be serialised
+ */
+export function getResultSize(result: unknown): number {
+  if (result === undefined || result === null) {
+    return 0;
+  }
+  try {
+    return JSON.stringify(result).length;
+  } catch {
+    return 0;
+  }
+}
+
+const isSameRun = (a: QueryHistoryItem, b: QueryHistoryItem): boolean =>
+  a.query === b.query &&
+  (a.type ?? 'query') === (b.type ?? 'query') &&
+  a.endpoint === b.endpoint &&
+  JSON.stringify(a.variables ?? {}) === JSON.stringify(b.variables ?? {});
+
+/**
+ * Add a run to the front of the history. Repeating the latest run updates
+ * that entry instead of adding another.
+ */
+export function addHistoryItem(history: QueryHistoryItem[], item: QueryHistoryItem): QueryHistoryItem[] {
+  const [latest, ...rest] = history;
+  if (latest && isSameRun(latest, item)) {
+    return [{ ...item, id: latest.id, runCount: (latest.runCount ?? 1) + 1 }, ...rest];
+  }
+  return [item, ...history].slice(0, MAX_HISTORY_ITEMS);
+}
+
+export function filterQueryHistory(history: QueryHistoryItem[], filters: QueryHistoryFilters): QueryHistoryItem[] {
+  return history.filter(item =>
+    (!filters.failedOnly || item.status === 'error') &&
+    (!filters.mutationsOnly || item.type === 'mutation' || item.type === 'upsert') &&
+    (!filters.endpoint || item.endpoint === filters.endpoint)
+  );
+}
+
+/**
+ * Read the stored history, dropping malformed entries
+ */
+export function parseQueryHistory(raw: string | null): QueryHistoryItem[] {
+  if (!raw) {
+    return [];
+  }
+
+  let stored: unknown;
+  try {
+    stored = JSON.parse(raw);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(stored)) {
+    return [];
+  }
+
+  return stored
+    .filter(item => typeof item?.id === 'string' && typeof item?.query === 'string')
+    .map(item => ({
+      ...item,
+      timestamp: typeof item.timestamp === 'number' ? item.timestamp : 0,
+      type: OPERATIONS.includes(item.type) ? item.type : 'query',
+    }))
+    .slice(0, MAX_HISTORY_ITEMS);
+}
@@ -0,0 +1,127 @@
+/**
+ * Utilities for reading Dgraph's query profiling extensions
+ * (extensions.server_latency, extensions.txn and extensions.metrics)
+ */
+
+export interface LatencyPhase {
+  key: 'assignTimestamp' | 'parsing' | 'processing' | 'encoding';
+  label: string;
+  ns: number;
+}
+
+export interface QueryProfile {
+  phases: LatencyPhase[];
+  totalNs: number;
+  // Uids touched per predicate; _total is the sum over all predicates
+  numUids: Record<string, number>;
+  startTs?: number;
+}
+
+export interface ProfileRun {
+  timestamp: number;
+  profile: QueryProfile;
+}
+
+export interface ProfileRunStats {
+  runs: number;
+  minNs: number;
+  maxNs: number;
+  avgNs: number;
+  // Change of the last run's total against the previous run, null for a single run
+  deltaNs: number | null;
+}
+
+// Phases in the order Dgraph executes them
+const PHASES: { key: LatencyPhase['key']; label: string; field: string }[] = [
+  { key: 'assignTimestamp', label: 'Assign timestamp', field: 'assign_timestamp_ns' },
+  { key: 'parsing', label: 'Parsing', field: 'parsing_ns' },
+  { key: 'processing', label: 'Processing', field: 'processing_ns' },
+  { key: 'encoding', label: 'Encoding', field: 'encoding_ns' },
+];
+
+// Runs kept per query
+const MAX_RUNS_PER_QUERY = 20;
+
+/**
+ * Extract the profile from a Dgraph response, or null if it has no latency extension
+ */
+export function extractQueryProfile(response: any): QueryProfile | null {
+  const latency = response?.extensions?.server_latency;
+  if (!latency) {
+    return null;
+  }
+
+  const phases = PHASES
+    .map(({ key, label, field }) => ({ key, label, ns: Number(latency[field]) || 0 }))
+    .filter(phase => phase.ns > 0);
+
+  const phaseSum = phases.reduce((sum, phase) => sum + phase.ns, 0);
+
+  return {
+    phases,
+    totalNs: Number(latency.total_ns) || phaseSum,
+    numUids: { ...(response.extensions.metrics?.num_uids || {}) },
+    startTs: response.extensions.txn?.start_ts,
+  };
+}
+
+/**
+ * Format a nanosecond duration with a readable unit
+ */
+export function formatDuration(ns: number): string {
+  if (ns >= 1e9) return `${(ns / 1e9).toFixed(2)} s`;
+  if (ns >= 1e6) return `${(ns / 1e6).toFixed(2)} ms`;
+  if (ns >= 1e3) return `${(ns / 1e3).toFixed(1)} µs`;
+  return `${ns} ns`;
+}
+
+/**
+ * Normalise whitespace so re-indenting a query doesn't start a new run history
+ */
+export function getProfileKey(query: string): string {
+  return query.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Summarize the total latency of repeated runs of a query
+ */
+export function summarizeProfileRuns(runs: ProfileRun[]): ProfileRunStats | null {
+  if (runs.length === 0) {
+    return null;
+  }
+
+  const totals = runs.map(run => run.profile.totalNs);
+  return {
+    runs: runs.length,
+    minNs: Math.min(...totals),
+    maxNs: Math.max(...totals),
+    avgNs: totals.reduce((sum, ns) => sum + ns, 0) / totals.length,
+    deltaNs: totals.length > 1 ? totals[totals.length - 1] - totals[totals.length - 2] : null,
+  };
+}
+
+/**
+ * In-memory profile history, keyed by normalised query text.
+ * Each response object is recorded at most once, so re-rendering the same result doesn't add runs.
+ */
+export class ProfileHistory {
+  private runs = new Map<string, ProfileRun[]>();
+  private recorded = new WeakSet<object>();
+
+  record(query: string, response: any): ProfileRun[] {
+    const key = getProfileKey(query);
+    const profile = extractQueryProfile(response);
+
+    if (profile && response && typeof response === 'object' && !this.recorded.has(response)) {
+      this.recorded.add(response);
+      const runs = [...(this.runs.get(key) || []), { timestamp: Date.now(), profile }];
+      this.runs.set(key, runs.slice(-MAX_RUNS_PER_QUERY));
+    }
+
+    return this.getRuns(query);
+  }
+
+  getRuns(query: string): ProfileRun[] {
+    return this.runs.get(getProfileKey(query)) || [];
+  }
+}
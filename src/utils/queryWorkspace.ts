@@ -0,0 +1,253 @@
+/**
+ * Editor tabs of the query workspace, stored in localStorage per connection profile
+ */
+
+export type QueryOperation = 'query' | 'mutation' | 'upsert' | 'graphql';
+
+// Result panel views of GraphVisualization
+export type ResultViewMode = 'graph' | 'json' | 'map' | 'analysis' | 'profile';
+
+export const DEFAULT_QUERY = `{
+  # Enter your DQL query here
+  # Example:
+  # q(func: has(name)) {
+  #   uid
+  #   name
+  # }
+}`;
+
+export const DEFAULT_MUTATION = `{
+  # Enter your DQL mutation here as RDF N-Quads
+  # (or as JSON, e.g. {"set": [{"name": "John Doe"}]})
+  # Example:
+  # set {
+  #   _:person <name> "John Doe"@en .
+  #   _:person <age> "30"^^<xs:int> .
+  #   _:person <friend> _:other (since=2006-01-02) .
+  # }
+}`;
+
+export const DEFAULT_UPSERT = `upsert {
+  query {
+    q(func: eq(email, "john@example.com")) {
+      v as uid
+    }
+  }
+
+  # Runs only when no node matched the query
+  mutation @if(eq(len(v), 0)) {
+    set {
+      _:person <email> "john@example.com" .
+      _:person <name> "John Doe" .
+    }
+  }
+
+  # Runs when a node already exists
+  mutation @if(gt(len(v), 0)) {
+    set {
+      uid(v) <name> "John Doe" .
+    }
+  }
+}`;
+
+export const DEFAULT_GRAPHQL = `# Operations run against the /graphql endpoint
+# generated from your deployed GraphQL schema
+# Example:
+# query {
+#   queryPerson(first: 10) {
+#     id
+#     name
+#   }
+# }
+`;
+
+export const DEFAULT_TEXTS: Record<QueryOperation, string> = {
+  query: DEFAULT_QUERY,
+  mutation: DEFAULT_MUTATION,
+  upsert: DEFAULT_UPSERT,
+  graphql: DEFAULT_GRAPHQL,
+};
+
+// Results larger than this are not persisted; the tab reopens without them
+export const MAX_PERSISTED_RESULT_LENGTH = 200_000;
+
+const STORAGE_KEY_PREFIX = 'dgraph-client-workspace';
+
+/**
+ * What the query editor edits: the text of each operation type, the one
+ * shown, and the variables
+ */
+export interface QueryDocument {
+  id: string;
+  operation: QueryOperation;
+  texts: Record<QueryOperation, string>;
+  // DQL variable values keyed by $name
+  variables: Record<string, any>;
+  // JSON text of the GraphQL variables panel
+  graphqlVariables: string;
+  // Send queries exactly as written instead of adding uid and dgraph.type
+  sendAsWritten: boolean;
+}
+
+export interface WorkspaceTab extends QueryDocument {
+  name: string;
+  // Texts as of the last run, for the dirty indicator
+  savedTexts: Record<QueryOperation, string>;
+  result: any | null;
+  // The query that produced the result, for profiling repeated runs
+  resultQuery?: string;
+  viewMode: ResultViewMode;
+}
+
+export interface QueryWorkspace {
+  tabs: WorkspaceTab[];
+  activeTabId: string;
+}
+
+const OPERATIONS = Object.keys(DEFAULT_TEXTS) as QueryOperation[];
+
+const VIEW_MODES: ResultViewMode[] = ['graph', 'json', 'map', 'analysis', 'profile'];
+
+/**
+ * localStorage key of a profile's workspace; connections without a profile share one
+ */
+export function getWorkspaceStorageKey(profileId: string | null | undefined): string {
+  return profileId ? `${STORAGE_KEY_PREFIX}:${profileId}` : STORAGE_KEY_PREFIX;
+}
+
+/**
+ * "Query 1", "Query 2" ... skipping names already taken
+ */
+export function getNextTabName(tabs: WorkspaceTab[]): string {
+  const names = new Set(tabs.map(tab => tab.name));
+  let index = 1;
+  while (names.has(`Query ${index}`)) {
+    index++;
+  }
+  return `Query ${index}`;
+}
+
+/**
+ * Create a tab with a unique id, starting from the default texts
+ */
+export function createWorkspaceTab(tabs: WorkspaceTab[], name: string = getNextTabName(tabs)): WorkspaceTab {
+  let id = `tab-${Date.now().toString(36)}`;
+  while (tabs.some(tab => tab.id === id)) {
+    id = `${id}-${tabs.length}`;
+  }
+  return {
+    id,
+    name: name.trim() || getNextTabName(tabs),
+    operation: 'query',
+    texts: { ...DEFAULT_TEXTS },
+    savedTexts: { ...DEFAULT_TEXTS },
+    variables: {},
+    graphqlVariables: '{}',
+    sendAsWritten: false,
+    result: null,
+    viewMode: 'graph',
+  };
+}
+
+export function createWorkspace(): QueryWorkspace {
+  const tab = createWorkspaceTab([]);
+  return { tabs: [tab], activeTabId: tab.id };
+}
+
+/**
+ * Whether any text of the tab changed since it last ran
+ */
+export function isTabDirty(tab: WorkspaceTab): boolean {
+  return OPERATIONS.some(operation => tab.texts[operation] !== tab.savedTexts[operation]);
+}
+
+/**
+ * Remove a tab, activating its neighbour. Closing the last tab leaves a fresh one.
+ */
+export function closeWorkspaceTab(workspace: QueryWorkspace, id: string): QueryWorkspace {
+  const index = workspace.tabs.findIndex(tab => tab.id === id);
+  if (index === -1) {
+    return workspace;
+  }
+
+  const tabs = workspace.tabs.filter(tab => tab.id !== id);
+  if (tabs.length === 0) {
+    return createWorkspace();
+  }
+
+  const activeTabId = workspace.activeTabId === id
+    ? tabs[Math.min(index, tabs.length - 1)].id
+    : workspace.activeTabId;
+  return { tabs, activeTabId };
+}
+
+const parseTexts = (value: any, fallback: Record<QueryOperation, string>): Record<QueryOperation, string> =>
+  Object.fromEntries(OPERATIONS.map(operation => [
+    operation,
+    typeof value?.[operation] === 'string' ? value[operation] : fallback[operation],
+  ])) as Record<QueryOperation, string>;
+
+/**
+ * Read a stored workspace, dropping malformed tabs. Returns a fresh
+ * workspace when nothing usable is stored.
+ */
+export function parseWorkspace(raw: string | null): QueryWorkspace {
+  if (!raw) {
+    return createWorkspace();
+  }
+
+  let stored: any;
+  try {
+    stored = JSON.parse(raw);
+  } catch {
+    return createWorkspace();
+  }
+
+  const tabs: WorkspaceTab[] = (Array.isArray(stored?.tabs) ? stored.tabs : [])
+    .filter((tab: any) => typeof tab?.id === 'string' && typeof tab?.name === 'string')
+    .map((tab: any) => {
+      const texts = parseTexts(tab.texts, DEFAULT_TEXTS);
+      return {
+        id: tab.id,
+        name: tab.name,
+        operation: OPERATIONS.includes(tab.operation) ? tab.operation : 'query',
+        texts,
+        savedTexts: parseTexts(tab.savedTexts, texts),
+        variables: tab.variables && typeof tab.variables === 'object' ? tab.variables : {},
+        graphqlVariables: typeof tab.graphqlVariables === 'string' ? tab.graphqlVariables : '{}',
+        sendAsWritten: tab.sendAsWritten === true,
+        result: tab.result ?? null,
+        resultQuery: typeof tab.resultQuery === 'string' ? tab.resultQuery : undefined,
+        viewMode: VIEW_MODES.includes(tab.viewMode) ? tab.viewMode : 'graph',
+      };
+    });
+
+  if (tabs.length === 0) {
+    return createWorkspace();
+  }
+
+  const activeTabId = tabs.some(tab => tab.id === stored.activeTabId) ? stored.activeTabId : tabs[0].id;
+  return { tabs, activeTabId };
+}
+
+/**
+ * JSON for localStorage. Large results are left out to stay within the quota,
+ * and all of them when includeResults is false.
+ */
+export function serializeWorkspace(workspace: QueryWorkspace, includeResults = true): string {
+  return JSON.stringify({
+    ...workspace,
+    tabs: workspace.tabs.map(tab => {
+      if (tab.result === null) {
+        return tab;
+      }
+      if (!includeResults) {
+        return { ...tab, result: null, resultQuery: undefined };
+      }
+      const result = JSON.stringify(tab.result);
+      return result.length > MAX_PERSISTED_RESULT_LENGTH
+        ? { ...tab, result: null, resultQuery: undefined }
+        : tab;
+    }),
+  });
+}
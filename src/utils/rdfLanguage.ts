@@ -0,0 +1,167 @@
+import { StreamLanguage, StreamParser, syntaxHighlighting, HighlightStyle } from '@codemirror/language';
+import { tags as t } from '@lezer/highlight';
+
+interface RdfState {
+  // Inside a facet list: (since=2006-01-02, close=true)
+  inFacets: boolean;
+  // The previous token was ^^, so the next IRI is a datatype
+  expectDatatype: boolean;
+  // Paren depth inside an upsert condition: @if(eq(len(v), 0))
+  conditionDepth: number;
+}
+
+// Highlighting for RDF N-Quad mutation blocks
+const rdfHighlighting = syntaxHighlighting(HighlightStyle.define([
+  { tag: t.keyword, color: '#5a67d8', fontWeight: 'bold' },
+  { tag: t.propertyName, color: '#047857' },
+  { tag: t.variableName, color: '#c2410c' },
+  { tag: t.string, color: '#b91c1c' },
+  { tag: t.attributeName, color: '#7c3aed' },
+  { tag: t.typeName, color: '#c026d3' },
+  { tag: t.labelName, color: '#0369a1', fontStyle: 'italic' },
+  { tag: t.number, color: '#0369a1' },
+  { tag: t.bool, color: '#0369a1' },
+  { tag: t.atom, color: '#d97706' },
+  { tag: t.operator, color: '#6b7280' },
+  { tag: t.comment, color: '#9ca3af', fontStyle: 'italic' },
+]));
+
+export const rdfStreamParser: StreamParser<RdfState> = {
+  name: 'rdf',
+
+  startState: () => ({ inFacets: false, expectDatatype: false, conditionDepth: 0 }),
+
+  token(stream, state) {
+    if (stream.eatSpace()) return null;
+
+    if (stream.match('#')) {
+      stream.skipToEnd();
+      return 'comment';
+    }
+
+    // Strings can appear both as object literals and as facet values
+    if (stream.match(/^"(?:[^"\\]|\\.)*"/)) {
+      return 'string';
+    }
+
+    // A bare @if without a condition list
+    if (state.conditionDepth === 1 && stream.peek() !== '(') {
+      state.conditionDepth = 0;
+    }
+
+    if (state.conditionDepth > 0) {
+      if (stream.eat('(')) {
+        state.conditionDepth++;
+        return 'paren';
+      }
+      if (stream.eat(')')) {
+        // The depth starts at 1 for the @if keyword itself
+        state.conditionDepth = state.conditionDepth === 2 ? 0 : state.conditionDepth - 1;
+        return 'paren';
+      }
+      if (stream.eat(',')) return 'operator';
+      if (stream.match(/^(AND|OR|NOT|and|or|not)\b/)) return 'operator';
+      if (stream.match(/^-?\d+/)) return 'number';
+      if (stream.match(/^\w+(?=\s*\()/)) return 'keyword';
+      if (stream.match(/^\w+/)) return 'variableName';
+      stream.next();
+      return null;
+    }
+
+    if (state.inFacets) {
+      if (stream.eat(')')) {
+        state.inFacets = false;
+        return 'paren';
+      }
+      if (stream.eat('=') || stream.eat(',')) return 'operator';
+      if (stream.match(/^(true|false)\b/)) return 'bool';
+      if (stream.match(/^-?\d+(\.\d+)?([eE][-+]?\d+)?(?![\w:-])/)) return 'number';
+      if (stream.match(/^[A-Za-z_][\w.-]*(?=\s*=)/)) return 'labelName';
+      // Unquoted datetime or other bare values
+      stream.match(/^[^\s,)]+/);
+      return 'atom';
+    }
+
+    if (stream.match('^^')) {
+      state.expectDatatype = true;
+      return 'operator';
+    }
+
+    if (stream.match(/^<[^>\s]*>/)) {
+      if (state.expectDatatype) {
+        state.expectDatatype = false;
+        return 'typeName';
+      }
+      return 'propertyName';
+    }
+    state.expectDatatype = false;
+
+    // Upsert conditions: mutation @if(eq(len(v), 0))
+    if (stream.match(/^@if\b/)) {
+      state.conditionDepth = 1;
+      return 'keyword';
+    }
+
+    // Language tag directly after a literal: "Alice"@en
+    if (stream.match(/^@[A-Za-z]+(-[A-Za-z0-9]+)*/)) {
+      return 'attributeName';
+    }
+
+    if (stream.eat('(')) {
+      state.inFacets = true;
+      return 'paren';
+    }
+
+    // Blank nodes: _:alice
+    if (stream.match(/^_:[\w.-]+/)) {
+      return 'variableName';
+    }
+
+    // uid(v) and val(v) references used in upserts
+    if (stream.match(/^(uid|val)\(\s*\w*\s*\)/)) {
+      return 'variableName';
+    }
+
+    if (stream.match(/^(set|delete|upsert|query|mutation)\b/)) {
+      return 'keyword';
+    }
+
+    if (stream.eat('*')) return 'atom';
+    if (stream.match(/^-?\d+(\.\d+)?/)) return 'number';
+    if (stream.eat('.')) return 'punctuation';
+    if (stream.eat('{') || stream.eat('}')) return 'brace';
+
+    stream.next();
+    return null;
+  },
+
+  languageData: {
+    commentTokens: { line: '#' },
+  },
+};
+
+// { set { ... } }, { delete { ... } } or upsert { ... }
+const RDF_BLOCK = /^(?:upsert\s*\{|\{\s*(?:set|delete)\s*\{)/;
+
+/**
+ * Check whether a mutation is written as RDF N-Quads rather than JSON, from
+ * the shape of its opening block. Malformed JSON stays JSON, so Dgraph
+ * reports the JSON error. A block holding only comments, like the editor's
+ * template, counts as RDF since JSON has no comments.
+ */
+export function isRdfMutation(mutation: string): boolean {
+  const trimmed = mutation.trim();
+  const withoutComments = trimmed.replace(/^[ \t]*#.*$/gm, '').trim();
+  if (RDF_BLOCK.test(withoutComments)) {
+    return true;
+  }
+  return withoutComments !== trimmed && /^\{\s*\}$/.test(withoutComments);
+}
+
+// Create RDF language support for mutation editing
+export function rdf() {
+  return [
+    StreamLanguage.define(rdfStreamParser),
+    rdfHighlighting,
+  ];
+}
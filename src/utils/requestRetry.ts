@@ -0,0 +1,180 @@
+/**
+ * Retry and circuit breaker helpers for the DgraphService request pipeline
+ */
+
+import { CanceledError } from 'axios';
+
+export interface RetryPolicy {
+  // Retries after the first attempt; 0 disables retrying
+  maxRetries: number;
+  // Backoff before the first retry, doubled for each further retry (milliseconds)
+  baseDelay: number;
+  // Upper bound for a single backoff (milliseconds)
+  maxDelay: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelay: 300,
+  maxDelay: 5000,
+};
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that trip the breaker
+  failureThreshold: number;
+  // How long the breaker stays open before letting a trial request through (milliseconds)
+  resetTimeout: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  resetTimeout: 30000,
+};
+
+// Network error codes worth retrying. Timeouts are not: a slow query would
+// just run again, and Dgraph is still reachable.
+const RETRYABLE_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ERR_NETWORK', 'EPIPE'];
+
+// HTTP statuses worth retrying
+const RETRYABLE_STATUSES = [500, 502, 503, 504];
+
+/**
+ * Thrown instead of sending a request while the circuit breaker is open
+ */
+export class CircuitOpenError extends Error {
+  retryAt: number;
+
+  constructor(retryAt: number) {
+    super('Dgraph is unavailable after repeated failures; requests are paused until the circuit breaker resets');
+    this.name = 'CircuitOpenError';
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * Whether a failed request looks transient: a network-level failure or a 5xx response.
+ * Cancelled requests and client errors (4xx, GraphQL/DQL errors) are never retried.
+ */
+export function isTransientError(error: any): boolean {
+  if (!error || error.name === 'CanceledError' || error.code === 'ERR_CANCELED') {
+    return false;
+  }
+
+  const status = error.response?.status;
+  if (status !== undefined) {
+    return RETRYABLE_STATUSES.includes(status);
+  }
+
+  return RETRYABLE_ERROR_CODES.includes(error.code) || error.message === 'Network Error';
+}
+
+/**
+ * Exponential backoff with full jitter for the given retry (0-based)
+ */
+export function getBackoffDelay(retry: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const ceiling = Math.min(policy.maxDelay, policy.baseDelay * 2 ** retry);
+  return Math.round(random() * ceiling);
+}
+
+/**
+ * Resolve after the given delay, rejecting early if the signal aborts. The
+ * rejection is the CanceledError axios throws for an aborted request, so
+ * callers treat a cancelled backoff like a cancelled request.
+ */
+export function waitForRetry(delay: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CanceledError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CanceledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delay);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Opens after a run of consecutive transient failures so a struggling cluster
+ * isn't hammered with requests. After resetTimeout one trial request is let
+ * through (half-open); its outcome closes or re-opens the breaker.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  // Whether the single trial request of the half-open state is in flight
+  private probing = false;
+  private options: CircuitBreakerOptions;
+  private onStateChange?: (state: CircuitState) => void;
+
+  constructor(options: Partial<CircuitBreakerOptions> = {}, onStateChange?: (state: CircuitState) => void) {
+    this.options = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...options };
+    this.onStateChange = onStateChange;
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Throw CircuitOpenError if requests are currently blocked. Once half-open,
+   * only the first caller gets through until its outcome is recorded; returns
+   * whether the caller is that trial request.
+   */
+  assertCanRequest(now: number = Date.now()): boolean {
+    if (this.state === 'closed') {
+      return false;
+    }
+
+    const retryAt = this.openedAt + this.options.resetTimeout;
+    if (this.state === 'half-open' && this.probing) {
+      throw new CircuitOpenError(retryAt);
+    }
+    if (this.state === 'open' && now < retryAt) {
+      throw new CircuitOpenError(retryAt);
+    }
+    this.probing = true;
+    this.setState('half-open');
+    return true;
+  }
+
+  /**
+   * Let another trial request through when the last one ended without a
+   * recorded outcome, e.g. because it was cancelled
+   */
+  releaseProbe() {
+    this.probing = false;
+  }
+
+  recordSuccess() {
+    this.failures = 0;
+    this.probing = false;
+    this.setState('closed');
+  }
+
+  recordFailure(now: number = Date.now()) {
+    this.failures++;
+    if (this.state === 'half-open' || this.failures >= this.options.failureThreshold) {
+      this.openedAt = now;
+      this.probing = false;
+      this.setState('open');
+    }
+  }
+
+  private setState(state: CircuitState) {
+    if (this.state !== state) {
+      this.state = state;
+      this.onStateChange?.(state);
+    }
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * Saved query library: named queries with folders, tags and variables,
+ * kept in localStorage and shared as JSON
+ */
+
+import { QueryOperation } from './queryWorkspace';
+
+// Connection a saved query was written for
+export interface SavedQueryConnection {
+  profileId: string | null;
+  endpoint: string;
+}
+
+export interface SavedQuery {
+  id: string;
+  name: string;
+  description: string;
+  // Empty for queries outside any folder
+  folder: string;
+  tags: string[];
+  operation: QueryOperation;
+  text: string;
+  // DQL variable values keyed by $name
+  variables: Record<string, any>;
+  connection: SavedQueryConnection | null;
+  starred: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type SavedQueryInput = Pick<SavedQuery, 'name' | 'description' | 'folder' | 'tags' | 'operation' | 'text' | 'variables' | 'connection'>;
+
+export interface SavedQueryImport {
+  queries: SavedQuery[];
+  added: number;
+  updated: number;
+}
+
+// Version of the export format
+export const SAVED_QUERIES_EXPORT_VERSION = 1;
+
+const OPERATIONS: QueryOperation[] = ['query', 'mutation', 'upsert', 'graphql'];
+
+/**
+ * Split "a, b #c" into unique tags
+ */
+export function parseTags(input: string): string[] {
+  const tags = input
+    .split(/[\s,]+/)
+    .map(tag => tag.replace(/^#/, '').trim())
+    .filter(Boolean);
+  return Array.from(new Set(tags));
+}
+
+const normaliseQuery = (query: any): SavedQuery | null => {
+  if (typeof query?.id !== 'string' || typeof query?.name !== 'string' || typeof query?.text !== 'string') {
+    return null;
+  }
+
+  const connection = query.connection && typeof query.connection.endpoint === 'string'
+    ? {
+      profileId: typeof query.connection.profileId === 'string' ? query.connection.profileId : null,
+      endpoint: query.connection.endpoint,
+    }
+    : null;
+
+  return {
+    id: query.id,
+    name: query.name,
+    description: typeof query.description === 'string' ? query.description : '',
+    folder: typeof query.folder === 'string' ? query.folder.trim() : '',
+    tags: Array.isArray(query.tags) ? query.tags.filter((tag: unknown) => typeof tag === 'string') : [],
+    operation: OPERATIONS.includes(query.operation) ? query.operation : 'query',
+    text: query.text,
+    variables: query.variables && typeof query.variables === 'object' ? query.variables : {},
+    connection,
+    starred: query.starred === true,
+    createdAt: typeof query.createdAt === 'number' ? query.createdAt : 0,
+    updatedAt: typeof query.updatedAt === 'number' ? query.updatedAt : 0,
+  };
+};
+
+/**
+ * Read the stored library, dropping malformed entries
+ */
+export function parseSavedQueries(raw: string | null): SavedQuery[] {
+  if (!raw) {
+    return [];
+  }
+
+  let stored: unknown;
+  try {
+    stored = JSON.parse(raw);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(stored)) {
+    return [];
+  }
+
+  return stored.map(normaliseQuery).filter((query): query is SavedQuery => query !== null);
+}
+
+/**
+ * Save a query. An entry with the same name in the same folder is updated
+ * in place, keeping its id and star.
+ */
+export function saveQuery(queries: SavedQuery[], input: SavedQueryInput, now = Date.now()): SavedQuery[] {
+  const name = input.name.trim() || 'Untitled';
+  const folder = input.folder.trim();
+  const fields = { ...input, name, folder, description: input.description.trim(), tags: [...input.tags] };
+
+  const existing = queries.find(query =>
+    query.name.toLowerCase() === name.toLowerCase() && query.folder.toLowerCase() === folder.toLowerCase()
+  );
+  if (existing) {
+    return queries.map(query => (query === existing ? { ...query, ...fields, updatedAt: now } : query));
+  }
+
+  let id = `saved-${now.toString(36)}`;
+  while (queries.some(query => query.id === id)) {
+    id = `${id}-${queries.length}`;
+  }
+  return [...queries, { ...fields, id, starred: false, createdAt: now, updatedAt: now }];
+}
+
+/**
+ * Whether a saved query was written for the given connection. Queries
+ * saved without one match every connection.
+ */
+export function matchesConnection(query: SavedQuery, connection: SavedQueryConnection): boolean {
+  if (!query.connection) {
+    return true;
+  }
+  if (query.connection.profileId && connection.profileId) {
+    return query.connection.profileId === connection.profileId;
+  }
+  return query.connection.endpoint === connection.endpoint;
+}
+
+/**
+ * Full-text search over name, description, folder, tags and text. Every
+ * word of the search must match; #word matches tags only.
+ */
+export function searchSavedQueries(queries: SavedQuery[], search: string): SavedQuery[] {
+  const words = search.toLowerCase().split(/\s+/).filter(Boolean);
+  const matches = queries.filter(query => {
+    const haystack = [query.name, query.description, query.folder, query.text, ...query.tags].join('\n').toLowerCase();
+    const tags = query.tags.map(tag => tag.toLowerCase());
+    return words.every(word => (
+      word.startsWith('#') && word.length > 1
+        ? tags.some(tag => tag.startsWith(word.slice(1)))
+        : haystack.includes(word)
+    ));
+  });
+
+  // Starred first, then most recently saved
+  return matches.sort((a, b) => Number(b.starred) - Number(a.starred) || b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Queries grouped by folder, folders in alphabetical order with unfiled queries last
+ */
+export function groupByFolder(queries: SavedQuery[]): { folder: string; queries: SavedQuery[] }[] {
+  const folders = new Map<string, SavedQuery[]>();
+  queries.forEach(query => {
+    folders.set(query.folder, [...(folders.get(query.folder) || []), query]);
+  });
+
+  return Array.from(folders.entries())
+    .sort(([a], [b]) => (a === '' ? 1 : b === '' ? -1 : a.localeCompare(b)))
+    .map(([folder, entries]) => ({ folder, queries: entries }));
+}
+
+export function getFolders(queries: SavedQuery[]): string[] {
+  return Array.from(new Set(queries.map(query => query.folder).filter(Boolean))).sort((a, b) => a.localeCompare(b));
+}
+
+export function exportSavedQueries(queries: SavedQuery[], now = Date.now()): string {
+  return JSON.stringify({
+    version: SAVED_QUERIES_EXPORT_VERSION,
+    exportedAt: new Date(now).toISOString(),
+    queries,
+  }, null, 2);
+}
+
+/**
+ * Merge an exported library into the current one. Entries with a known id
+ * replace the current entry when they were saved more recently.
+ */
+export function importSavedQueries(json: string, current: SavedQuery[]): SavedQueryImport {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  // Accept a bare array as well as the export envelope
+  const entries = Array.isArray(parsed) ? parsed : parsed?.queries;
+  if (!Array.isArray(entries)) {
+    throw new Error('The file does not contain saved queries');
+  }
+  if (!Array.isArray(parsed) && typeof parsed.version === 'number' && parsed.version > SAVED_QUERIES_EXPORT_VERSION) {
+    throw new Error(`Unsupported export version ${parsed.version}`);
+  }
+
+  const imported = entries.map(normaliseQuery).filter((query): query is SavedQuery => query !== null);
+  const queries = [...current];
+  let added = 0;
+  let updated = 0;
+
+  imported.forEach(query => {
+    const index = queries.findIndex(entry => entry.id === query.id);
+    if (index === -1) {
+      queries.push(query);
+      added++;
+    } else if (query.updatedAt > queries[index].updatedAt) {
+      queries[index] = query;
+      updated++;
+    }
+  });
+
+  return { queries, added, updated };
+}
@@ -13,8 +13,25 @@ export interface SchemaField {
   kind?: string;
 }
 
+// A predicate of a Dgraph schema {} result with its index and flags
+export interface SchemaPredicate {
+  name: string;
+  type: string;
+  list: boolean;
+  // Tokenizers of @index, empty when the predicate isn't indexed
+  tokenizers: string[];
+  reverse: boolean;
+  count: boolean;
+  upsert: boolean;
+  lang: boolean;
+  // Types that declare the predicate
+  declaredIn: string[];
+}
+
 export interface ParsedSchema {
   types: SchemaType[];
+  // Only present for Dgraph schemas
+  predicates?: SchemaPredicate[];
 }
 
 export interface SchemaValidationResult {
@@ -74,8 +91,34 @@ function parseDgraphSchema(schema: any): ParsedSchema {
       });
     }
   });
-  
-  return { types: Array.from(types.values()) };
+
+  // Types as declared in the schema, e.g. type Person { name friends }
+  const declarations: { name: string; fields: string[] }[] = Array.isArray(schema.types)
+    ? schema.types
+      .filter((type: any) => typeof type?.name === 'string')
+      .map((type: any) => ({
+        name: type.name,
+        fields: Array.isArray(type.fields) ? type.fields.map((field: any) => field?.name) : [],
+      }))
+    : [];
+
+  const predicates = schema.schema
+    .filter((predicate: any) => predicate.predicate && predicate.type)
+    .map((predicate: any): SchemaPredicate => ({
+      name: predicate.predicate,
+      type: predicate.type,
+      list: predicate.list === true,
+      tokenizers: Array.isArray(predicate.tokenizer) ? predicate.tokenizer : [],
+      reverse: predicate.reverse === true,
+      count: predicate.count === true,
+      upsert: predicate.upsert === true,
+      lang: predicate.lang === true,
+      declaredIn: declarations
+        .filter(type => type.fields.includes(predicate.predicate))
+        .map(type => type.name),
+    }));
+
+  return { types: Array.from(types.values()), predicates };
 }
 
 /**
@@ -109,6 +152,36 @@ function extractTypeNameFromPredicate(predicate: string): string {
   return parts[0] || 'Unknown';
 }
 
+/**
+ * Look up a predicate; reverse edges (~friend) resolve to their predicate
+ */
+export function getSchemaPredicate(schema: ParsedSchema, name: string): SchemaPredicate | null {
+  const predicateName = name.replace(/^~/, '').replace(/^<(.*)>$/, '$1');
+  return schema.predicates?.find(predicate => predicate.name === predicateName) ?? null;
+}
+
+/**
+ * A predicate as a schema line, e.g. name: string @index(exact, term) @lang .
+ */
+export function formatSchemaPredicate(predicate: SchemaPredicate): string {
+  const directives = [
+    predicate.tokenizers.length > 0 ? `@index(${predicate.tokenizers.join(', ')})` : '',
+    predicate.reverse ? '@reverse' : '',
+    predicate.count ? '@count' : '',
+    predicate.upsert ? '@upsert' : '',
+    predicate.lang ? '@lang' : '',
+  ].filter(Boolean);
+  const type = predicate.list ? `[${predicate.type}]` : predicate.type;
+  return [`${predicate.name}: ${type}`, ...directives, '.'].join(' ');
+}
+
+/**
+ * Schema text for the schema editor from a schema {} result
+ */
+export function formatSchemaText(schema: any): string {
+  return (parseSchema(schema).predicates ?? []).map(formatSchemaPredicate).join('\n');
+}
+
 /**
  * Extract types from schema
  */
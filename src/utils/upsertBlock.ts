@@ -0,0 +1,348 @@
+/**
+ * Utilities for parsing and instrumenting Dgraph upsert blocks
+ */
+
+export interface UpsertMutation {
+  // Condition as written, e.g. @if(eq(len(v), 0))
+  cond?: string;
+  // RDF mutation body ({ set { ... } }) or JSON mutation object
+  body: string | Record<string, any>;
+}
+
+export interface ParsedUpsert {
+  format: 'rdf' | 'json';
+  query: string;
+  mutations: UpsertMutation[];
+  // Offsets of the query block contents inside the original RDF text
+  queryStart: number;
+  queryEnd: number;
+}
+
+export interface UpsertMutationOutcome {
+  index: number;
+  cond?: string;
+  // null when the condition couldn't be evaluated on the client
+  fired: boolean | null;
+}
+
+export interface UpsertVariableMatch {
+  count: number;
+  uids: string[];
+}
+
+export interface UpsertSummary {
+  mutations: UpsertMutationOutcome[];
+  matched: Record<string, UpsertVariableMatch>;
+  created: Record<string, string>;
+}
+
+// Prefix for the probe blocks added to the upsert query
+const PROBE_PREFIX = '__upsert_';
+// Maximum number of matched uids listed per variable
+const PROBE_UID_LIMIT = 100;
+
+/**
+ * Find the index of the brace that closes the one at openIndex,
+ * skipping string literals and # comments
+ */
+export function findMatchingBrace(text: string, openIndex: number): number {
+  let depth = 0;
+
+  for (let i = openIndex; i < text.length; i++) {
+    const char = text[i];
+
+    if (char === '"') {
+      i++;
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === '\\') i++;
+        i++;
+      }
+    } else if (char === '#') {
+      while (i < text.length && text[i] !== '\n') i++;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Parse an upsert block in RDF form:
+ *   upsert { query { ... } mutation @if(...) { set { ... } } }
+ * or JSON form:
+ *   { "query": "...", "mutations": [{ "cond": "@if(...)", "set": [...] }] }
+ */
+export function parseUpsertBlock(text: string): ParsedUpsert {
+  try {
+    const parsed = JSON.parse(text);
+    if (parsed && typeof parsed.query === 'string' && Array.isArray(parsed.mutations)) {
+      return {
+        format: 'json',
+        query: parsed.query,
+        mutations: parsed.mutations.map((mutation: Record<string, any>) => {
+          const { cond, ...body } = mutation;
+          return { cond, body };
+        }),
+        queryStart: -1,
+        queryEnd: -1,
+      };
+    }
+  } catch {
+    // Not JSON - parse as RDF below
+  }
+
+  const upsertMatch = /\bupsert\s*\{/.exec(text);
+  if (!upsertMatch) {
+    throw new Error('Upsert must start with an upsert { ... } block');
+  }
+
+  const upsertOpen = upsertMatch.index + upsertMatch[0].length - 1;
+  const upsertClose = findMatchingBrace(text, upsertOpen);
+  if (upsertClose === -1) {
+    throw new Error('Unclosed upsert block');
+  }
+
+  let query: string | null = null;
+  let queryStart = -1;
+  let queryEnd = -1;
+  const mutations: UpsertMutation[] = [];
+
+  const blockRegex = /\b(query|mutation)\b\s*(@if\s*\()?/g;
+  blockRegex.lastIndex = upsertOpen + 1;
+  let match;
+
+  while ((match = blockRegex.exec(text)) !== null && match.index < upsertClose) {
+    let cursor = match.index + match[0].length;
+    let cond: string | undefined;
+
+    if (match[2]) {
+      // Capture the balanced @if( ... ) condition
+      let depth = 1;
+      while (cursor < upsertClose && depth > 0) {
+        if (text[cursor] === '(') depth++;
+        if (text[cursor] === ')') depth--;
+        cursor++;
+      }
+      cond = text.substring(match.index + match[1].length, cursor).trim();
+    }
+
+    const open = text.indexOf('{', cursor);
+    const close = open === -1 ? -1 : findMatchingBrace(text, open);
+    if (close === -1 || close > upsertClose) {
+      throw new Error(`Unclosed ${match[1]} block in upsert`);
+    }
+
+    if (match[1] === 'query') {
+      query = text.substring(open + 1, close);
+      queryStart = open + 1;
+      queryEnd = close;
+    } else {
+      mutations.push({ cond, body: text.substring(open, close + 1) });
+    }
+
+    blockRegex.lastIndex = close + 1;
+  }
+
+  if (query === null) {
+    throw new Error('Upsert block must contain a query block');
+  }
+  if (mutations.length === 0) {
+    throw new Error('Upsert block must contain at least one mutation block');
+  }
+
+  return { format: 'rdf', query, mutations, queryStart, queryEnd };
+}
+
+/**
+ * Collect uid variables referenced by conditions (len(v)) and mutation bodies (uid(v))
+ */
+export function extractUpsertVariables(parsed: ParsedUpsert): string[] {
+  const names = new Set<string>();
+
+  parsed.mutations.forEach(mutation => {
+    const body = typeof mutation.body === 'string' ? mutation.body : JSON.stringify(mutation.body);
+    const sources = [mutation.cond || '', body];
+    sources.forEach(source => {
+      const varRegex = /\b(?:len|uid)\(\s*([A-Za-z_][\w]*)\s*\)/g;
+      let match;
+      while ((match = varRegex.exec(source)) !== null) {
+        names.add(match[1]);
+      }
+    });
+  });
+
+  return Array.from(names);
+}
+
+/**
+ * Append probe blocks to an upsert query so the response reports
+ * how many uids each variable matched
+ */
+export function instrumentUpsertQuery(query: string, variables: string[]): string {
+  if (variables.length === 0) {
+    return query;
+  }
+
+  const probes = variables.map(name => [
+    `  ${PROBE_PREFIX}count_${name}(func: uid(${name})) { count(uid) }`,
+    `  ${PROBE_PREFIX}uids_${name}(func: uid(${name}), first: ${PROBE_UID_LIMIT}) { uid }`,
+  ].join('\n')).join('\n');
+
+  return `${query.replace(/\s*$/, '')}\n${probes}\n`;
+}
+
+/**
+ * Rebuild the upsert request with an instrumented query block
+ */
+export function buildInstrumentedUpsert(text: string, parsed: ParsedUpsert): string | Record<string, any> {
+  const variables = extractUpsertVariables(parsed);
+
+  if (parsed.format === 'json') {
+    // The JSON query carries its own outer braces: probe inside them
+    const queryEnd = parsed.query.lastIndexOf('}');
+    const query = queryEnd === -1
+      ? parsed.query
+      : instrumentUpsertQuery(parsed.query.substring(0, queryEnd), variables) + parsed.query.substring(queryEnd);
+    return {
+      query,
+      mutations: parsed.mutations.map(mutation => ({
+        ...(mutation.body as Record<string, any>),
+        ...(mutation.cond ? { cond: mutation.cond } : {}),
+      })),
+    };
+  }
+
+  const query = instrumentUpsertQuery(parsed.query, variables);
+  return text.substring(0, parsed.queryStart) + query + text.substring(parsed.queryEnd);
+}
+
+/**
+ * Evaluate an @if condition against the matched uid counts.
+ * Supports eq/lt/le/gt/ge over len(var), combined with AND/OR/NOT.
+ */
+export function evaluateUpsertCondition(cond: string, lengths: Record<string, number>): boolean | null {
+  const inner = cond.trim().replace(/^@if\s*\(/, '').replace(/\)\s*$/, '');
+  const tokens = inner.match(/\(|\)|,|[A-Za-z_][\w]*|-?\d+/g) || [];
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new Error(`Expected '${token}'`);
+  };
+
+  const parseComparison = (): boolean => {
+    const fn = next()?.toLowerCase();
+    expect('(');
+    expect('len');
+    expect('(');
+    const name = next();
+    expect(')');
+    expect(',');
+    const value = Number(next());
+    expect(')');
+
+    if (!name || !(name in lengths) || isNaN(value)) {
+      throw new Error('Unknown operand');
+    }
+    const length = lengths[name];
+
+    switch (fn) {
+      case 'eq': return length === value;
+      case 'lt': return length < value;
+      case 'le': return length <= value;
+      case 'gt': return length > value;
+      case 'ge': return length >= value;
+      default: throw new Error(`Unsupported function ${fn}`);
+    }
+  };
+
+  const parseUnary = (): boolean => {
+    if (peek()?.toUpperCase() === 'NOT') {
+      next();
+      return !parseUnary();
+    }
+    if (peek() === '(') {
+      next();
+      const value = parseOr();
+      expect(')');
+      return value;
+    }
+    return parseComparison();
+  };
+
+  const parseAnd = (): boolean => {
+    let value = parseUnary();
+    while (peek()?.toUpperCase() === 'AND') {
+      next();
+      const right = parseUnary();
+      value = value && right;
+    }
+    return value;
+  };
+
+  const parseOr = (): boolean => {
+    let value = parseAnd();
+    while (peek()?.toUpperCase() === 'OR') {
+      next();
+      const right = parseAnd();
+      value = value || right;
+    }
+    return value;
+  };
+
+  try {
+    const result = parseOr();
+    return pos === tokens.length ? result : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remove probe blocks from an upsert response and summarize the outcome
+ */
+export function summarizeUpsertResponse(parsed: ParsedUpsert, response: any): { response: any; summary: UpsertSummary } {
+  const queries: Record<string, any> = { ...(response?.data?.queries || {}) };
+  const matched: Record<string, UpsertVariableMatch> = {};
+
+  Object.keys(queries).forEach(key => {
+    if (!key.startsWith(PROBE_PREFIX)) return;
+
+    const [, kind, name] = key.match(/^__upsert_(count|uids)_(.+)$/) || [];
+    if (name) {
+      const entry = matched[name] ?? { count: 0, uids: [] };
+      if (kind === 'count') {
+        entry.count = queries[key]?.[0]?.count ?? 0;
+      } else {
+        entry.uids = (queries[key] || []).map((node: any) => node.uid);
+      }
+      matched[name] = entry;
+    }
+    delete queries[key];
+  });
+
+  const lengths = Object.fromEntries(
+    Object.entries(matched).map(([name, match]) => [name, match.count])
+  );
+
+  const summary: UpsertSummary = {
+    mutations: parsed.mutations.map((mutation, index) => ({
+      index,
+      cond: mutation.cond,
+      fired: mutation.cond ? evaluateUpsertCondition(mutation.cond, lengths) : true,
+    })),
+    matched,
+    created: { ...(response?.data?.uids || {}) },
+  };
+
+  const cleaned = response?.data
+    ? { ...response, data: { ...response.data, queries } }
+    : response;
+
+  return { response: cleaned, summary };
+}